@@ -3,7 +3,9 @@
 
     // DOM elements
     const commitCountInput = document.getElementById('commitCount');
+    const aiProviderSelect = document.getElementById('aiProvider');
     const changelogStyleSelect = document.getElementById('changelogStyle');
+    const outputFormatSelect = document.getElementById('outputFormat');
     const skipFormattingCheckbox = document.getElementById('skipFormatting');
     const groupByAuthorCheckbox = document.getElementById('groupByAuthor');
     const rangeTypeSelect = document.getElementById('rangeType');
@@ -34,6 +36,9 @@
 
         // Set up event listeners
         rangeTypeSelect.addEventListener('change', handleRangeTypeChange);
+        aiProviderSelect.addEventListener('change', handleProviderChange);
+        changelogStyleSelect.addEventListener('change', handleStyleChange);
+        outputFormatSelect.addEventListener('change', handleFormatChange);
         previewBtn.addEventListener('click', handlePreview);
         generateBtn.addEventListener('click', handleGenerate);
         copyBtn.addEventListener('click', handleCopy);
@@ -65,11 +70,36 @@
         }
     }
 
+    function handleProviderChange() {
+        vscode.postMessage({
+            type: 'updateConfig',
+            key: 'primaryAIProvider',
+            value: aiProviderSelect.value
+        });
+    }
+
+    function handleStyleChange() {
+        vscode.postMessage({
+            type: 'updateConfig',
+            key: 'changelogStyle',
+            value: changelogStyleSelect.value
+        });
+    }
+
+    function handleFormatChange() {
+        vscode.postMessage({
+            type: 'updateConfig',
+            key: 'outputFormat',
+            value: outputFormatSelect.value
+        });
+    }
+
     function getOptions() {
         const rangeType = rangeTypeSelect.value;
         const options = {
             skipFormatting: skipFormattingCheckbox.checked,
             groupByAuthor: groupByAuthorCheckbox.checked,
+            format: outputFormatSelect.value,
             includeTypes: ['feat', 'fix', 'docs', 'refactor'] // TODO: Make this configurable
         };
 
@@ -155,6 +185,9 @@
             case 'error':
                 showError(message.data);
                 break;
+            case 'cancelled':
+                hideAll();
+                break;
             case 'configUpdated':
                 // Config was updated successfully
                 break;
@@ -163,7 +196,37 @@
 
     function updateConfigForm(config) {
         commitCountInput.value = config.defaultCommitCount || 10;
+        aiProviderSelect.value = config.primaryAIProvider || 'openai';
+        // Rebuild the style list so custom styles show up next to the built-in ones
+        if (config.changelogStyles && config.changelogStyles.length > 0) {
+            changelogStyleSelect.innerHTML = '';
+            config.changelogStyles.forEach(style => {
+                const option = document.createElement('option');
+                option.value = style.name;
+                option.textContent = style.label;
+                option.title = style.description;
+                changelogStyleSelect.appendChild(option);
+            });
+        }
         changelogStyleSelect.value = config.changelogStyle || 'dev-friendly';
+        if (config.outputFormats && config.outputFormats.length > 0) {
+            outputFormatSelect.innerHTML = '';
+            config.outputFormats.forEach(format => {
+                const option = document.createElement('option');
+                option.value = format.format;
+                option.textContent = format.name;
+                outputFormatSelect.appendChild(option);
+            });
+        }
+        outputFormatSelect.value = config.outputFormat || 'markdown';
+
+        // Mark providers that still need an API key
+        (config.aiProviders || []).forEach(provider => {
+            const option = aiProviderSelect.querySelector(`option[value="${provider.type}"]`);
+            if (option) {
+                option.textContent = provider.configured ? provider.name : `${provider.name} (not configured)`;
+            }
+        });
         skipFormattingCheckbox.checked = config.skipFormattingCommits !== false;
         groupByAuthorCheckbox.checked = config.groupByAuthor === true;
     }
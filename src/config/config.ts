@@ -1,4 +1,9 @@
 import * as vscode from 'vscode';
+import { AIProviderType } from '../integrations/providers/types';
+import { RequestSchedulerOptions } from '../integrations/providers/request-scheduler';
+import { OutputFormat } from '../core/renderers/types';
+import { IssueTracker } from '../integrations/issue-links';
+import { DEFAULT_STYLE, StyleRegistry } from './styleRegistry';
 
 export class ConfigService {
 	private static readonly OPENAI_KEY = 'shipnote-ai.openaiKey';
@@ -24,7 +29,15 @@ export class ConfigService {
 	 */
 	getChangelogStyle(): string {
 		const config = vscode.workspace.getConfiguration('shipnote-ai');
-		return config.get('changelogStyle', 'dev-friendly');
+		return config.get('changelogStyle', DEFAULT_STYLE);
+	}
+
+	/**
+	 * Get the built-in writing styles plus those declared in `shipnote-ai.customStyles`
+	 */
+	getStyleRegistry(): StyleRegistry {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return new StyleRegistry(config.get('customStyles', []));
 	}
 
 	/**
@@ -43,6 +56,30 @@ export class ConfigService {
 		return config.get('outputFileName', 'CHANGELOG.md');
 	}
 
+	/**
+	 * Get the format changelogs are rendered in
+	 */
+	getOutputFormat(): OutputFormat {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('outputFormat', 'markdown');
+	}
+
+	/**
+	 * Get the file name for exported release JSON
+	 */
+	getJSONOutputFileName(): string {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('jsonOutputFileName', 'changelog.json');
+	}
+
+	/**
+	 * Get monorepo packages mapped to their directories; empty to use the workspace globs
+	 */
+	getPackagePaths(): Record<string, string> {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('packages', {});
+	}
+
 	/**
 	 * Get included commit types
 	 */
@@ -51,6 +88,22 @@ export class ConfigService {
 		return config.get('includeCommitTypes', ['feat', 'fix', 'docs', 'refactor']);
 	}
 
+	/**
+	 * Get globs of the paths commits must touch; empty for the whole repository
+	 */
+	getIncludePaths(): string[] {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('includePaths', []);
+	}
+
+	/**
+	 * Get globs of the paths to ignore in commits and diffs
+	 */
+	getExcludePaths(): string[] {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('excludePaths', []);
+	}
+
 	/**
 	 * Check if formatting commits should be skipped
 	 */
@@ -67,12 +120,136 @@ export class ConfigService {
 		return config.get('groupByAuthor', false);
 	}
 
+	/**
+	 * Get author names or emails mapped to the name they should appear under
+	 */
+	getAuthorAliases(): Record<string, string> {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('authorAliases', {});
+	}
+
+	/**
+	 * Get name or email patterns of authors whose commits are left out, such as bots
+	 */
+	getExcludeAuthors(): string[] {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('excludeAuthors', ['*[bot]']);
+	}
+
+	/**
+	 * Check if changelogs end with a Contributors section
+	 */
+	getShowContributors(): boolean {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('showContributors', false);
+	}
+
+	/**
+	 * Check if related entries are merged and reverted commits left out
+	 */
+	getConsolidateEntries(): boolean {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('consolidateEntries', true);
+	}
+
+	/**
+	 * Get where commit and issue links point
+	 */
+	getIssueTracker(): IssueTracker {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('issueTracker', 'auto');
+	}
+
+	/**
+	 * Get the issue link template for Jira-style keys and custom trackers
+	 */
+	getIssueUrlTemplate(): string {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('issueUrlTemplate', '');
+	}
+
+	/**
+	 * Get the commit link template that overrides the code host's default
+	 */
+	getCommitUrlTemplate(): string {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('commitUrlTemplate', '');
+	}
+
+	/**
+	 * Get the AI provider used for changelog generation
+	 */
+	getPrimaryAIProvider(): AIProviderType {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('primaryAIProvider', 'openai');
+	}
+
+	/**
+	 * Get the AI provider used when the primary one is not configured
+	 */
+	getFallbackAIProvider(): AIProviderType {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('fallbackAIProvider', 'offline');
+	}
+
+	/**
+	 * Get concurrency, rate limit and retry settings for AI requests
+	 */
+	getRequestSchedulerOptions(): Partial<RequestSchedulerOptions> {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return {
+			concurrency: config.get('requestConcurrency', 4),
+			requestsPerMinute: config.get('requestsPerMinute', 60),
+			maxRetries: config.get('maxRetries', 3)
+		};
+	}
+
+	/**
+	 * Get the name of the custom prompt template; empty for the built-in prompt
+	 */
+	getPromptTemplateName(): string {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('promptTemplate', '');
+	}
+
+	/**
+	 * Check whether AI responses are cached on disk
+	 */
+	getAICacheEnabled(): boolean {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('aiCache.enabled', true);
+	}
+
+	/**
+	 * Get the maximum number of cached AI responses
+	 */
+	getAICacheMaxEntries(): number {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('aiCache.maxEntries', 5000);
+	}
+
+	/**
+	 * Get the estimated cost in US dollars above which a run must be confirmed
+	 */
+	getCostConfirmationThreshold(): number {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('costConfirmationThreshold', 0.5);
+	}
+
+	/**
+	 * Get the estimated prompt and completion tokens above which a run must be confirmed when its model has no price
+	 */
+	getTokenConfirmationThreshold(): number {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+		return config.get('tokenConfirmationThreshold', 100000);
+	}
+
 	/**
 	 * Update configuration value
 	 */
-	async updateConfig(key: string, value: any): Promise<void> {
+	async updateConfig(key: string, value: any, target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global): Promise<void> {
 		const config = vscode.workspace.getConfiguration('shipnote-ai');
-		await config.update(key, value, vscode.ConfigurationTarget.Global);
+		await config.update(key, value, target);
 	}
 
 	/**
@@ -149,19 +326,8 @@ export class ConfigService {
 	 * Get writing style examples for user guidance
 	 */
 	getStyleExamples(): Record<string, { description: string; example: string }> {
-		return {
-			'formal': {
-				description: 'Professional language for enterprise documentation',
-				example: 'Implemented OAuth 2.0 authentication system to enhance security and user access management.'
-			},
-			'dev-friendly': {
-				description: 'Clear technical language for developers',
-				example: 'Fix memory leak in user session cleanup that was causing performance degradation.'
-			},
-			'pm-style': {
-				description: 'User-focused language explaining benefits',
-				example: 'Improved app performance by fixing an issue that could slow down the application.'
-			}
-		};
+		return Object.fromEntries(
+			this.getStyleRegistry().getAll().map(style => [style.name, { description: style.description, example: style.example }])
+		);
 	}
 }
@@ -0,0 +1,141 @@
+/**
+ * A changelog writing style: how entries should read and the instruction sent to the AI
+ */
+export interface WritingStyle {
+	/**
+	 * Identifier used in `shipnote-ai.changelogStyle`, e.g. "security-advisory"
+	 */
+	name: string;
+	/**
+	 * Human-readable name for pickers; defaults to the name
+	 */
+	label?: string;
+	description: string;
+	/**
+	 * Sample changelog entry written in this style
+	 */
+	example: string;
+	/**
+	 * Appended to the base system prompt
+	 */
+	promptFragment: string;
+	builtIn?: boolean;
+}
+
+export const DEFAULT_STYLE = 'dev-friendly';
+
+export const BUILT_IN_STYLES: readonly WritingStyle[] = [
+	{
+		name: 'formal',
+		label: 'Formal',
+		description: 'Professional language for enterprise documentation',
+		example: 'Implemented OAuth 2.0 authentication system to enhance security and user access management.',
+		promptFragment: 'Use formal, professional language suitable for enterprise documentation.',
+		builtIn: true
+	},
+	{
+		name: 'dev-friendly',
+		label: 'Developer Friendly',
+		description: 'Clear technical language for developers',
+		example: 'Fix memory leak in user session cleanup that was causing performance degradation.',
+		promptFragment: 'Use clear, concise language that developers will appreciate. Be specific about technical changes.',
+		builtIn: true
+	},
+	{
+		name: 'pm-style',
+		label: 'PM Style',
+		description: 'User-focused language explaining benefits',
+		example: 'Improved app performance by fixing an issue that could slow down the application.',
+		promptFragment: 'Use user-focused language that explains the impact and value of changes. Avoid technical jargon.',
+		builtIn: true
+	}
+];
+
+const STYLE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Built-in styles plus the custom ones a team declares in `shipnote-ai.customStyles`
+ */
+export class StyleRegistry {
+	private styles = new Map<string, WritingStyle>();
+
+	constructor(customStyles: unknown[] = []) {
+		for (const style of BUILT_IN_STYLES) {
+			this.styles.set(style.name, style);
+		}
+
+		for (const style of customStyles) {
+			try {
+				this.register(style);
+			} catch (error) {
+				console.error('Ignoring invalid custom style:', error instanceof Error ? error.message : error);
+			}
+		}
+	}
+
+	/**
+	 * Add a custom style; throws if it is malformed or clashes with a built-in style
+	 */
+	register(style: unknown): WritingStyle {
+		const validated = StyleRegistry.validate(style);
+		if (this.styles.get(validated.name)?.builtIn) {
+			throw new Error(`"${validated.name}" is a built-in style and cannot be redefined`);
+		}
+
+		this.styles.set(validated.name, validated);
+		return validated;
+	}
+
+	get(name: string): WritingStyle | undefined {
+		return this.styles.get(name);
+	}
+
+	has(name: string): boolean {
+		return this.styles.has(name);
+	}
+
+	getAll(): WritingStyle[] {
+		return [...this.styles.values()];
+	}
+
+	getNames(): string[] {
+		return [...this.styles.keys()];
+	}
+
+	/**
+	 * Display name for a style, falling back to the raw name for unknown ones
+	 */
+	getLabel(name: string): string {
+		return this.styles.get(name)?.label || name;
+	}
+
+	/**
+	 * Check a style definition coming from settings
+	 */
+	static validate(style: unknown): WritingStyle {
+		if (!style || typeof style !== 'object') {
+			throw new Error('a style must be an object');
+		}
+
+		const candidate = style as Record<string, unknown>;
+		const name = typeof candidate.name === 'string' ? candidate.name.trim() : '';
+		if (!STYLE_NAME_PATTERN.test(name)) {
+			throw new Error(`style name "${name}" must use lowercase letters, digits and dashes`);
+		}
+
+		for (const field of ['description', 'example', 'promptFragment']) {
+			if (typeof candidate[field] !== 'string' || !(candidate[field] as string).trim()) {
+				throw new Error(`style "${name}" is missing "${field}"`);
+			}
+		}
+
+		return {
+			name,
+			label: typeof candidate.label === 'string' && candidate.label.trim() ? candidate.label.trim() : undefined,
+			description: (candidate.description as string).trim(),
+			example: (candidate.example as string).trim(),
+			promptFragment: (candidate.promptFragment as string).trim(),
+			builtIn: false
+		};
+	}
+}
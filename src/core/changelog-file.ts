@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { UNRELEASED_VERSION } from './release';
+
+/**
+ * Title and introduction written to a changelog file that does not exist yet
+ */
+export const DEFAULT_CHANGELOG_PREAMBLE = '# Changelog\n\nAll notable changes to this project will be documented in this file.';
+
+/**
+ * One `## ` section of a changelog file, from its heading up to the next one
+ */
+export interface ChangelogFileSection {
+	/**
+	 * Version named by the heading, e.g. "1.2.0" for `## [1.2.0] - 2024-02-01`; undefined when the
+	 * section is not headed by a version
+	 */
+	version?: string;
+	text: string;
+}
+
+/**
+ * Version, date and tag of a release being finalized
+ */
+export interface PromoteOptions {
+	version: string;
+	/**
+	 * ISO date, e.g. "2024-02-01"
+	 */
+	date: string;
+	tag: string;
+}
+
+/**
+ * A changelog whose `[Unreleased]` section became a release
+ */
+export interface PromotedChangelog {
+	content: string;
+	/**
+	 * Body of the released section without its heading, e.g. for the tag message
+	 */
+	notes: string;
+}
+
+/**
+ * A changelog file split into the parts that are merged separately
+ */
+export interface ChangelogDocument {
+	/**
+	 * Title and introduction before the first section
+	 */
+	preamble: string;
+	sections: ChangelogFileSection[];
+	/**
+	 * Markdown link reference definitions closing the file, e.g. `[1.2.0]: https://...`
+	 */
+	linkDefinitions: string[];
+}
+
+const SECTION_HEADING_PATTERN = /^##\s/;
+const VERSION_HEADING_PATTERN = /^##\s+\[?v?(\d+\.\d+\.\d+[^\]\s]*|unreleased)\]?(?:\s|$)/i;
+const LINK_DEFINITION_PATTERN = /^\s{0,3}\[([^\]]+)\]:\s*\S+/;
+const FENCE_PATTERN = /^\s{0,3}(```|~~~)/;
+
+/**
+ * Split a Markdown changelog into its preamble, `## ` sections and trailing link reference definitions.
+ * Headings inside fenced code blocks do not start a section.
+ */
+export function parseChangelog(text: string): ChangelogDocument {
+	const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+	// Link definitions count only at the very end, so ones used inside a section stay with it
+	let end = lines.length;
+	const linkDefinitions: string[] = [];
+	while (end > 0 && (!lines[end - 1].trim() || LINK_DEFINITION_PATTERN.test(lines[end - 1]))) {
+		end--;
+		if (lines[end].trim()) {
+			linkDefinitions.unshift(lines[end].trim());
+		}
+	}
+
+	const preamble: string[] = [];
+	const sections: Array<{ version?: string; lines: string[] }> = [];
+	let inFence = false;
+	for (const line of lines.slice(0, end)) {
+		if (FENCE_PATTERN.test(line)) {
+			inFence = !inFence;
+		}
+		if (!inFence && SECTION_HEADING_PATTERN.test(line)) {
+			sections.push({ version: normalizeVersion(line.match(VERSION_HEADING_PATTERN)?.[1]), lines: [line] });
+		} else if (sections.length > 0) {
+			sections[sections.length - 1].lines.push(line);
+		} else {
+			preamble.push(line);
+		}
+	}
+
+	return {
+		preamble: preamble.join('\n').trim(),
+		sections: sections.map(section => ({ version: section.version, text: section.lines.join('\n').trim() })),
+		linkDefinitions
+	};
+}
+
+/**
+ * Write a changelog document back to text, one blank line between its parts
+ */
+export function formatChangelog(document: ChangelogDocument): string {
+	const parts = [document.preamble, ...document.sections.map(section => section.text)];
+	if (document.linkDefinitions.length > 0) {
+		parts.push(document.linkDefinitions.join('\n'));
+	}
+	return `${parts.filter(Boolean).join('\n\n')}\n`;
+}
+
+/**
+ * Merge newly generated release notes into an existing changelog.
+ * A section for a version the file already has replaces it in place, so regenerating `[Unreleased]`
+ * does not stack copies; other sections go above the newest one. Link definitions of both are kept at
+ * the bottom, the new ones winning. The file's line endings are preserved.
+ */
+export function mergeChangelog(existing: string | undefined, releaseNotes: string): string {
+	const document = parseChangelog(existing ?? '');
+	if (!document.preamble) {
+		document.preamble = DEFAULT_CHANGELOG_PREAMBLE;
+	}
+
+	const incoming = parseChangelog(releaseNotes);
+	// Notes without a `## ` heading, e.g. from a non-Markdown format, are added as they are
+	const newSections = incoming.sections.length > 0
+		? incoming.sections
+		: [{ text: [incoming.preamble, ...incoming.linkDefinitions].filter(Boolean).join('\n\n') }];
+
+	const added: ChangelogFileSection[] = [];
+	for (const section of newSections) {
+		const index = section.version === undefined
+			? -1
+			: document.sections.findIndex(existingSection => existingSection.version === section.version);
+		if (index >= 0) {
+			document.sections[index] = section;
+		} else {
+			added.push(section);
+		}
+	}
+	document.sections.unshift(...added);
+
+	if (incoming.sections.length > 0) {
+		document.linkDefinitions = mergeLinkDefinitions(document.linkDefinitions, incoming.linkDefinitions);
+	}
+
+	return withLineEndingsOf(existing, formatChangelog(document));
+}
+
+/**
+ * Rename the `[Unreleased]` section to `## [version] - date`. A Keep a Changelog compare link
+ * `[Unreleased]: .../compare/v1.1.0...HEAD` becomes the link of the release and a new one starts at its tag.
+ */
+export function promoteUnreleased(text: string, options: PromoteOptions): PromotedChangelog {
+	const document = parseChangelog(text);
+	const section = document.sections.find(candidate => candidate.version === UNRELEASED_VERSION);
+	if (!section) {
+		throw new Error(`The changelog has no [${UNRELEASED_VERSION}] section`);
+	}
+	if (document.sections.some(candidate => candidate.version === options.version)) {
+		throw new Error(`The changelog already has a section for ${options.version}`);
+	}
+
+	const notes = section.text.split('\n').slice(1).join('\n').trim();
+	section.version = options.version;
+	section.text = `## [${options.version}] - ${options.date}${notes ? `\n\n${notes}` : ''}`;
+	document.linkDefinitions = document.linkDefinitions.flatMap(definition => {
+		const match = definition.match(/^\[(unreleased)\]:\s*(\S+\/compare\/)(\S+?)\.\.\.HEAD$/i);
+		return match
+			? [`[${match[1]}]: ${match[2]}${options.tag}...HEAD`, `[${options.version}]: ${match[2]}${match[3]}...${options.tag}`]
+			: [definition];
+	});
+
+	return { content: withLineEndingsOf(text, formatChangelog(document)), notes };
+}
+
+/**
+ * Where the changelog file lives: `fileName` may be a path relative to `directory` or an absolute path
+ */
+export function resolveChangelogPath(directory: string, fileName: string): string {
+	return path.resolve(directory, fileName);
+}
+
+/**
+ * Merge release notes into a changelog file, creating it and its directory when missing
+ */
+export async function updateChangelogFile(filePath: string, releaseNotes: string): Promise<void> {
+	let existing: string | undefined;
+	try {
+		existing = await fs.promises.readFile(filePath, 'utf8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+			throw error;
+		}
+	}
+
+	await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.promises.writeFile(filePath, mergeChangelog(existing, releaseNotes), 'utf8');
+}
+
+function normalizeVersion(version: string | undefined): string | undefined {
+	return version?.toLowerCase() === UNRELEASED_VERSION.toLowerCase() ? UNRELEASED_VERSION : version;
+}
+
+function withLineEndingsOf(original: string | undefined, text: string): string {
+	return original?.includes('\r\n') ? text.replace(/\n/g, '\r\n') : text;
+}
+
+function mergeLinkDefinitions(existing: string[], incoming: string[]): string[] {
+	const labelOf = (definition: string) => definition.match(LINK_DEFINITION_PATTERN)![1].toLowerCase();
+	const incomingLabels = new Set(incoming.map(labelOf));
+	return [...incoming, ...existing.filter(definition => !incomingLabels.has(labelOf(definition)))];
+}
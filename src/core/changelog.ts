@@ -1,6 +1,18 @@
 import { GitService, CommitInfo, CommitRangeOptions } from '../integrations/git';
-import { OpenAIService, ChangelogEntry } from '../integrations/openai';
+import { AIService } from '../integrations/ai-service';
+import { CostEstimate } from '../integrations/cost-estimator';
+import { ChangelogEntry, getChangedFiles } from '../integrations/providers';
+import { AuthorIdentityResolver } from '../integrations/authors';
+import { LinkResolver } from '../integrations/issue-links';
+import { createPullRequestCommit, detectPullRequest } from '../integrations/pull-requests';
+import { PathFilter } from '../integrations/path-filter';
+import { getParsedCommit } from '../integrations/conventional-commits';
 import { ConfigService } from '../config/config';
+import { Release, ReleaseEntry, buildRelease, getReleaseEntries } from './release';
+import { consolidateEntries } from './consolidation';
+import { MarkdownRenderer, OutputFormat, createRenderer } from './renderers';
+import { VersionSuggestion, VersionTag, findLatestVersionTag, suggestNextVersion } from './versioning';
+import { WorkspacePackage, findPackagesForFiles } from './workspaces';
 
 export interface GenerateOptions {
 	commitCount?: number;
@@ -11,14 +23,49 @@ export interface GenerateOptions {
 	fromSHA?: string;
 	toSHA?: string;
 	includeTypes?: string[];
+	/**
+	 * Path globs; default to `shipnote-ai.includePaths` and `shipnote-ai.excludePaths`
+	 */
+	includePaths?: string[];
+	excludePaths?: string[];
 	skipFormatting?: boolean;
 	groupByAuthor?: boolean;
+	/**
+	 * End with a Contributors section; defaults to `shipnote-ai.showContributors`
+	 */
+	showContributors?: boolean;
+	/**
+	 * Version for the release heading; defaults to "Unreleased"
+	 */
+	version?: string;
+	/**
+	 * Output format; defaults to `shipnote-ai.outputFormat`
+	 */
+	format?: OutputFormat;
+	/**
+	 * One entry per merged pull request, found on the first-parent history of a tag or SHA range
+	 */
+	pullRequests?: boolean;
+}
+
+export interface NextVersionResult {
+	suggestion: VersionSuggestion;
+	latest?: VersionTag;
+	/**
+	 * Commit range the suggestion was based on; pass it on to generate the matching changelog
+	 */
+	options: GenerateOptions;
+}
+
+export interface PackageRelease {
+	package: WorkspacePackage;
+	release: Release;
 }
 
 export class ChangelogGenerator {
 	constructor(
 		private gitService: GitService,
-		private openaiService: OpenAIService,
+		private aiService: AIService,
 		private configService: ConfigService
 	) {}
 
@@ -26,41 +73,163 @@ export class ChangelogGenerator {
 	 * Generate a complete changelog
 	 */
 	async generateChangelog(workspacePath: string, options: GenerateOptions = {}): Promise<string> {
-		// Check if it's a Git repository
+		const release = await this.generateRelease(workspacePath, options);
+		return release ? this.formatChangelog(release, options) : 'No commits found.';
+	}
+
+	/**
+	 * Generate the structured release for a commit range; null when there are no commits
+	 */
+	async generateRelease(workspacePath: string, options: GenerateOptions = {}): Promise<Release | null> {
 		const isGitRepo = await this.gitService.isGitRepository(workspacePath);
 		if (!isGitRepo) {
 			throw new Error('Not a Git repository');
 		}
 
-		// Get commits based on options
 		const commits = await this.getFilteredCommits(workspacePath, options);
+		if (commits.length === 0) {
+			return null;
+		}
 
-		return this.generateChangelogFromCommits(commits, options);
+		// First-time contributors are only looked up when they are shown
+		const knownAuthors = (options.showContributors ?? this.configService.getShowContributors())
+			? await this.getKnownAuthors(workspacePath, commits)
+			: undefined;
+
+		const entries = await this.aiService.processCommits(commits, this.configService.getChangelogStyle());
+		const links = await this.getLinkResolver(workspacePath);
+		return this.buildReleaseFromEntries(entries, options, knownAuthors, links);
+	}
+
+	/**
+	 * Estimate what generating the changelog for a commit range would cost, without calling the AI
+	 */
+	async estimateCost(workspacePath: string, options: GenerateOptions = {}): Promise<CostEstimate | undefined> {
+		const isGitRepo = await this.gitService.isGitRepository(workspacePath);
+		if (!isGitRepo) {
+			throw new Error('Not a Git repository');
+		}
+
+		const commits = await this.getFilteredCommits(workspacePath, options);
+		return this.aiService.estimateCost(commits, this.configService.getChangelogStyle());
 	}
 
 	/**
 	 * Generate changelog from existing commits
 	 */
-	async generateChangelogFromCommits(commits: CommitInfo[], options: GenerateOptions = {}): Promise<string> {
+	async generateChangelogFromCommits(workspacePath: string, commits: CommitInfo[], options: GenerateOptions = {}): Promise<string> {
 		if (commits.length === 0) {
 			return 'No commits found.';
 		}
 
-		// Process commits through AI service
-		const entries = await this.openaiService.processCommits(commits);
+		const release = await this.generateReleaseFromCommits(workspacePath, commits, options);
+		return this.formatChangelog(release, options);
+	}
+
+	/**
+	 * Build the structured release from existing commits
+	 */
+	async generateReleaseFromCommits(workspacePath: string, listedCommits: CommitInfo[], options: GenerateOptions = {}): Promise<Release> {
+		// Resolve authors and drop excluded ones, as for commits listed by range
+		const commits = await this.filterCommits(listedCommits, options);
+
+		// Process commits through the active AI provider
+		const style = this.configService.getChangelogStyle();
+		const entries = await this.aiService.processCommits(commits, style);
+
+		const links = await this.getLinkResolver(workspacePath);
+		return this.buildReleaseFromEntries(entries, options, undefined, links);
+	}
+
+	/**
+	 * Build one release per monorepo package from the paths each commit touched.
+	 * Commits touching several packages appear in each of them; packages without changes are left out.
+	 */
+	async generatePackageReleases(
+		workspacePath: string,
+		packages: WorkspacePackage[],
+		options: GenerateOptions = {}
+	): Promise<PackageRelease[]> {
+		const isGitRepo = await this.gitService.isGitRepository(workspacePath);
+		if (!isGitRepo) {
+			throw new Error('Not a Git repository');
+		}
+
+		const commits = await this.getFilteredCommits(workspacePath, options);
+		if (commits.length === 0) {
+			return [];
+		}
+
+		// Every commit goes through the AI once, however many packages it touches
+		const entries = await this.aiService.processCommits(commits, this.configService.getChangelogStyle());
+		const entriesByPackage = new Map<WorkspacePackage, ChangelogEntry[]>();
+		for (const entry of entries) {
+			const files = entry.commit.files ?? getChangedFiles(entry.commit.diff);
+			for (const pkg of findPackagesForFiles(files, packages)) {
+				entriesByPackage.set(pkg, [...(entriesByPackage.get(pkg) || []), entry]);
+			}
+		}
 
-		// Filter entries if needed
-		const includeTypes = options.includeTypes || this.configService.getIncludeCommitTypes();
-		const filteredEntries = this.filterEntriesByType(entries, includeTypes);
+		const links = await this.getLinkResolver(workspacePath);
+		const packageReleases: PackageRelease[] = [];
+		for (const pkg of packages) {
+			const packageEntries = entriesByPackage.get(pkg);
+			if (!packageEntries) {
+				continue;
+			}
+			const release = await this.buildReleaseFromEntries(packageEntries, options, undefined, links);
+			if (getReleaseEntries(release).length > 0) {
+				packageReleases.push({ package: pkg, release });
+			}
+		}
+		return packageReleases;
+	}
+
+	/**
+	 * Render a release in the requested or configured output format
+	 */
+	renderRelease(release: Release, options: GenerateOptions = {}): string {
+		return this.formatChangelog(release, options);
+	}
+
+	/**
+	 * Suggest the next semantic version from the commits since the latest version tag
+	 */
+	async suggestNextVersion(workspacePath: string, preReleaseId?: string): Promise<NextVersionResult> {
+		const isGitRepo = await this.gitService.isGitRepository(workspacePath);
+		if (!isGitRepo) {
+			throw new Error('Not a Git repository');
+		}
 
-		// Format the changelog
-		return this.formatChangelog(filteredEntries, options);
+		const latest = findLatestVersionTag(await this.gitService.getTags(workspacePath));
+		const options: GenerateOptions = latest
+			? { fromTag: latest.tag, toTag: 'HEAD' }
+			: { commitCount: this.configService.getDefaultCommitCount() };
+
+		// Every commit counts towards the bump, including types left out of the changelog
+		const commits = await this.getFilteredCommits(workspacePath, options);
+		const entries = this.consolidate(await this.aiService.processCommits(commits, this.configService.getChangelogStyle()));
+
+		return {
+			suggestion: suggestNextVersion(entries, latest, preReleaseId),
+			latest,
+			options
+		};
 	}
 
 	/**
 	 * Get commits filtered by options
 	 */
 	private async getFilteredCommits(workspacePath: string, options: GenerateOptions): Promise<CommitInfo[]> {
+		const pathFilter: PathFilter = {
+			includePaths: options.includePaths ?? this.configService.getIncludePaths(),
+			excludePaths: options.excludePaths ?? this.configService.getExcludePaths()
+		};
+
+		if (options.pullRequests) {
+			return this.filterCommits(await this.getPullRequestCommits(workspacePath, options, pathFilter), options);
+		}
+
 		const commitRangeOptions: CommitRangeOptions = {
 			commitCount: options.commitCount,
 			fromDate: options.fromDate,
@@ -69,12 +238,21 @@ export class ChangelogGenerator {
 			toTag: options.toTag,
 			fromSHA: options.fromSHA,
 			toSHA: options.toSHA,
+			...pathFilter
 		};
 
-		const commits = await this.gitService.getCommits(workspacePath, commitRangeOptions);
+		return this.filterCommits(await this.gitService.getCommits(workspacePath, commitRangeOptions), options);
+	}
+
+	/**
+	 * Resolve authors, drop excluded ones and, if requested, formatting-only commits
+	 */
+	private async filterCommits(listedCommits: CommitInfo[], options: GenerateOptions): Promise<CommitInfo[]> {
+		const commits = this.getAuthorIdentityResolver().applyToCommits(listedCommits);
 
-		// Filter out formatting-only commits if requested
+		// Filter out formatting-only commits if requested; only commits mentioning formatting need their diff
 		if (options.skipFormatting) {
+			await this.gitService.loadDiffs(commits.filter(commit => this.gitService.hasFormattingKeyword(commit)));
 			return commits.filter(commit => !this.gitService.isFormattingOnlyCommit(commit));
 		}
 
@@ -82,155 +260,137 @@ export class ChangelogGenerator {
 	}
 
 	/**
-	 * Filter entries by commit type
+	 * What landed between the two refs of the range: one commit per merged pull request, carrying the commits it
+	 * merged, plus the commits pushed directly. Merges that are not pull requests contribute their commits one by one.
 	 */
-	private filterEntriesByType(entries: ChangelogEntry[], includeTypes: string[]): ChangelogEntry[] {
-		if (includeTypes.length === 0) {
-			return entries;
+	private async getPullRequestCommits(workspacePath: string, options: GenerateOptions, pathFilter: PathFilter): Promise<CommitInfo[]> {
+		const from = options.fromTag || options.fromSHA;
+		const to = options.toTag || options.toSHA || 'HEAD';
+		if (!from) {
+			throw new Error('Pull request changelogs need a tag or SHA to start from');
 		}
-		return entries.filter(entry => includeTypes.includes(entry.type));
-	}
 
-	/**
-	 * Format changelog entries into markdown
-	 */
-	private async formatChangelog(entries: ChangelogEntry[], options: GenerateOptions): Promise<string> {
-		if (entries.length === 0) {
-			return 'No significant changes found.';
+		const commits: CommitInfo[] = [];
+		for (const commit of await this.gitService.getFirstParentCommits(workspacePath, from, to, pathFilter)) {
+			const isMerge = (commit.parents?.length || 0) > 1;
+			const pullRequest = detectPullRequest(commit);
+			const mergedCommits = isMerge ? await this.gitService.getMergedCommits(workspacePath, commit, pathFilter) : [];
+
+			if (pullRequest) {
+				commits.push(createPullRequestCommit(commit, pullRequest, mergedCommits));
+			} else if (isMerge) {
+				commits.push(...mergedCommits);
+			} else {
+				commits.push(commit);
+			}
 		}
 
-		const today = new Date().toISOString().split('T')[0];
-		let changelog = `## [Unreleased] - ${today}\n\n`;
+		return commits;
+	}
 
-		// Generate summary
-		const summary = await this.openaiService.generateSummary(entries);
-		changelog += `${summary}\n\n`;
+	private getAuthorIdentityResolver(): AuthorIdentityResolver {
+		return new AuthorIdentityResolver({
+			aliases: this.configService.getAuthorAliases(),
+			excludeAuthors: this.configService.getExcludeAuthors()
+		});
+	}
 
-		if (options.groupByAuthor) {
-			changelog += this.formatByAuthor(entries);
-		} else {
-			changelog += this.formatByType(entries);
+	/**
+	 * Links to commits and issues from the configured tracker and the `origin` remote
+	 */
+	private async getLinkResolver(workspacePath: string): Promise<LinkResolver | undefined> {
+		const tracker = this.configService.getIssueTracker();
+		if (tracker === 'none') {
+			return undefined;
 		}
 
-		return changelog;
+		return new LinkResolver({
+			tracker,
+			remoteUrl: await this.gitService.getRemoteUrl(workspacePath),
+			issueUrlTemplate: this.configService.getIssueUrlTemplate(),
+			commitUrlTemplate: this.configService.getCommitUrlTemplate()
+		});
 	}
 
 	/**
-	 * Format entries grouped by type (public for testing)
+	 * Canonical names of everyone who committed before the oldest of the given commits
 	 */
-	public formatByType(entries: ChangelogEntry[]): string {
-		const typeOrder = ['feat', 'fix', 'refactor', 'docs', 'style', 'test', 'chore'];
-		const typeLabels = {
-			feat: '### ✨ Features',
-			fix: '### 🐛 Bug Fixes',
-			refactor: '### ♻️ Refactoring',
-			docs: '### 📚 Documentation',
-			style: '### 💄 Styling',
-			test: '### 🧪 Testing',
-			chore: '### 🔧 Maintenance'
-		};
+	private async getKnownAuthors(workspacePath: string, commits: CommitInfo[]): Promise<string[]> {
+		const resolver = this.getAuthorIdentityResolver();
+		const oldest = commits[commits.length - 1];
+		const previousAuthors = await this.gitService.getAuthorsBefore(workspacePath, oldest.hash);
+		return previousAuthors.map(author => resolver.resolve(author.name, author.email));
+	}
 
-		const entriesByType = entries.reduce((acc, entry) => {
-			if (!acc[entry.type]) {
-				acc[entry.type] = [];
-			}
-			acc[entry.type].push(entry);
-			return acc;
-		}, {} as Record<string, ChangelogEntry[]>);
+	/**
+	 * Filter processed entries and summarize them into a release
+	 */
+	private async buildReleaseFromEntries(
+		entries: ChangelogEntry[],
+		options: GenerateOptions,
+		knownAuthors?: string[],
+		links?: LinkResolver
+	): Promise<Release> {
+		const style = this.configService.getChangelogStyle();
+
+		// Reverts are cancelled before filtering, while both halves are still there
+		const includeTypes = options.includeTypes || this.configService.getIncludeCommitTypes();
+		const filteredEntries = this.filterEntriesByType(this.consolidate(entries), includeTypes);
 
-		let result = '';
+		// Only ask for a summary when there is something to summarize
+		const summary = filteredEntries.length > 0 ? await this.aiService.generateSummary(filteredEntries) : '';
 
-		for (const type of typeOrder) {
-			const typeEntries = entriesByType[type];
-			if (!typeEntries || typeEntries.length === 0) {
-				continue;
-			}
+		return buildRelease(filteredEntries, { version: options.version, summary, style, knownAuthors, links });
+	}
 
-			result += `${typeLabels[type as keyof typeof typeLabels]}\n\n`;
-			
-			for (const entry of typeEntries) {
-				const shortHash = entry.commit.hash.substring(0, 7);
-				result += `- ${entry.description} (${shortHash})\n`;
-			}
-			
-			result += '\n';
-		}
+	/**
+	 * Merge related entries and cancel reverts, unless turned off with `shipnote-ai.consolidateEntries`
+	 */
+	private consolidate(entries: ChangelogEntry[]): ChangelogEntry[] {
+		return this.configService.getConsolidateEntries() ? consolidateEntries(entries) : entries;
+	}
 
-		return result;
+	/**
+	 * Filter entries by commit type; breaking changes are kept whatever their type, e.g. `chore!: drop Node 16`
+	 */
+	private filterEntriesByType(entries: ChangelogEntry[], includeTypes: string[]): ChangelogEntry[] {
+		if (includeTypes.length === 0) {
+			return entries;
+		}
+		return entries.filter(entry =>
+			includeTypes.includes(entry.type) ||
+			entry.breaking ||
+			[entry.commit, ...(entry.relatedCommits || [])].some(commit => getParsedCommit(commit).breaking)
+		);
 	}
 
 	/**
-	 * Format entries grouped by author (public for testing)
+	 * Format a release with the selected renderer
 	 */
-	public formatByAuthor(entries: ChangelogEntry[]): string {
-		const entriesByAuthor = entries.reduce((acc, entry) => {
-			const author = entry.commit.author;
-			if (!acc[author]) {
-				acc[author] = [];
-			}
-			acc[author].push(entry);
-			return acc;
-		}, {} as Record<string, ChangelogEntry[]>);
-
-		let result = '';
-
-		for (const [author, authorEntries] of Object.entries(entriesByAuthor)) {
-			result += `### 👤 ${author}\n\n`;
-			
-			// Group by type within author
-			const typeOrder = ['feat', 'fix', 'refactor', 'docs', 'style', 'test', 'chore'];
-			const entriesByType = authorEntries.reduce((acc, entry) => {
-				if (!acc[entry.type]) {
-					acc[entry.type] = [];
-				}
-				acc[entry.type].push(entry);
-				return acc;
-			}, {} as Record<string, ChangelogEntry[]>);
-
-			for (const type of typeOrder) {
-				const typeEntries = entriesByType[type];
-				if (!typeEntries || typeEntries.length === 0) {
-					continue;
-				}
-
-				const typeEmoji = {
-					feat: '✨',
-					fix: '🐛',
-					refactor: '♻️',
-					docs: '📚',
-					style: '💄',
-					test: '🧪',
-					chore: '🔧'
-				}[type] || '•';
-
-				for (const entry of typeEntries) {
-					const shortHash = entry.commit.hash.substring(0, 7);
-					result += `- ${typeEmoji} ${entry.description} (${shortHash})\n`;
-				}
-			}
-			
-			result += '\n';
+	private formatChangelog(release: Release, options: GenerateOptions): string {
+		if (getReleaseEntries(release).length === 0) {
+			return 'No significant changes found.';
 		}
 
-		return result;
+		const renderer = createRenderer(options.format || this.configService.getOutputFormat());
+		return renderer.render(release, {
+			groupByAuthor: options.groupByAuthor,
+			showContributors: options.showContributors ?? this.configService.getShowContributors()
+		});
 	}
 
 	/**
-	 * Merge options with configuration defaults
+	 * Format entries grouped by type (public for testing)
 	 */
-	private mergeWithDefaults(options: GenerateOptions): GenerateOptions {
-		return {
-			commitCount: options.commitCount || this.configService.getDefaultCommitCount(),
-			fromDate: options.fromDate,
-			toDate: options.toDate,
-			fromTag: options.fromTag,
-			toTag: options.toTag,
-			fromSHA: options.fromSHA,
-			toSHA: options.toSHA,
-			includeTypes: options.includeTypes || this.configService.getIncludeCommitTypes(),
-			skipFormatting: options.skipFormatting ?? this.configService.getSkipFormattingCommits(),
-			groupByAuthor: options.groupByAuthor ?? this.configService.getGroupByAuthor(),
-		};
+	public formatByType(entries: Array<ChangelogEntry | ReleaseEntry>): string {
+		return new MarkdownRenderer().formatByType(entries);
+	}
+
+	/**
+	 * Format entries grouped by author (public for testing)
+	 */
+	public formatByAuthor(entries: Array<ChangelogEntry | ReleaseEntry>): string {
+		return new MarkdownRenderer().formatByAuthor(entries);
 	}
 
 	/**
@@ -0,0 +1,250 @@
+import { ChangelogEntry, CommitInfo } from '../integrations/providers';
+import { getParsedCommit } from '../integrations/conventional-commits';
+import { extractIssueReferences } from '../integrations/issue-links';
+
+/**
+ * Score at which a follow-up commit is merged into the change it polishes
+ */
+export const CONSOLIDATION_THRESHOLD = 2;
+
+// Types in order of precedence when choosing which entry describes a cluster
+const TYPE_PRECEDENCE: ChangelogEntry['type'][] = ['feat', 'fix', 'refactor', 'docs', 'style', 'test', 'chore'];
+
+// Commits that only polish an earlier one, e.g. "address review" or "fix typo"
+const FOLLOW_UP_PATTERN = /^(fixup!|squash!|amend!)|\b(wip|address(ed|es)? (review|feedback|comments?)|review (comments?|feedback)|typos?|nits?|lint|formatting|cleanup|clean up|oops)\b/i;
+const AUTOSQUASH_PATTERN = /^(?:fixup|squash|amend)! (.+)$/;
+
+// Words that say little about which change an entry belongs to
+const STOP_WORDS = new Set([
+	'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'from', 'into', 'by', 'at', 'as', 'is', 'be',
+	'it', 'its', 'this', 'that', 'when', 'now', 'new', 'add', 'fix', 'update', 'remove', 'change', 'improve', 'support',
+	'handle', 'use', 'make', 'allow', 'implement', 'refactor', 'move', 'rename', 'clean', 'up', 'more', 'some'
+]);
+
+/**
+ * Drop commits that were reverted within the same range together with their reverts, then merge entries that
+ * belong to the same change into one. Entries keep their order; a merged entry takes the place of the entry
+ * describing it and lists the other commits in `relatedCommits`.
+ */
+export function consolidateEntries(entries: ChangelogEntry[]): ChangelogEntry[] {
+	const remaining = cancelReverts(entries);
+	if (remaining.length < 2) {
+		return remaining;
+	}
+
+	const features = remaining.map(getFeatures);
+	const clusters = new UnionFind(remaining.length);
+
+	// Changes only join when they share an issue or describe the same thing, so a shared scope or
+	// overlapping files never chain unrelated changes together
+	for (let i = 0; i < remaining.length; i++) {
+		for (let j = i + 1; j < remaining.length; j++) {
+			if (!features[i].followUp && !features[j].followUp && isSameChange(features[i], features[j])) {
+				clusters.union(i, j);
+			}
+		}
+	}
+
+	// Each follow-up joins the one change it matches best
+	features.forEach((feature, index) => {
+		const target = feature.followUp ? findFollowUpTarget(index, features) : undefined;
+		if (target !== undefined) {
+			clusters.union(index, target);
+		}
+	});
+
+	const members = new Map<number, number[]>();
+	remaining.forEach((_, index) => {
+		const root = clusters.find(index);
+		members.set(root, [...(members.get(root) || []), index]);
+	});
+
+	const primaries = new Map<number, ChangelogEntry>();
+	for (const indexes of members.values()) {
+		const primary = choosePrimary(indexes, remaining, features);
+		primaries.set(primary, mergeCluster(remaining[primary], indexes.filter(index => index !== primary).map(index => remaining[index])));
+	}
+
+	return remaining.flatMap((_, index) => primaries.has(index) ? [primaries.get(index)!] : []);
+}
+
+/**
+ * Remove every revert whose reverted commit is in the list, together with that commit.
+ * Reverts are matched newest first, so reverting a revert brings the original change back.
+ */
+export function cancelReverts(entries: ChangelogEntry[]): ChangelogEntry[] {
+	const cancelled = new Set<ChangelogEntry>();
+
+	for (const entry of entries) {
+		const revert = getParsedCommit(entry.commit).revert;
+		if (!revert || cancelled.has(entry)) {
+			continue;
+		}
+
+		const reverted = entries.find(candidate =>
+			candidate !== entry &&
+			!cancelled.has(candidate) &&
+			(revert.hash
+				? candidate.commit.hash.startsWith(revert.hash) || revert.hash.startsWith(candidate.commit.hash)
+				: candidate.commit.message === revert.header)
+		);
+		if (reverted) {
+			cancelled.add(entry);
+			cancelled.add(reverted);
+		}
+	}
+
+	return entries.filter(entry => !cancelled.has(entry));
+}
+
+interface EntryFeatures {
+	subject: string;
+	scope?: string;
+	files: Set<string>;
+	references: Set<string>;
+	words: Set<string>;
+	followUp: boolean;
+	/**
+	 * Subject a `fixup!`/`squash!` commit refers to
+	 */
+	autosquashTarget?: string;
+}
+
+/**
+ * Whether two changes are one: they refer to the same issue or have similar descriptions
+ */
+function isSameChange(a: EntryFeatures, b: EntryFeatures): boolean {
+	return [...a.references].some(reference => b.references.has(reference)) || jaccard(a.words, b.words) >= 0.5;
+}
+
+/**
+ * The change a follow-up polishes: the best scoring entry that is not a follow-up itself, preferring the
+ * nearest older one on ties; undefined when none reaches the threshold
+ */
+function findFollowUpTarget(index: number, features: EntryFeatures[]): number | undefined {
+	// Entries are newest first, so older entries come after the follow-up
+	const indexes = features.map((_, candidate) => candidate);
+	const candidates = [...indexes.slice(index + 1), ...indexes.slice(0, index).reverse()]
+		.filter(candidate => !features[candidate].followUp);
+
+	let best: number | undefined;
+	let bestScore = CONSOLIDATION_THRESHOLD - 1;
+	for (const candidate of candidates) {
+		const score = scoreFollowUp(features[index], features[candidate]);
+		if (score > bestScore) {
+			best = candidate;
+			bestScore = score;
+		}
+	}
+	return best;
+}
+
+/**
+ * How well a follow-up fits a change: a shared issue or its autosquash target decides on its own, similar
+ * descriptions count two, and being a follow-up, a shared scope and overlapping files one each
+ */
+function scoreFollowUp(followUp: EntryFeatures, change: EntryFeatures): number {
+	let score = 1;
+	if ([...followUp.references].some(reference => change.references.has(reference)) || followUp.autosquashTarget === change.subject) {
+		score += CONSOLIDATION_THRESHOLD;
+	}
+	if (jaccard(followUp.words, change.words) >= 0.5) {
+		score += 2;
+	}
+	if (followUp.scope && followUp.scope === change.scope) {
+		score += 1;
+	}
+	if (jaccard(followUp.files, change.files) >= 0.5) {
+		score += 1;
+	}
+	return score;
+}
+
+function getFeatures(entry: ChangelogEntry): EntryFeatures {
+	const parsed = getParsedCommit(entry.commit);
+	return {
+		subject: entry.commit.message,
+		scope: parsed.scope,
+		files: new Set(entry.commit.files || []),
+		references: new Set(extractIssueReferences(parsed)),
+		words: new Set([...tokenize(entry.description), ...tokenize(parsed.subject)]),
+		followUp: FOLLOW_UP_PATTERN.test(entry.commit.message),
+		autosquashTarget: entry.commit.message.match(AUTOSQUASH_PATTERN)?.[1]
+	};
+}
+
+/**
+ * The entry that describes a cluster: not a follow-up, of the most significant type, breaking first, else the oldest
+ */
+function choosePrimary(indexes: number[], entries: ChangelogEntry[], features: EntryFeatures[]): number {
+	const rank = (index: number) => [
+		features[index].followUp ? 1 : 0,
+		TYPE_PRECEDENCE.indexOf(entries[index].type),
+		entries[index].breaking ? 0 : 1,
+		-index
+	];
+
+	return [...indexes].sort((a, b) => {
+		const rankA = rank(a);
+		const rankB = rank(b);
+		const difference = rankA.findIndex((value, i) => value !== rankB[i]);
+		return difference === -1 ? 0 : rankA[difference] - rankB[difference];
+	})[0];
+}
+
+function mergeCluster(primary: ChangelogEntry, others: ChangelogEntry[]): ChangelogEntry {
+	if (others.length === 0) {
+		return primary;
+	}
+
+	const relatedCommits: CommitInfo[] = [
+		...(primary.relatedCommits || []),
+		...others.flatMap(other => [other.commit, ...(other.relatedCommits || [])])
+	];
+	const merged: ChangelogEntry = { ...primary, relatedCommits };
+
+	const breaking = [primary, ...others].find(entry => entry.breaking);
+	if (breaking) {
+		merged.breaking = true;
+		merged.migrationNote = primary.migrationNote || others.find(entry => entry.migrationNote)?.migrationNote;
+	}
+
+	return merged;
+}
+
+function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		// Light stemming so "exports" and "exporting" match "export"
+		.map(word => word.length > 4 ? word.replace(/(ing|ed|s)$/, '') : word)
+		.filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+function jaccard<T>(a: Set<T>, b: Set<T>): number {
+	if (a.size === 0 || b.size === 0) {
+		return 0;
+	}
+	const shared = [...a].filter(item => b.has(item)).length;
+	return shared / (a.size + b.size - shared);
+}
+
+class UnionFind {
+	private parents: number[];
+
+	constructor(size: number) {
+		this.parents = Array.from({ length: size }, (_, index) => index);
+	}
+
+	find(index: number): number {
+		while (this.parents[index] !== index) {
+			this.parents[index] = this.parents[this.parents[index]];
+			index = this.parents[index];
+		}
+		return index;
+	}
+
+	union(a: number, b: number): void {
+		this.parents[this.find(a)] = this.find(b);
+	}
+}
@@ -0,0 +1,293 @@
+import { ChangelogEntry } from '../integrations/providers';
+import { getParsedCommit } from '../integrations/conventional-commits';
+import { LinkResolver, extractIssueReferences } from '../integrations/issue-links';
+
+/**
+ * Version of the JSON document layout; bump when fields change incompatibly
+ */
+export const RELEASE_SCHEMA_VERSION = '1.0';
+
+/**
+ * Published JSON Schema for exported releases (see schemas/release.schema.json)
+ */
+export const RELEASE_SCHEMA_URL = 'https://raw.githubusercontent.com/Aakash1103Jha/shipnote-ai/main/schemas/release.schema.json';
+
+export const UNRELEASED_VERSION = 'Unreleased';
+
+/**
+ * Order and titles of the sections in a release
+ */
+export const RELEASE_SECTION_ORDER: Array<{ type: ChangelogEntry['type']; title: string }> = [
+	{ type: 'feat', title: 'Features' },
+	{ type: 'fix', title: 'Bug Fixes' },
+	{ type: 'refactor', title: 'Refactoring' },
+	{ type: 'docs', title: 'Documentation' },
+	{ type: 'style', title: 'Styling' },
+	{ type: 'test', title: 'Testing' },
+	{ type: 'chore', title: 'Maintenance' }
+];
+
+export interface ReleaseCommit {
+	hash: string;
+	shortHash: string;
+	message: string;
+	author: string;
+	date: string;
+	/**
+	 * Conventional Commits scope, e.g. "api" for `feat(api): ...`
+	 */
+	scope?: string;
+	/**
+	 * Names from `Co-authored-by` footers
+	 */
+	coAuthors?: string[];
+	/**
+	 * Issues referenced by `Refs`/`Closes`/`Fixes` footers or mentioned as `#123` or `PROJ-123`
+	 */
+	references?: string[];
+	/**
+	 * Set when the entry stands for a merged pull request rather than a single commit
+	 */
+	pullRequest?: ReleasePullRequest;
+	/**
+	 * Web page of the commit on the code host
+	 */
+	url?: string;
+	/**
+	 * Web pages of the references that could be linked, keyed by reference
+	 */
+	referenceUrls?: Record<string, string>;
+}
+
+export interface ReleasePullRequest {
+	number: number;
+	/**
+	 * How the code host refers to it, e.g. "#12" or "!12"
+	 */
+	reference: string;
+	title: string;
+	/**
+	 * Hashes of the commits that made up the pull request, newest first
+	 */
+	commits: string[];
+}
+
+export interface ReleaseEntry {
+	type: ChangelogEntry['type'];
+	description: string;
+	commit: ReleaseCommit;
+	/**
+	 * Further commits consolidated into this entry, e.g. review fixes of the same feature
+	 */
+	relatedCommits?: ReleaseCommit[];
+	breaking?: boolean;
+	migrationNote?: string;
+}
+
+export interface ReleaseSection {
+	type: ChangelogEntry['type'];
+	title: string;
+	entries: ReleaseEntry[];
+}
+
+export interface ReleaseAuthor {
+	name: string;
+	commitCount: number;
+	/**
+	 * Set when the author had no commits before this release
+	 */
+	firstContribution?: boolean;
+}
+
+export interface BreakingChange {
+	description: string;
+	migrationNote?: string;
+	commit: ReleaseCommit;
+}
+
+/**
+ * Format-independent description of one release; every output format is rendered from it
+ */
+export interface Release {
+	version: string;
+	/**
+	 * Release date as YYYY-MM-DD
+	 */
+	date: string;
+	summary: string;
+	style: string;
+	sections: ReleaseSection[];
+	authors: ReleaseAuthor[];
+	breakingChanges: BreakingChange[];
+}
+
+/**
+ * Entries of one author, split into the usual sections
+ */
+export interface AuthorGroup {
+	author: string;
+	sections: ReleaseSection[];
+}
+
+export interface BuildReleaseOptions {
+	version?: string;
+	date?: string;
+	summary: string;
+	style: string;
+	/**
+	 * Authors with commits before this release; when given, everyone else is marked as a first-time contributor
+	 */
+	knownAuthors?: string[];
+	/**
+	 * Resolves links to commits and issues; without it the release has no URLs
+	 */
+	links?: LinkResolver;
+}
+
+/**
+ * Assemble a release from processed changelog entries
+ */
+export function buildRelease(entries: ChangelogEntry[], options: BuildReleaseOptions): Release {
+	const releaseEntries = entries.map(entry => toReleaseEntry(entry, options.links));
+	const sections = groupIntoSections(releaseEntries);
+
+	// Co-authors are credited for the commits they worked on, including those merged into another entry
+	const commitCounts = new Map<string, number>();
+	for (const commit of releaseEntries.flatMap(entry => [entry.commit, ...(entry.relatedCommits || [])])) {
+		for (const name of new Set([commit.author, ...(commit.coAuthors || [])])) {
+			commitCounts.set(name, (commitCounts.get(name) || 0) + 1);
+		}
+	}
+
+	return {
+		version: options.version || UNRELEASED_VERSION,
+		date: options.date || new Date().toISOString().split('T')[0],
+		summary: options.summary,
+		style: options.style,
+		sections,
+		authors: [...commitCounts.entries()].map(([name, commitCount]) => (
+			options.knownAuthors && !options.knownAuthors.includes(name)
+				? { name, commitCount, firstContribution: true }
+				: { name, commitCount }
+		)),
+		breakingChanges: releaseEntries
+			.filter(entry => entry.breaking)
+			.map(entry => ({ description: entry.description, migrationNote: entry.migrationNote, commit: entry.commit }))
+	};
+}
+
+/**
+ * All entries of a release in section order
+ */
+export function getReleaseEntries(release: Release): ReleaseEntry[] {
+	return release.sections.flatMap(section => section.entries);
+}
+
+/**
+ * Entries of a release grouped by author, in order of each author's first entry
+ */
+export function groupReleaseByAuthor(release: Release): AuthorGroup[] {
+	const entriesByAuthor = new Map<string, ReleaseEntry[]>();
+	for (const entry of getReleaseEntries(release)) {
+		const authorEntries = entriesByAuthor.get(entry.commit.author) || [];
+		authorEntries.push(entry);
+		entriesByAuthor.set(entry.commit.author, authorEntries);
+	}
+
+	return [...entriesByAuthor.entries()].map(([author, authorEntries]) => ({
+		author,
+		sections: groupIntoSections(authorEntries)
+	}));
+}
+
+/**
+ * Serialize a release as a JSON document that validates against the published schema
+ */
+export function releaseToJSON(release: Release): string {
+	return JSON.stringify({
+		$schema: RELEASE_SCHEMA_URL,
+		schemaVersion: RELEASE_SCHEMA_VERSION,
+		...release
+	}, null, 2);
+}
+
+function groupIntoSections(entries: ReleaseEntry[]): ReleaseSection[] {
+	return RELEASE_SECTION_ORDER
+		.map(({ type, title }) => ({
+			type,
+			title,
+			entries: entries.filter(entry => entry.type === type)
+		}))
+		.filter(section => section.entries.length > 0);
+}
+
+function toReleaseEntry(entry: ChangelogEntry, links?: LinkResolver): ReleaseEntry {
+	const releaseEntry: ReleaseEntry = {
+		type: entry.type,
+		description: entry.description,
+		commit: toReleaseCommit(entry.commit, links)
+	};
+	if (entry.relatedCommits && entry.relatedCommits.length > 0) {
+		releaseEntry.relatedCommits = entry.relatedCommits.map(commit => toReleaseCommit(commit, links));
+	}
+
+	// Entries from older caches or other sources may lack the flag, so check the commits too
+	const breakingCommit = [entry.commit, ...(entry.relatedCommits || [])]
+		.map(commit => getParsedCommit(commit))
+		.find(parsed => parsed.breaking);
+	if (entry.breaking || breakingCommit) {
+		releaseEntry.breaking = true;
+		releaseEntry.migrationNote = entry.migrationNote || breakingCommit?.breakingNote;
+	}
+
+	return releaseEntry;
+}
+
+function toReleaseCommit(commit: ChangelogEntry['commit'], links?: LinkResolver): ReleaseCommit {
+	const parsed = getParsedCommit(commit);
+	const releaseCommit: ReleaseCommit = {
+		hash: commit.hash,
+		shortHash: commit.hash.substring(0, 7),
+		message: commit.message,
+		author: commit.author,
+		date: commit.date
+	};
+
+	if (parsed.scope) {
+		releaseCommit.scope = parsed.scope;
+	}
+	if (commit.pullRequest) {
+		const { number, reference, title, commits } = commit.pullRequest;
+		releaseCommit.pullRequest = { number, reference, title, commits };
+	}
+	if (parsed.coAuthors.length > 0) {
+		releaseCommit.coAuthors = parsed.coAuthors.map(coAuthor => coAuthor.name);
+	}
+	const references = extractIssueReferences(parsed);
+	if (references.length > 0) {
+		releaseCommit.references = references;
+	}
+	if (links) {
+		addLinks(releaseCommit, links);
+	}
+
+	return releaseCommit;
+}
+
+function addLinks(commit: ReleaseCommit, links: LinkResolver): void {
+	const url = links.getCommitUrl(commit.hash);
+	if (url) {
+		commit.url = url;
+	}
+
+	const referenceUrls: Record<string, string> = {};
+	for (const reference of commit.references || []) {
+		const referenceUrl = links.getIssueUrl(reference);
+		if (referenceUrl) {
+			referenceUrls[reference] = referenceUrl;
+		}
+	}
+	if (Object.keys(referenceUrls).length > 0) {
+		commit.referenceUrls = referenceUrls;
+	}
+}
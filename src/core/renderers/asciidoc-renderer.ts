@@ -0,0 +1,74 @@
+import { Release, ReleaseCommit, ReleaseSection, groupReleaseByAuthor } from '../release';
+import { ChangelogRenderer, OutputFormat, RenderOptions } from './types';
+import { getCommitLinks } from './links';
+
+/**
+ * Short hashes as monospace followed by the issue references, as link macros where their URLs are known
+ */
+function formatCommitLinks(commit: ReleaseCommit, relatedCommits: ReleaseCommit[] = []): string {
+	return getCommitLinks(commit, relatedCommits)
+		.map(link => {
+			const text = link.kind === 'commit' ? `\`${link.text}\`` : link.text;
+			return link.url ? `${link.url}[${text}]` : text;
+		})
+		.join(', ');
+}
+
+/**
+ * AsciiDoc with one level-1 section per release
+ */
+export class AsciiDocRenderer implements ChangelogRenderer {
+	readonly format: OutputFormat = 'asciidoc';
+	readonly name = 'AsciiDoc';
+	readonly fileExtension = '.adoc';
+	readonly languageId = 'asciidoc';
+
+	render(release: Release, options: RenderOptions = {}): string {
+		let changelog = `== ${release.version} - ${release.date}\n\n`;
+		if (release.summary) {
+			changelog += `${release.summary}\n\n`;
+		}
+
+		if (release.breakingChanges.length > 0) {
+			changelog += '[WARNING]\n.Breaking Changes\n====\n';
+			for (const change of release.breakingChanges) {
+				changelog += `* *${change.description}* (${formatCommitLinks(change.commit)})\n`;
+				if (change.migrationNote) {
+					changelog += `** Migration: ${change.migrationNote}\n`;
+				}
+			}
+			changelog += '====\n\n';
+		}
+
+		if (options.groupByAuthor) {
+			for (const group of groupReleaseByAuthor(release)) {
+				changelog += `=== ${group.author}\n\n`;
+				changelog += this.renderSections(group.sections, '====');
+			}
+		} else {
+			changelog += this.renderSections(release.sections, '===');
+		}
+
+		if (options.showContributors && release.authors.length > 0) {
+			changelog += '=== Contributors\n\n';
+			for (const author of release.authors) {
+				changelog += `* ${author.name}${author.firstContribution ? ' (first contribution)' : ''}\n`;
+			}
+			changelog += '\n';
+		}
+
+		return changelog;
+	}
+
+	private renderSections(sections: ReleaseSection[], marker: string): string {
+		let result = '';
+		for (const section of sections) {
+			result += `${marker} ${section.title}\n\n`;
+			for (const entry of section.entries) {
+				result += `* ${entry.description} (${formatCommitLinks(entry.commit, entry.relatedCommits)})\n`;
+			}
+			result += '\n';
+		}
+		return result;
+	}
+}
@@ -0,0 +1,35 @@
+import { ChangelogRenderer, OutputFormat } from './types';
+import { MarkdownRenderer } from './markdown-renderer';
+import { KeepAChangelogRenderer } from './keep-a-changelog-renderer';
+import { HtmlRenderer } from './html-renderer';
+import { AsciiDocRenderer } from './asciidoc-renderer';
+import { RstRenderer } from './rst-renderer';
+import { PlainTextRenderer } from './plain-text-renderer';
+
+export class RendererFactory {
+	createRenderer(format: OutputFormat): ChangelogRenderer {
+		switch (format) {
+			case 'markdown':
+				return new MarkdownRenderer();
+			case 'keep-a-changelog':
+				return new KeepAChangelogRenderer();
+			case 'html':
+				return new HtmlRenderer();
+			case 'asciidoc':
+				return new AsciiDocRenderer();
+			case 'rst':
+				return new RstRenderer();
+			case 'plain':
+				return new PlainTextRenderer();
+			default:
+				throw new Error(`Unknown output format: ${format}`);
+		}
+	}
+
+	getSupportedFormats(): OutputFormat[] {
+		return ['markdown', 'keep-a-changelog', 'html', 'asciidoc', 'rst', 'plain'];
+	}
+}
+
+// Singleton instance
+export const rendererFactory = new RendererFactory();
@@ -0,0 +1,104 @@
+import { Release, ReleaseCommit, ReleaseSection, groupReleaseByAuthor } from '../release';
+import { ChangelogRenderer, OutputFormat, RenderOptions } from './types';
+import { getCommitLinks } from './links';
+
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * Short hashes in `<code>` followed by the issue references, linked where their URLs are known
+ */
+function formatCommitLinks(commit: ReleaseCommit, relatedCommits: ReleaseCommit[] = []): string {
+	return getCommitLinks(commit, relatedCommits)
+		.map(link => {
+			const text = link.kind === 'commit' ? `<code>${escapeHtml(link.text)}</code>` : escapeHtml(link.text);
+			return link.url ? `<a href="${escapeHtml(link.url)}">${text}</a>` : text;
+		})
+		.join(' ');
+}
+
+/**
+ * A standalone HTML document with inline styles
+ */
+export class HtmlRenderer implements ChangelogRenderer {
+	readonly format: OutputFormat = 'html';
+	readonly name = 'HTML';
+	readonly fileExtension = '.html';
+	readonly languageId = 'html';
+
+	render(release: Release, options: RenderOptions = {}): string {
+		const title = `${escapeHtml(release.version)} - ${escapeHtml(release.date)}`;
+		const lines = [
+			'<!DOCTYPE html>',
+			'<html lang="en">',
+			'<head>',
+			'<meta charset="UTF-8">',
+			`<title>Changelog ${title}</title>`,
+			'<style>',
+			'body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }',
+			'code { font-size: 0.85em; color: #666; }',
+			'.breaking { border-left: 4px solid #d73a49; padding-left: 1rem; }',
+			'</style>',
+			'</head>',
+			'<body>',
+			'<article class="release">',
+			`<h2>${title}</h2>`
+		];
+
+		if (release.summary) {
+			lines.push(`<p class="summary">${escapeHtml(release.summary)}</p>`);
+		}
+
+		if (release.breakingChanges.length > 0) {
+			lines.push('<section class="breaking">', '<h3>⚠️ Breaking Changes</h3>', '<ul>');
+			for (const change of release.breakingChanges) {
+				const migration = change.migrationNote
+					? `<br><em>Migration:</em> ${escapeHtml(change.migrationNote)}`
+					: '';
+				lines.push(`<li><strong>${escapeHtml(change.description)}</strong> ${formatCommitLinks(change.commit)}${migration}</li>`);
+			}
+			lines.push('</ul>', '</section>');
+		}
+
+		if (options.groupByAuthor) {
+			for (const group of groupReleaseByAuthor(release)) {
+				lines.push('<section class="author">', `<h3>${escapeHtml(group.author)}</h3>`);
+				lines.push(...this.renderSections(group.sections, 'h4'));
+				lines.push('</section>');
+			}
+		} else {
+			lines.push(...this.renderSections(release.sections, 'h3'));
+		}
+
+		if (options.showContributors && release.authors.length > 0) {
+			lines.push('<section class="contributors">', '<h3>Contributors</h3>', '<ul>');
+			for (const author of release.authors) {
+				const firstContribution = author.firstContribution ? ' <strong>🎉 first contribution</strong>' : '';
+				lines.push(`<li>${escapeHtml(author.name)}${firstContribution}</li>`);
+			}
+			lines.push('</ul>', '</section>');
+		}
+
+		lines.push('</article>', '</body>', '</html>');
+		return `${lines.join('\n')}\n`;
+	}
+
+	private renderSections(sections: ReleaseSection[], headingTag: string): string[] {
+		return sections.flatMap(section => [
+			`<section class="${section.type}">`,
+			`<${headingTag}>${escapeHtml(section.title)}</${headingTag}>`,
+			'<ul>',
+			...section.entries.map(entry =>
+				`<li>${escapeHtml(entry.description)} ${formatCommitLinks(entry.commit, entry.relatedCommits)}</li>`
+			),
+			'</ul>',
+			'</section>'
+		]);
+	}
+}
@@ -0,0 +1,27 @@
+// Types
+export * from './types';
+
+// Renderers
+export { MarkdownRenderer } from './markdown-renderer';
+export {
+	KeepAChangelogRenderer,
+	KeepAChangelogCategory,
+	KEEP_A_CHANGELOG_CATEGORIES,
+	getKeepAChangelogCategory
+} from './keep-a-changelog-renderer';
+export { HtmlRenderer, escapeHtml } from './html-renderer';
+export { AsciiDocRenderer } from './asciidoc-renderer';
+export { RstRenderer, escapeRst } from './rst-renderer';
+export { PlainTextRenderer } from './plain-text-renderer';
+export { CommitLink, getCommitLinks } from './links';
+
+// Factory
+export { RendererFactory, rendererFactory } from './factory';
+
+// Convenience function to create renderers
+import { rendererFactory } from './factory';
+import { ChangelogRenderer, OutputFormat } from './types';
+
+export function createRenderer(format: OutputFormat): ChangelogRenderer {
+	return rendererFactory.createRenderer(format);
+}
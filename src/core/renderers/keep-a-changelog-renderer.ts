@@ -0,0 +1,105 @@
+import { Release, ReleaseEntry, UNRELEASED_VERSION, getReleaseEntries } from '../release';
+import { ChangelogRenderer, OutputFormat, RenderOptions } from './types';
+import { formatCommitLinks } from './markdown-renderer';
+
+export type KeepAChangelogCategory = 'Added' | 'Changed' | 'Deprecated' | 'Removed' | 'Fixed' | 'Security';
+
+/**
+ * Section order defined by https://keepachangelog.com/en/1.1.0/
+ */
+export const KEEP_A_CHANGELOG_CATEGORIES: readonly KeepAChangelogCategory[] = [
+	'Added',
+	'Changed',
+	'Deprecated',
+	'Removed',
+	'Fixed',
+	'Security'
+];
+
+/**
+ * Map an entry onto a Keep a Changelog category.
+ * Commit types only distinguish features and fixes, so deprecations, removals and
+ * security fixes are recognized from the wording of the entry.
+ */
+export function getKeepAChangelogCategory(entry: ReleaseEntry): KeepAChangelogCategory {
+	const text = `${entry.description}\n${entry.commit.message}`;
+
+	if (/\bsecurity\b|\bCVE-\d{4}-\d+|\bvulnerab/i.test(text)) {
+		return 'Security';
+	}
+	if (/\bdeprecat/i.test(text)) {
+		return 'Deprecated';
+	}
+	if (/^(remove[sd]?|drop(s|ped)?|delete[sd]?)\b/i.test(entry.description)) {
+		return 'Removed';
+	}
+
+	switch (entry.type) {
+		case 'feat':
+			return 'Added';
+		case 'fix':
+			return 'Fixed';
+		default:
+			return 'Changed';
+	}
+}
+
+/**
+ * Markdown that follows the Keep a Changelog convention
+ */
+export class KeepAChangelogRenderer implements ChangelogRenderer {
+	readonly format: OutputFormat = 'keep-a-changelog';
+	readonly name = 'Keep a Changelog';
+	readonly fileExtension = '.md';
+	readonly languageId = 'markdown';
+
+	// The convention groups by category only, so groupByAuthor is ignored
+	render(release: Release, options: RenderOptions = {}): string {
+		const heading = release.version === UNRELEASED_VERSION
+			? `## [${UNRELEASED_VERSION}]`
+			: `## [${release.version}] - ${release.date}`;
+
+		let changelog = `${heading}\n\n`;
+		if (release.summary) {
+			changelog += `${release.summary}\n\n`;
+		}
+
+		if (release.breakingChanges.length > 0) {
+			changelog += '### BREAKING CHANGES\n\n';
+			for (const change of release.breakingChanges) {
+				changelog += `- **${change.description}** (${formatCommitLinks(change.commit)})`;
+				changelog += change.migrationNote ? ` Migration: ${change.migrationNote}\n` : '\n';
+			}
+			changelog += '\n';
+		}
+
+		const entriesByCategory = new Map<KeepAChangelogCategory, ReleaseEntry[]>();
+		for (const entry of getReleaseEntries(release)) {
+			const category = getKeepAChangelogCategory(entry);
+			entriesByCategory.set(category, [...(entriesByCategory.get(category) || []), entry]);
+		}
+
+		for (const category of KEEP_A_CHANGELOG_CATEGORIES) {
+			const entries = entriesByCategory.get(category);
+			if (!entries) {
+				continue;
+			}
+
+			changelog += `### ${category}\n\n`;
+			for (const entry of entries) {
+				changelog += `- ${entry.description} (${formatCommitLinks(entry.commit, entry.relatedCommits)})\n`;
+			}
+			changelog += '\n';
+		}
+
+		if (options.showContributors && release.authors.length > 0) {
+			changelog += '### Contributors\n\n';
+			for (const author of release.authors) {
+				changelog += `- ${author.name}${author.firstContribution ? ' (first contribution)' : ''}\n`;
+			}
+			changelog += '\n';
+		}
+
+		return changelog;
+	}
+}
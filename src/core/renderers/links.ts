@@ -0,0 +1,27 @@
+import type { ReleaseCommit } from '../release';
+
+export interface CommitLink {
+	kind: 'commit' | 'reference';
+	text: string;
+	url?: string;
+}
+
+type LinkableCommit = Pick<ReleaseCommit, 'hash'> & Partial<Pick<ReleaseCommit, 'url' | 'references' | 'referenceUrls'>>;
+
+/**
+ * Short hashes of an entry's commits followed by the issues they reference, each with its web page when known
+ */
+export function getCommitLinks(commit: LinkableCommit, relatedCommits: LinkableCommit[] = []): CommitLink[] {
+	const commits = [commit, ...relatedCommits];
+	const references = new Map<string, string | undefined>();
+	for (const { references: commitReferences = [], referenceUrls } of commits) {
+		for (const reference of commitReferences) {
+			references.set(reference, references.get(reference) || referenceUrls?.[reference]);
+		}
+	}
+
+	return [
+		...commits.map(({ hash, url }) => ({ kind: 'commit' as const, text: hash.substring(0, 7), url })),
+		...[...references].map(([text, url]) => ({ kind: 'reference' as const, text, url }))
+	];
+}
@@ -0,0 +1,171 @@
+import { ChangelogEntry } from '../../integrations/providers';
+import { Release, ReleaseEntry, getReleaseEntries } from '../release';
+import { ChangelogRenderer, OutputFormat, RenderOptions } from './types';
+import { getCommitLinks } from './links';
+
+const TYPE_ORDER = ['feat', 'fix', 'refactor', 'docs', 'style', 'test', 'chore'];
+
+const TYPE_LABELS: Record<string, string> = {
+	feat: '### ✨ Features',
+	fix: '### 🐛 Bug Fixes',
+	refactor: '### ♻️ Refactoring',
+	docs: '### 📚 Documentation',
+	style: '### 💄 Styling',
+	test: '### 🧪 Testing',
+	chore: '### 🔧 Maintenance'
+};
+
+const TYPE_EMOJI: Record<string, string> = {
+	feat: '✨',
+	fix: '🐛',
+	refactor: '♻️',
+	docs: '📚',
+	style: '💄',
+	test: '🧪',
+	chore: '🔧'
+};
+
+type RenderableEntry = ChangelogEntry | ReleaseEntry;
+
+/**
+ * Short hashes and issue references as Markdown links where their URLs are known
+ */
+export function formatCommitLinks(commit: RenderableEntry['commit'], relatedCommits: Array<RenderableEntry['commit']> = []): string {
+	return getCommitLinks(commit, relatedCommits)
+		.map(link => link.url ? `[${link.text}](${link.url})` : link.text)
+		.join(', ');
+}
+
+/**
+ * The ShipNote Markdown layout with emoji section headings
+ */
+export class MarkdownRenderer implements ChangelogRenderer {
+	readonly format: OutputFormat = 'markdown';
+	readonly name = 'Markdown';
+	readonly fileExtension = '.md';
+	readonly languageId = 'markdown';
+
+	render(release: Release, options: RenderOptions = {}): string {
+		const entries = getReleaseEntries(release);
+
+		let changelog = `## [${release.version}] - ${release.date}\n\n`;
+		changelog += `${release.summary}\n\n`;
+		changelog += this.formatBreakingChanges(release);
+		changelog += options.groupByAuthor ? this.formatByAuthor(entries) : this.formatByType(entries);
+		if (options.showContributors) {
+			changelog += this.formatContributors(release);
+		}
+
+		return changelog;
+	}
+
+	/**
+	 * Format the contributors that close the release
+	 */
+	formatContributors(release: Release): string {
+		if (release.authors.length === 0) {
+			return '';
+		}
+
+		let result = '### 👥 Contributors\n\n';
+		for (const author of release.authors) {
+			result += author.firstContribution ? `- ${author.name} 🎉 (first contribution)\n` : `- ${author.name}\n`;
+		}
+
+		return `${result}\n`;
+	}
+
+	/**
+	 * Format the breaking changes that lead the release
+	 */
+	formatBreakingChanges(release: Release): string {
+		if (release.breakingChanges.length === 0) {
+			return '';
+		}
+
+		let result = '### ⚠️ BREAKING CHANGES\n\n';
+		for (const change of release.breakingChanges) {
+			result += `- **${change.description}** (${formatCommitLinks(change.commit)})\n`;
+			if (change.migrationNote) {
+				result += `  - Migration: ${change.migrationNote}\n`;
+			}
+		}
+
+		return `${result}\n`;
+	}
+
+	/**
+	 * Format entries grouped by type
+	 */
+	formatByType(entries: RenderableEntry[]): string {
+		const entriesByType = this.groupByType(entries);
+		let result = '';
+
+		for (const type of TYPE_ORDER) {
+			const typeEntries = entriesByType[type];
+			if (!typeEntries || typeEntries.length === 0) {
+				continue;
+			}
+
+			result += `${TYPE_LABELS[type]}\n\n`;
+
+			for (const entry of typeEntries) {
+				result += `- ${entry.description} (${formatCommitLinks(entry.commit, entry.relatedCommits)})\n`;
+			}
+
+			result += '\n';
+		}
+
+		return result;
+	}
+
+	/**
+	 * Format entries grouped by author
+	 */
+	formatByAuthor(entries: RenderableEntry[]): string {
+		const entriesByAuthor = entries.reduce((acc, entry) => {
+			const author = entry.commit.author;
+			if (!acc[author]) {
+				acc[author] = [];
+			}
+			acc[author].push(entry);
+			return acc;
+		}, {} as Record<string, RenderableEntry[]>);
+
+		let result = '';
+
+		for (const [author, authorEntries] of Object.entries(entriesByAuthor)) {
+			result += `### 👤 ${author}\n\n`;
+
+			// Group by type within author
+			const entriesByType = this.groupByType(authorEntries);
+
+			for (const type of TYPE_ORDER) {
+				const typeEntries = entriesByType[type];
+				if (!typeEntries || typeEntries.length === 0) {
+					continue;
+				}
+
+				const typeEmoji = TYPE_EMOJI[type] || '•';
+
+				for (const entry of typeEntries) {
+					result += `- ${typeEmoji} ${entry.description} (${formatCommitLinks(entry.commit, entry.relatedCommits)})\n`;
+				}
+			}
+
+			result += '\n';
+		}
+
+		return result;
+	}
+
+	private groupByType(entries: RenderableEntry[]): Record<string, RenderableEntry[]> {
+		return entries.reduce((acc, entry) => {
+			if (!acc[entry.type]) {
+				acc[entry.type] = [];
+			}
+			acc[entry.type].push(entry);
+			return acc;
+		}, {} as Record<string, RenderableEntry[]>);
+	}
+}
@@ -0,0 +1,81 @@
+import { Release, ReleaseCommit, ReleaseSection, groupReleaseByAuthor } from '../release';
+import { ChangelogRenderer, OutputFormat, RenderOptions } from './types';
+import { getCommitLinks } from './links';
+
+function underline(text: string, character: string): string {
+	return `${text}\n${character.repeat(text.length)}\n\n`;
+}
+
+// Plain text has no links, so URLs follow their text in angle brackets
+function formatCommitLinks(commit: ReleaseCommit, relatedCommits: ReleaseCommit[] = []): string {
+	return getCommitLinks(commit, relatedCommits)
+		.map(link => link.url ? `${link.text} <${link.url}>` : link.text)
+		.join(', ');
+}
+
+/**
+ * Plain text without markup, e.g. for emails or store release notes
+ */
+export class PlainTextRenderer implements ChangelogRenderer {
+	readonly format: OutputFormat = 'plain';
+	readonly name = 'Plain Text';
+	readonly fileExtension = '.txt';
+	readonly languageId = 'plaintext';
+
+	render(release: Release, options: RenderOptions = {}): string {
+		let changelog = underline(`${release.version} - ${release.date}`, '=');
+		if (release.summary) {
+			changelog += `${release.summary}\n\n`;
+		}
+
+		if (release.breakingChanges.length > 0) {
+			changelog += underline('BREAKING CHANGES', '!');
+			for (const change of release.breakingChanges) {
+				changelog += `* ${change.description} (${formatCommitLinks(change.commit)})\n`;
+				if (change.migrationNote) {
+					changelog += `  Migration: ${change.migrationNote}\n`;
+				}
+			}
+			changelog += '\n';
+		}
+
+		if (options.groupByAuthor) {
+			for (const group of groupReleaseByAuthor(release)) {
+				changelog += underline(group.author, '-');
+				changelog += this.renderSections(group.sections, '  ');
+			}
+		} else {
+			for (const section of release.sections) {
+				changelog += underline(section.title, '-');
+				changelog += this.renderEntries(section, '');
+				changelog += '\n';
+			}
+		}
+
+		if (options.showContributors && release.authors.length > 0) {
+			changelog += underline('Contributors', '-');
+			for (const author of release.authors) {
+				changelog += `* ${author.name}${author.firstContribution ? ' (first contribution)' : ''}\n`;
+			}
+			changelog += '\n';
+		}
+
+		return changelog;
+	}
+
+	private renderSections(sections: ReleaseSection[], indent: string): string {
+		let result = '';
+		for (const section of sections) {
+			result += `${section.title}:\n`;
+			result += this.renderEntries(section, indent);
+			result += '\n';
+		}
+		return result;
+	}
+
+	private renderEntries(section: ReleaseSection, indent: string): string {
+		return section.entries
+			.map(entry => `${indent}* ${entry.description} (${formatCommitLinks(entry.commit, entry.relatedCommits)})\n`)
+			.join('');
+	}
+}
@@ -0,0 +1,87 @@
+import { Release, ReleaseCommit, ReleaseSection, groupReleaseByAuthor } from '../release';
+import { ChangelogRenderer, OutputFormat, RenderOptions } from './types';
+import { getCommitLinks } from './links';
+
+/**
+ * Escape characters that start inline markup in reStructuredText
+ */
+export function escapeRst(text: string): string {
+	return text.replace(/([\\*`|_])/g, '\\$1');
+}
+
+function heading(text: string, underline: string): string {
+	// Titles must be underlined at least as long as the text
+	return `${text}\n${underline.repeat(Math.max(text.length, 3))}\n\n`;
+}
+
+/**
+ * Short hashes as literals followed by the issue references, as anonymous hyperlinks where their URLs are known.
+ * Inline markup cannot nest, so a linked hash loses its literal style.
+ */
+function formatCommitLinks(commit: ReleaseCommit, relatedCommits: ReleaseCommit[] = []): string {
+	return getCommitLinks(commit, relatedCommits)
+		.map(link => {
+			if (link.url) {
+				return `\`${link.text} <${link.url}>\`__`;
+			}
+			return link.kind === 'commit' ? `\`\`${link.text}\`\`` : escapeRst(link.text);
+		})
+		.join(', ');
+}
+
+/**
+ * reStructuredText, e.g. for Sphinx documentation
+ */
+export class RstRenderer implements ChangelogRenderer {
+	readonly format: OutputFormat = 'rst';
+	readonly name = 'reStructuredText';
+	readonly fileExtension = '.rst';
+	readonly languageId = 'restructuredtext';
+
+	render(release: Release, options: RenderOptions = {}): string {
+		let changelog = heading(escapeRst(`${release.version} - ${release.date}`), '=');
+		if (release.summary) {
+			changelog += `${escapeRst(release.summary)}\n\n`;
+		}
+
+		if (release.breakingChanges.length > 0) {
+			changelog += '.. warning:: Breaking changes\n\n';
+			for (const change of release.breakingChanges) {
+				changelog += `   - **${escapeRst(change.description)}** (${formatCommitLinks(change.commit)})`;
+				changelog += change.migrationNote ? ` Migration: ${escapeRst(change.migrationNote)}\n` : '\n';
+			}
+			changelog += '\n';
+		}
+
+		if (options.groupByAuthor) {
+			for (const group of groupReleaseByAuthor(release)) {
+				changelog += heading(escapeRst(group.author), '-');
+				changelog += this.renderSections(group.sections, '~');
+			}
+		} else {
+			changelog += this.renderSections(release.sections, '-');
+		}
+
+		if (options.showContributors && release.authors.length > 0) {
+			changelog += heading('Contributors', '-');
+			for (const author of release.authors) {
+				changelog += `- ${escapeRst(author.name)}${author.firstContribution ? ' (first contribution)' : ''}\n`;
+			}
+			changelog += '\n';
+		}
+
+		return changelog;
+	}
+
+	private renderSections(sections: ReleaseSection[], underline: string): string {
+		let result = '';
+		for (const section of sections) {
+			result += heading(section.title, underline);
+			for (const entry of section.entries) {
+				result += `- ${escapeRst(entry.description)} (${formatCommitLinks(entry.commit, entry.relatedCommits)})\n`;
+			}
+			result += '\n';
+		}
+		return result;
+	}
+}
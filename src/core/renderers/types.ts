@@ -0,0 +1,41 @@
+import type { Release } from '../release';
+
+export type OutputFormat = 'markdown' | 'keep-a-changelog' | 'html' | 'asciidoc' | 'rst' | 'plain';
+
+export interface RenderOptions {
+	/**
+	 * Group entries under their authors instead of by change type
+	 */
+	groupByAuthor?: boolean;
+	/**
+	 * Close with the list of contributors, highlighting first-time contributors
+	 */
+	showContributors?: boolean;
+}
+
+export interface ChangelogRenderer {
+	/**
+	 * Identifier used in `shipnote-ai.outputFormat`
+	 */
+	readonly format: OutputFormat;
+
+	/**
+	 * Display name of the format
+	 */
+	readonly name: string;
+
+	/**
+	 * Extension of files written in this format, including the dot
+	 */
+	readonly fileExtension: string;
+
+	/**
+	 * VS Code language identifier used when opening the output in an editor
+	 */
+	readonly languageId: string;
+
+	/**
+	 * Render a release in this format
+	 */
+	render(release: Release, options?: RenderOptions): string;
+}
@@ -4,7 +4,10 @@ import * as path from 'path';
 import { ConfigService } from '../config/config';
 
 export interface StyleRecommendation {
-	recommendedStyle: 'formal' | 'dev-friendly' | 'pm-style';
+	/**
+	 * Recommendations come from the built-in styles; users can still pick a custom one
+	 */
+	recommendedStyle: string;
 	confidence: number; // 0-1
 	reasons: string[];
 	explanation: string;
@@ -171,11 +174,20 @@ export class StyleRecommendationService {
 			return recommendation.recommendedStyle;
 		}
 
+		const styleIcons: Record<string, string> = {
+			'formal': '📝',
+			'dev-friendly': '🔧',
+			'pm-style': '📊'
+		};
+
 		const options = [
 			{ label: `✅ Use ${recommendation.recommendedStyle}`, value: recommendation.recommendedStyle },
-			{ label: '📝 Formal Style', value: 'formal' },
-			{ label: '🔧 Dev-Friendly Style', value: 'dev-friendly' },
-			{ label: '📊 PM Style', value: 'pm-style' },
+			...this.configService.getStyleRegistry().getAll().map(style => ({
+				label: `${styleIcons[style.name] || '🎨'} ${style.label || style.name}`,
+				description: style.description,
+				detail: `e.g. "${style.example}"`,
+				value: style.name
+			})),
 			{ label: '⏭️ Skip for now', value: 'skip' }
 		];
 
@@ -189,7 +201,7 @@ export class StyleRecommendationService {
 	}
 
 	async applyRecommendation(style: string): Promise<void> {
-		if (['formal', 'dev-friendly', 'pm-style'].includes(style)) {
+		if (this.configService.getStyleRegistry().has(style)) {
 			await this.configService.updateConfig('changelogStyle', style);
 		}
 	}
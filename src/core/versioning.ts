@@ -0,0 +1,236 @@
+import { ChangelogEntry } from '../integrations/providers';
+import { getParsedCommit } from '../integrations/conventional-commits';
+
+export type BumpType = 'major' | 'minor' | 'patch';
+
+export const PRE_RELEASE_IDENTIFIERS = ['alpha', 'beta', 'rc'] as const;
+
+export interface SemVer {
+	major: number;
+	minor: number;
+	patch: number;
+	/**
+	 * Dot-separated pre-release identifiers, e.g. ['beta', '2'] for 1.0.0-beta.2
+	 */
+	prerelease: string[];
+}
+
+export interface VersionTag {
+	tag: string;
+	version: SemVer;
+}
+
+export interface BumpReason {
+	bump: BumpType;
+	reason: string;
+}
+
+export interface VersionSuggestion {
+	/**
+	 * Latest semver tag, if the repository has one
+	 */
+	currentTag?: string;
+	currentVersion?: string;
+	bump: BumpType;
+	nextVersion: string;
+	/**
+	 * Suggested tag name, keeping the `v` prefix of the current tag
+	 */
+	nextTag: string;
+	reasons: string[];
+}
+
+const VERSION_PATTERN = /^(v?)(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-.]+)?$/;
+
+const BUMP_RANK: Record<BumpType, number> = { patch: 0, minor: 1, major: 2 };
+
+/**
+ * Parse a version such as "1.2.3", "v2.0.0-rc.1" or "1.0.0+build.5"
+ */
+export function parseVersion(text: string): SemVer | null {
+	const match = text.trim().match(VERSION_PATTERN);
+	if (!match) {
+		return null;
+	}
+
+	return {
+		major: Number(match[2]),
+		minor: Number(match[3]),
+		patch: Number(match[4]),
+		prerelease: match[5] ? match[5].split('.') : []
+	};
+}
+
+export function formatVersion(version: SemVer): string {
+	const base = `${version.major}.${version.minor}.${version.patch}`;
+	return version.prerelease.length > 0 ? `${base}-${version.prerelease.join('.')}` : base;
+}
+
+/**
+ * Compare by semver precedence; negative when a < b
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+	for (const key of ['major', 'minor', 'patch'] as const) {
+		if (a[key] !== b[key]) {
+			return a[key] - b[key];
+		}
+	}
+
+	// A release ranks above its pre-releases
+	if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+		return b.prerelease.length - a.prerelease.length;
+	}
+
+	for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+		const left = a.prerelease[i];
+		const right = b.prerelease[i];
+		if (left === undefined || right === undefined) {
+			return left === undefined ? -1 : 1;
+		}
+		if (left === right) {
+			continue;
+		}
+
+		const leftNumeric = /^\d+$/.test(left);
+		const rightNumeric = /^\d+$/.test(right);
+		if (leftNumeric && rightNumeric) {
+			return Number(left) - Number(right);
+		}
+		if (leftNumeric !== rightNumeric) {
+			return leftNumeric ? -1 : 1;
+		}
+		return left < right ? -1 : 1;
+	}
+
+	return 0;
+}
+
+/**
+ * Highest semver tag; tags that are not versions are ignored
+ */
+export function findLatestVersionTag(tags: string[]): VersionTag | undefined {
+	let latest: VersionTag | undefined;
+	for (const tag of tags) {
+		const version = parseVersion(tag);
+		if (version && (!latest || compareVersions(version, latest.version) > 0)) {
+			latest = { tag, version };
+		}
+	}
+	return latest;
+}
+
+/**
+ * Work out the bump the entries require under Conventional Commits rules
+ */
+export function determineBump(entries: ChangelogEntry[]): { bump: BumpType; reasons: BumpReason[] } {
+	const reasons: BumpReason[] = entries.map(entry => {
+		const shortHash = entry.commit.hash.substring(0, 7);
+		if (entry.breaking || getParsedCommit(entry.commit).breaking) {
+			return { bump: 'major', reason: `Breaking change: ${entry.description} (${shortHash})` };
+		}
+		if (entry.type === 'feat') {
+			return { bump: 'minor', reason: `New feature: ${entry.description} (${shortHash})` };
+		}
+		return { bump: 'patch', reason: `${entry.type}: ${entry.description} (${shortHash})` };
+	});
+
+	const bump = reasons.reduce<BumpType>(
+		(highest, reason) => BUMP_RANK[reason.bump] > BUMP_RANK[highest] ? reason.bump : highest,
+		'patch'
+	);
+
+	return { bump, reasons: reasons.filter(reason => reason.bump === bump) };
+}
+
+/**
+ * Apply a bump, optionally producing or advancing a pre-release such as 1.3.0-beta.0
+ */
+export function bumpVersion(current: SemVer, bump: BumpType, preReleaseId?: string): SemVer {
+	const base = { major: current.major, minor: current.minor, patch: current.patch, prerelease: [] as string[] };
+	const isPreRelease = current.prerelease.length > 0;
+
+	// A pre-release of 1.3.0 already accounts for a minor bump from 1.2.x
+	const baseCoversBump = isPreRelease && (
+		bump === 'patch' ||
+		(bump === 'minor' && current.patch === 0) ||
+		(bump === 'major' && current.minor === 0 && current.patch === 0)
+	);
+
+	const next = baseCoversBump ? base : incrementBase(base, bump);
+	if (!preReleaseId) {
+		return next;
+	}
+
+	if (baseCoversBump && current.prerelease[0] === preReleaseId) {
+		const counter = Number(current.prerelease[1]);
+		return { ...next, prerelease: [preReleaseId, String(Number.isInteger(counter) ? counter + 1 : 0)] };
+	}
+
+	return { ...next, prerelease: [preReleaseId, '0'] };
+}
+
+/**
+ * Suggest the next version from the latest tag and the entries released since
+ */
+export function suggestNextVersion(
+	entries: ChangelogEntry[],
+	latest?: VersionTag,
+	preReleaseId?: string
+): VersionSuggestion {
+	const { bump: requiredBump, reasons } = determineBump(entries);
+	const current = latest?.version || { major: 0, minor: 0, patch: 0, prerelease: [] };
+	const messages = reasons.map(reason => reason.reason);
+
+	// Before 1.0.0 breaking changes only bump the minor version
+	let bump = requiredBump;
+	if (bump === 'major' && current.major === 0) {
+		bump = 'minor';
+		messages.unshift('Still in initial development (0.x), so breaking changes bump the minor version');
+	}
+
+	if (!latest) {
+		messages.unshift('No version tag found; starting from 0.0.0');
+	}
+	if (entries.length === 0) {
+		messages.push('No changes since the last release');
+	}
+
+	const nextVersion = formatVersion(bumpVersion(current, bump, preReleaseId));
+	const prefix = latest?.tag.startsWith('v') ? 'v' : '';
+
+	return {
+		currentTag: latest?.tag,
+		currentVersion: latest ? formatVersion(latest.version) : undefined,
+		bump,
+		nextVersion,
+		nextTag: `${prefix}${nextVersion}`,
+		reasons: messages
+	};
+}
+
+/**
+ * Set the `version` of a package.json file, keeping its formatting
+ */
+export function setPackageVersion(packageJson: string, version: string): string {
+	if (typeof JSON.parse(packageJson).version !== 'string') {
+		throw new Error('package.json has no version field');
+	}
+
+	// Replace the first "version" key in place; the check below makes sure it was the top-level one
+	const updated = packageJson.replace(/^(\s*"version"\s*:\s*")[^"]*"/m, `$1${version}"`);
+	if (JSON.parse(updated).version !== version) {
+		throw new Error('Could not find the version field of package.json');
+	}
+	return updated;
+}
+
+function incrementBase(version: SemVer, bump: BumpType): SemVer {
+	switch (bump) {
+		case 'major':
+			return { major: version.major + 1, minor: 0, patch: 0, prerelease: [] };
+		case 'minor':
+			return { major: version.major, minor: version.minor + 1, patch: 0, prerelease: [] };
+		default:
+			return { major: version.major, minor: version.minor, patch: version.patch + 1, prerelease: [] };
+	}
+}
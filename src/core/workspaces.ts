@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from '../integrations/path-filter';
+
+/**
+ * A package inside a monorepo
+ */
+export interface WorkspacePackage {
+	name: string;
+	/**
+	 * Directory relative to the repository root, using forward slashes
+	 */
+	path: string;
+}
+
+const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+
+/**
+ * Read workspace globs from package.json (npm, yarn) and pnpm-workspace.yaml
+ */
+export async function readWorkspaceGlobs(repoPath: string): Promise<string[]> {
+	const globs: string[] = [];
+
+	try {
+		const packageJson = JSON.parse(await fs.promises.readFile(path.join(repoPath, 'package.json'), 'utf8'));
+		// Yarn also accepts `{ "packages": [...] }`
+		const workspaces = Array.isArray(packageJson.workspaces) ? packageJson.workspaces : packageJson.workspaces?.packages;
+		if (Array.isArray(workspaces)) {
+			globs.push(...workspaces.filter((glob: unknown): glob is string => typeof glob === 'string'));
+		}
+	} catch {
+		// No package.json or not valid JSON
+	}
+
+	try {
+		const pnpmWorkspace = await fs.promises.readFile(path.join(repoPath, 'pnpm-workspace.yaml'), 'utf8');
+		globs.push(...parsePnpmWorkspace(pnpmWorkspace));
+	} catch {
+		// Not a pnpm workspace
+	}
+
+	return [...new Set(globs)];
+}
+
+/**
+ * Read the `packages` list of a pnpm-workspace.yaml file
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+	const globs: string[] = [];
+	let inPackages = false;
+
+	for (const line of content.split(/\r?\n/)) {
+		if (/^packages:\s*$/.test(line)) {
+			inPackages = true;
+			continue;
+		}
+		if (!inPackages || !line.trim() || line.trim().startsWith('#')) {
+			continue;
+		}
+		// The list ends at the next top-level key
+		if (!/^\s/.test(line)) {
+			break;
+		}
+
+		const match = line.match(/^\s+-\s*(['"]?)(.+?)\1\s*(?:#.*)?$/);
+		if (match) {
+			globs.push(match[2]);
+		}
+	}
+
+	return globs;
+}
+
+/**
+ * Find the packages of a monorepo.
+ * A configured name-to-path map wins; otherwise the workspace globs are expanded.
+ */
+export async function discoverPackages(repoPath: string, packagePaths: Record<string, string> = {}): Promise<WorkspacePackage[]> {
+	const configured = Object.entries(packagePaths);
+	if (configured.length > 0) {
+		return configured.map(([name, packagePath]) => ({ name, path: normalizePackagePath(packagePath) }));
+	}
+
+	const globs = await readWorkspaceGlobs(repoPath);
+	const excluded = globs.filter(glob => glob.startsWith('!')).map(glob => globToRegExp(normalizePackagePath(glob.substring(1))));
+	const directories = new Set<string>();
+
+	for (const glob of globs.filter(glob => !glob.startsWith('!'))) {
+		for (const directory of await expandGlob(repoPath, normalizePackagePath(glob))) {
+			if (!excluded.some(pattern => pattern.test(directory))) {
+				directories.add(directory);
+			}
+		}
+	}
+
+	const packages: WorkspacePackage[] = [];
+	for (const directory of [...directories].sort()) {
+		const name = await readPackageName(repoPath, directory);
+		if (name) {
+			packages.push({ name, path: directory });
+		}
+	}
+	return packages;
+}
+
+/**
+ * Packages that own at least one of the files; each file belongs to the innermost package containing it
+ */
+export function findPackagesForFiles(files: string[], packages: WorkspacePackage[]): WorkspacePackage[] {
+	const owners = new Set<WorkspacePackage>();
+
+	for (const file of files) {
+		let owner: WorkspacePackage | undefined;
+		for (const pkg of packages) {
+			const inside = file === pkg.path || file.startsWith(`${pkg.path}/`);
+			if (inside && (!owner || pkg.path.length > owner.path.length)) {
+				owner = pkg;
+			}
+		}
+		if (owner) {
+			owners.add(owner);
+		}
+	}
+
+	return packages.filter(pkg => owners.has(pkg));
+}
+
+function normalizePackagePath(packagePath: string): string {
+	return packagePath.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+async function expandGlob(repoPath: string, glob: string): Promise<string[]> {
+	let directories = [''];
+
+	for (const segment of glob.split('/').filter(Boolean)) {
+		const next: string[] = [];
+		for (const directory of directories) {
+			if (segment === '**') {
+				next.push(directory, ...await listDirectories(repoPath, directory, true));
+			} else if (/[*?]/.test(segment)) {
+				const pattern = globToRegExp(segment);
+				const children = await listDirectories(repoPath, directory, false);
+				next.push(...children.filter(child => pattern.test(path.posix.basename(child))));
+			} else {
+				next.push(path.posix.join(directory, segment));
+			}
+		}
+		directories = [...new Set(next)];
+	}
+
+	return directories.filter(Boolean);
+}
+
+async function listDirectories(repoPath: string, directory: string, recursive: boolean): Promise<string[]> {
+	let entries: fs.Dirent[];
+	try {
+		entries = await fs.promises.readdir(path.join(repoPath, directory), { withFileTypes: true });
+	} catch {
+		return [];
+	}
+
+	const directories: string[] = [];
+	for (const entry of entries) {
+		if (!entry.isDirectory() || IGNORED_DIRECTORIES.includes(entry.name)) {
+			continue;
+		}
+		const child = path.posix.join(directory, entry.name);
+		directories.push(child);
+		if (recursive) {
+			directories.push(...await listDirectories(repoPath, child, true));
+		}
+	}
+	return directories;
+}
+
+async function readPackageName(repoPath: string, directory: string): Promise<string | undefined> {
+	try {
+		const packageJson = JSON.parse(await fs.promises.readFile(path.join(repoPath, directory, 'package.json'), 'utf8'));
+		return typeof packageJson.name === 'string' && packageJson.name ? packageJson.name : path.posix.basename(directory);
+	} catch {
+		// Workspace globs only count directories that hold a package
+		return undefined;
+	}
+}
@@ -1,30 +1,61 @@
 import * as vscode from 'vscode';
-import { GitService } from '@/integrations/git';
-import { OpenAIService } from '@/integrations/openai';
+import { ComparisonStrategy, GitService } from '@/integrations/git';
+import { AIService, CostNotConfirmedError } from '@/integrations/ai-service';
+import { AIResponseCache } from '@/integrations/ai-cache';
+import { CostEstimate, formatCost } from '@/integrations/cost-estimator';
+import { UsageLog } from '@/integrations/usage-log';
+import { AIProviderType, PROMPT_TEMPLATE_DIR, createAIProvider, loadPromptTemplates, providerFactory } from '@/integrations/providers';
 import { ChangelogGenerator } from '@/core/changelog';
+import { Release, UNRELEASED_VERSION, releaseToJSON } from '@/core/release';
+import { createRenderer } from '@/core/renderers';
+import {
+	BumpType,
+	PRE_RELEASE_IDENTIFIERS,
+	bumpVersion,
+	findLatestVersionTag,
+	formatVersion,
+	parseVersion,
+	setPackageVersion
+} from '@/core/versioning';
+import { discoverPackages } from '@/core/workspaces';
+import { parseChangelog, promoteUnreleased, resolveChangelogPath, updateChangelogFile } from '@/core/changelog-file';
 import { ConfigService } from '@/config/config';
 import { ChangelogWebviewProvider } from '@/webview/ChangelogWebviewProvider';
 import { StyleRecommendationService } from '@/core/styleRecommendation';
-import { promisify } from 'util';
-import { exec } from 'child_process';
 
-const execAsync = promisify(exec);
-
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
 	console.log('ShipNote AI Changelog Generator is now active!');
 
 	// Initialize services
 	const gitService = new GitService();
 	const configService = new ConfigService(context);
-	const openaiService = new OpenAIService(configService);
-	const changelogGenerator = new ChangelogGenerator(gitService, openaiService, configService);
+	const aiService = new AIService(context, {
+		primaryProvider: configService.getPrimaryAIProvider(),
+		fallbackProvider: configService.getFallbackAIProvider()
+	});
+	await aiService.initialize();
+	const aiResponseCache = new AIResponseCache(
+		context.globalStorageUri.fsPath,
+		configService.getAICacheMaxEntries()
+	);
+	aiService.setResponseCache(configService.getAICacheEnabled() ? aiResponseCache : undefined);
+	aiService.setDiffLoader(commits => gitService.loadDiffs(commits));
+	const usageLog = new UsageLog(context.globalState);
+	aiService.setUsageRecorder(record => usageLog.add(record));
+	aiService.setCostConfirmation(estimate => confirmEstimatedCost(
+		estimate,
+		configService.getCostConfirmationThreshold(),
+		configService.getTokenConfirmationThreshold()
+	));
+	const changelogGenerator = new ChangelogGenerator(gitService, aiService, configService);
 	const styleRecommendationService = new StyleRecommendationService(configService);
 
 	// Register webview provider
 	const changelogWebviewProvider = new ChangelogWebviewProvider(
 		context.extensionUri,
 		changelogGenerator,
-		configService
+		configService,
+		aiService
 	);
 
 	context.subscriptions.push(
@@ -34,23 +65,64 @@ export function activate(context: vscode.ExtensionContext) {
 		)
 	);
 
+	// Proposed file contents shown in the release finalization diffs
+	context.subscriptions.push(
+		vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+			provideTextDocumentContent: uri => previewContents.get(uri.path) ?? ''
+		})
+	);
+
+	// Keep provider selection and settings in sync with configuration changes
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(async (event) => {
+			if (event.affectsConfiguration('shipnote-ai.primaryAIProvider') ||
+				event.affectsConfiguration('shipnote-ai.fallbackAIProvider')) {
+				aiService.updateConfig({
+					primaryProvider: configService.getPrimaryAIProvider(),
+					fallbackProvider: configService.getFallbackAIProvider()
+				});
+			}
+			if (event.affectsConfiguration('shipnote-ai.providerModels') ||
+				event.affectsConfiguration('shipnote-ai.aiMaxTokens') ||
+				event.affectsConfiguration('shipnote-ai.aiTemperature') ||
+				event.affectsConfiguration('shipnote-ai.batchPrompts') ||
+				event.affectsConfiguration('shipnote-ai.batchTokenBudget') ||
+				event.affectsConfiguration('shipnote-ai.diffTokenBudget') ||
+				event.affectsConfiguration('shipnote-ai.requestConcurrency') ||
+				event.affectsConfiguration('shipnote-ai.requestsPerMinute') ||
+				event.affectsConfiguration('shipnote-ai.maxRetries') ||
+				event.affectsConfiguration('shipnote-ai.promptTemplate') ||
+				event.affectsConfiguration('shipnote-ai.customStyles') ||
+				event.affectsConfiguration('shipnote-ai.azureOpenAI') ||
+				event.affectsConfiguration('shipnote-ai.localLLM')) {
+				await aiService.initialize();
+			}
+			if (event.affectsConfiguration('shipnote-ai.aiCache')) {
+				aiResponseCache.setMaxEntries(configService.getAICacheMaxEntries());
+				aiService.setResponseCache(configService.getAICacheEnabled() ? aiResponseCache : undefined);
+			}
+		})
+	);
+
+	// Pick up edits to the selected prompt template without a reload
+	const promptTemplateWatcher = vscode.workspace.createFileSystemWatcher('**/.shipnote/prompts/*');
+	const reloadPromptTemplate = async () => {
+		if (configService.getPromptTemplateName()) {
+			await aiService.initialize();
+		}
+	};
+	promptTemplateWatcher.onDidChange(reloadPromptTemplate);
+	promptTemplateWatcher.onDidCreate(reloadPromptTemplate);
+	promptTemplateWatcher.onDidDelete(reloadPromptTemplate);
+	context.subscriptions.push(promptTemplateWatcher);
+
 	// Register commands
 	const generateChangelogCommand = vscode.commands.registerCommand(
 		'shipnote-ai.generateChangelog',
 		async () => {
 			try {
-				// Check if OpenAI key is set
-				const apiKey = await configService.getOpenAIKey();
-				if (!apiKey) {
-					const result = await vscode.window.showWarningMessage(
-						'OpenAI API key is not set. Would you like to set it now?',
-						'Set API Key',
-						'Cancel'
-					);
-					if (result === 'Set API Key') {
-						await vscode.commands.executeCommand('shipnote-ai.setOpenAIKey');
-						return;
-					}
+				// Make sure the selected AI provider is usable
+				if (!(await ensureAIProviderReady(aiService))) {
 					return;
 				}
 
@@ -71,44 +143,376 @@ export function activate(context: vscode.ExtensionContext) {
 
 						progress.report({ increment: 40, message: 'Analyzing commits with AI...' });
 						
-						const changelog = await changelogGenerator.generateChangelog(
-							workspaceFolder.uri.fsPath,
-							{ commitCount: 10 } // Default options, can be made configurable
-						);
+						const options = { commitCount: configService.getDefaultCommitCount() };
+						const release = await changelogGenerator.generateRelease(workspaceFolder.uri.fsPath, options);
 
 						progress.report({ increment: 80, message: 'Formatting changelog...' });
 
-						// Show options for what to do with the changelog
-						const action = await vscode.window.showInformationMessage(
-							'Changelog generated successfully!',
-							'Insert into CHANGELOG.md',
-							'Copy to Clipboard',
-							'Show in Editor'
-						);
+						const changelog = release
+							? changelogGenerator.renderRelease(release, options)
+							: 'No commits found.';
 
-						switch (action) {
-							case 'Insert into CHANGELOG.md':
-								await insertIntoChangelog(changelog);
-								break;
-							case 'Copy to Clipboard':
-								await vscode.env.clipboard.writeText(changelog);
-								vscode.window.showInformationMessage('Changelog copied to clipboard!');
-								break;
-							case 'Show in Editor':
-								const doc = await vscode.workspace.openTextDocument({
-									content: changelog,
-									language: 'markdown'
-								});
-								await vscode.window.showTextDocument(doc);
-								break;
-						}
+						// Show options for what to do with the changelog
+						await showChangelogActions(changelog, release, configService);
 
 						progress.report({ increment: 100, message: 'Complete!' });
 					}
 				);
 			} catch (error) {
-				const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-				vscode.window.showErrorMessage(`Failed to generate changelog: ${errorMessage}`);
+				showCommandError('generate changelog', error);
+			}
+		}
+	);
+
+	const suggestNextVersionCommand = vscode.commands.registerCommand(
+		'shipnote-ai.suggestNextVersion',
+		async () => {
+			try {
+				const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+				if (!workspaceFolder) {
+					throw new Error('No workspace folder found');
+				}
+
+				if (!await ensureAIProviderReady(aiService)) {
+					return;
+				}
+
+				const { suggestion, latest, options } = await vscode.window.withProgress(
+					{
+						location: vscode.ProgressLocation.Notification,
+						title: 'Analyzing commits since the last release...',
+						cancellable: false
+					},
+					() => changelogGenerator.suggestNextVersion(workspaceFolder.uri.fsPath)
+				);
+
+				const current = latest?.version || { major: 0, minor: 0, patch: 0, prerelease: [] };
+				const items: Array<vscode.QuickPickItem & { version?: string }> = [
+					{
+						label: `$(star) ${suggestion.nextVersion}`,
+						description: `Suggested ${suggestion.bump} bump from ${suggestion.currentTag || 'no tag'}`,
+						detail: suggestion.reasons.join(' · '),
+						version: suggestion.nextVersion
+					}
+				];
+
+				for (const bump of ['major', 'minor', 'patch'] as BumpType[]) {
+					const version = formatVersion(bumpVersion(current, bump));
+					if (version !== suggestion.nextVersion) {
+						items.push({ label: version, description: `${bump} bump`, version });
+					}
+				}
+
+				for (const preReleaseId of PRE_RELEASE_IDENTIFIERS) {
+					const version = formatVersion(bumpVersion(current, suggestion.bump, preReleaseId));
+					items.push({ label: version, description: `${preReleaseId} pre-release`, version });
+				}
+
+				items.push({ label: '$(edit) Enter a custom version...' });
+
+				const selection = await vscode.window.showQuickPick(items, {
+					placeHolder: `Current version: ${suggestion.currentVersion || 'none'}`,
+					matchOnDescription: true
+				});
+				if (!selection) {
+					return;
+				}
+
+				const version = selection.version || await vscode.window.showInputBox({
+					prompt: 'Enter the version for this release',
+					placeHolder: suggestion.nextVersion,
+					validateInput: value => parseVersion(value) ? null : 'Please enter a semantic version such as 1.4.0 or 2.0.0-rc.1'
+				});
+				if (!version) {
+					return;
+				}
+
+				const generateOptions = { ...options, version: version.replace(/^v/, '') };
+				const release = await vscode.window.withProgress(
+					{
+						location: vscode.ProgressLocation.Notification,
+						title: `Generating changelog for ${generateOptions.version}...`,
+						cancellable: false
+					},
+					() => changelogGenerator.generateRelease(workspaceFolder.uri.fsPath, generateOptions)
+				);
+
+				const changelog = release
+					? changelogGenerator.renderRelease(release, generateOptions)
+					: 'No commits found.';
+				await showChangelogActions(changelog, release, configService);
+			} catch (error) {
+				showCommandError('suggest next version', error);
+			}
+		}
+	);
+
+	const exportChangelogJSONCommand = vscode.commands.registerCommand(
+		'shipnote-ai.exportChangelogJSON',
+		async () => {
+			try {
+				const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+				if (!workspaceFolder) {
+					throw new Error('No workspace folder found');
+				}
+
+				if (!await ensureAIProviderReady(aiService)) {
+					return;
+				}
+
+				const release = await vscode.window.withProgress(
+					{
+						location: vscode.ProgressLocation.Notification,
+						title: 'Generating release data...',
+						cancellable: false
+					},
+					() => changelogGenerator.generateRelease(
+						workspaceFolder.uri.fsPath,
+						{ commitCount: configService.getDefaultCommitCount() }
+					)
+				);
+
+				if (!release) {
+					vscode.window.showWarningMessage('No commits found to export');
+					return;
+				}
+
+				await saveReleaseJSON(release, configService.getJSONOutputFileName());
+			} catch (error) {
+				showCommandError('export changelog', error);
+			}
+		}
+	);
+
+	const generatePackageChangelogsCommand = vscode.commands.registerCommand(
+		'shipnote-ai.generatePackageChangelogs',
+		async () => {
+			try {
+				const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+				if (!workspaceFolder) {
+					throw new Error('No workspace folder found');
+				}
+
+				const packages = await discoverPackages(workspaceFolder.uri.fsPath, configService.getPackagePaths());
+				if (packages.length === 0) {
+					vscode.window.showWarningMessage(
+						'No packages found. Declare workspaces in package.json or pnpm-workspace.yaml, or map packages in the shipnote-ai.packages setting.'
+					);
+					return;
+				}
+
+				if (!await ensureAIProviderReady(aiService)) {
+					return;
+				}
+
+				const packageReleases = await vscode.window.withProgress(
+					{
+						location: vscode.ProgressLocation.Notification,
+						title: `Generating changelogs for ${packages.length} packages...`,
+						cancellable: false
+					},
+					() => changelogGenerator.generatePackageReleases(
+						workspaceFolder.uri.fsPath,
+						packages,
+						{ commitCount: configService.getDefaultCommitCount() }
+					)
+				);
+
+				if (packageReleases.length === 0) {
+					vscode.window.showWarningMessage('No package changes found in the selected commits');
+					return;
+				}
+
+				const fileName = configService.getOutputFileName();
+				// Changelog files are merged by their `## ` sections, so other output formats fall back to Markdown
+				const outputFormat = configService.getOutputFormat();
+				const format = createRenderer(outputFormat).languageId === 'markdown' ? outputFormat : 'markdown';
+				for (const { package: pkg, release } of packageReleases) {
+					const packagePath = vscode.Uri.joinPath(workspaceFolder.uri, pkg.path).fsPath;
+					await updateChangelogFile(resolveChangelogPath(packagePath, fileName), changelogGenerator.renderRelease(release, { format }));
+				}
+
+				vscode.window.showInformationMessage(
+					`Updated ${fileName} for ${packageReleases.map(({ package: pkg }) => pkg.name).join(', ')}`
+				);
+			} catch (error) {
+				showCommandError('generate package changelogs', error);
+			}
+		}
+	);
+
+	const generatePullRequestChangelogCommand = vscode.commands.registerCommand(
+		'shipnote-ai.generatePullRequestChangelog',
+		async () => {
+			try {
+				const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+				if (!workspaceFolder) {
+					throw new Error('No workspace folder found');
+				}
+
+				const tags = await gitService.getTags(workspaceFolder.uri.fsPath);
+				const items: Array<vscode.QuickPickItem & { ref?: string }> = tags.map(tag => ({ label: tag, ref: tag }));
+				items.push({ label: '$(edit) Enter a tag, branch or commit...' });
+
+				const selection = await vscode.window.showQuickPick(items, {
+					placeHolder: 'List the pull requests merged since...',
+					title: 'Changelog from Merged Pull Requests'
+				});
+				if (!selection) {
+					return;
+				}
+
+				const fromRef = selection.ref || await vscode.window.showInputBox({
+					prompt: 'Tag, branch or commit to start from',
+					placeHolder: 'v1.2.0'
+				});
+				if (!fromRef) {
+					return;
+				}
+
+				if (!await ensureAIProviderReady(aiService)) {
+					return;
+				}
+
+				const options = { fromTag: fromRef, toTag: 'HEAD', pullRequests: true };
+				const release = await vscode.window.withProgress(
+					{
+						location: vscode.ProgressLocation.Notification,
+						title: `Collecting pull requests merged since ${fromRef}...`,
+						cancellable: false
+					},
+					() => changelogGenerator.generateRelease(workspaceFolder.uri.fsPath, options)
+				);
+
+				const changelog = release
+					? changelogGenerator.renderRelease(release, options)
+					: 'No commits found.';
+				await showChangelogActions(changelog, release, configService);
+			} catch (error) {
+				showCommandError('generate pull request changelog', error);
+			}
+		}
+	);
+
+	const finalizeReleaseCommand = vscode.commands.registerCommand(
+		'shipnote-ai.finalizeRelease',
+		async () => {
+			try {
+				const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+				if (!workspaceFolder) {
+					throw new Error('No workspace folder found');
+				}
+				const repoPath = workspaceFolder.uri.fsPath;
+
+				const fileName = configService.getOutputFileName();
+				const changelogUri = vscode.Uri.file(resolveChangelogPath(repoPath, fileName));
+				const changelog = await readTextFile(changelogUri);
+				if (changelog === undefined) {
+					throw new Error(`${fileName} not found; generate a changelog first`);
+				}
+				if (!parseChangelog(changelog).sections.some(section => section.version === UNRELEASED_VERSION)) {
+					throw new Error(`${fileName} has no [${UNRELEASED_VERSION}] section to release`);
+				}
+
+				const latest = findLatestVersionTag(await gitService.getTags(repoPath));
+				const version = await pickReleaseVersion(latest?.tag);
+				if (!version) {
+					return;
+				}
+				const tag = `${latest?.tag.startsWith('v') ? 'v' : ''}${version}`;
+
+				const packageJsonUri = vscode.Uri.joinPath(workspaceFolder.uri, 'package.json');
+				const packageJson = await readTextFile(packageJsonUri);
+				const stepItems: Array<vscode.QuickPickItem & { step: 'package' | 'commit' | 'tag' }> = [
+					{ label: 'Create an annotated tag', description: tag, picked: true, step: 'tag' },
+					{ label: 'Commit the release', description: `chore(release): ${tag}`, picked: true, step: 'commit' }
+				];
+				if (packageJson !== undefined) {
+					stepItems.unshift({ label: 'Bump the package.json version', description: version, picked: true, step: 'package' });
+				}
+				const selectedSteps = await vscode.window.showQuickPick(stepItems, {
+					canPickMany: true,
+					title: `Finalize Release ${tag}`,
+					placeHolder: `[${UNRELEASED_VERSION}] in ${fileName} becomes [${version}]; choose what else to do`
+				});
+				if (!selectedSteps) {
+					return;
+				}
+				const steps = new Set(selectedSteps.map(item => item.step));
+				if (steps.has('tag') && await gitService.tagExists(repoPath, tag)) {
+					throw new Error(`Tag ${tag} already exists`);
+				}
+
+				const promoted = promoteUnreleased(changelog, {
+					version,
+					date: new Date().toISOString().split('T')[0],
+					tag
+				});
+				const changedFiles: string[] = [];
+
+				if (!await confirmFileChange(changelogUri, promoted.content, `Rename [${UNRELEASED_VERSION}] to [${version}]`)) {
+					return;
+				}
+				await vscode.workspace.fs.writeFile(changelogUri, Buffer.from(promoted.content, 'utf8'));
+				changedFiles.push(changelogUri.fsPath);
+				const done = [`updated ${fileName}`];
+				const skipped: string[] = [];
+
+				if (steps.has('package') && packageJson !== undefined) {
+					const updatedPackageJson = setPackageVersion(packageJson, version);
+					if (await confirmFileChange(packageJsonUri, updatedPackageJson, `Set the package.json version to ${version}`)) {
+						await vscode.workspace.fs.writeFile(packageJsonUri, Buffer.from(updatedPackageJson, 'utf8'));
+						changedFiles.push(packageJsonUri.fsPath);
+						done.push(`set package.json to ${version}`);
+					} else {
+						skipped.push('package.json version');
+					}
+				}
+
+				// Commit before tagging so the tag points at the release commit
+				let committed = false;
+				if (steps.has('commit')) {
+					const message = `chore(release): ${tag}`;
+					const diff = await gitService.getWorkingTreeDiff(repoPath, changedFiles);
+					if (await confirmPreview(diff, 'diff', `Commit these changes as "${message}"?`, 'Commit')) {
+						const hash = await gitService.commitFiles(repoPath, changedFiles, message);
+						done.push(`committed ${hash.substring(0, 7)}`);
+						committed = true;
+					} else {
+						skipped.push('commit');
+					}
+				}
+
+				if (steps.has('tag')) {
+					if (steps.has('commit') && !committed) {
+						// Tagging now would tag the previous HEAD, without the release changes
+						skipped.push(`tag ${tag} (no release commit)`);
+					} else {
+						if (!steps.has('commit')) {
+							vscode.window.showWarningMessage(
+								`Tag ${tag} will point at the current HEAD, which does not include the updated ${fileName}`
+							);
+						}
+						const tagMessage = `${tag}\n\n${promoted.notes}`;
+						if (await confirmPreview(tagMessage, 'markdown', `Create tag ${tag} on HEAD with these release notes?`, 'Create Tag')) {
+							await gitService.createAnnotatedTag(repoPath, tag, tagMessage);
+							done.push(`tagged ${tag}`);
+						} else {
+							skipped.push(`tag ${tag}`);
+						}
+					}
+				}
+
+				const summary = `Release ${tag}: ${done.join(', ')}`;
+				if (skipped.length > 0) {
+					vscode.window.showWarningMessage(`${summary}. Skipped: ${skipped.join(', ')}`);
+				} else {
+					vscode.window.showInformationMessage(summary);
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(
+					`Failed to finalize release: ${error instanceof Error ? error.message : 'Unknown error'}`
+				);
 			}
 		}
 	);
@@ -129,12 +533,400 @@ export function activate(context: vscode.ExtensionContext) {
 			});
 
 			if (apiKey) {
-				await configService.setOpenAIKey(apiKey);
+				await aiService.setProviderApiKey('openai', apiKey);
 				vscode.window.showInformationMessage('OpenAI API key saved successfully!');
 			}
 		}
 	);
 
+	const selectAIProviderCommand = vscode.commands.registerCommand(
+		'shipnote-ai.selectAIProvider',
+		async () => {
+			const primaryProvider = aiService.getPrimaryProvider();
+			const selection = await vscode.window.showQuickPick(
+				providerFactory.getSupportedProviders().map(type => ({
+					label: createAIProvider(type).name,
+					description: type === primaryProvider ? '(current)' : '',
+					detail: aiService.isProviderConfigured(type) ? 'Configured' : 'API key not set',
+					type
+				})),
+				{
+					placeHolder: 'Select the AI provider used to generate changelogs',
+					title: 'Choose AI Provider'
+				}
+			);
+
+			if (!selection) {
+				return;
+			}
+
+			await aiService.setPrimaryProvider(selection.type);
+
+			if (!aiService.isProviderConfigured(selection.type)) {
+				const result = await vscode.window.showWarningMessage(
+					`${selection.label} is not configured yet. Would you like to set its API key now?`,
+					'Set API Key',
+					'Later'
+				);
+				if (result === 'Set API Key') {
+					await vscode.commands.executeCommand('shipnote-ai.setProviderApiKey', selection.type);
+				}
+				return;
+			}
+
+			vscode.window.showInformationMessage(`AI provider set to ${selection.label}`);
+		}
+	);
+
+	const setProviderApiKeyCommand = vscode.commands.registerCommand(
+		'shipnote-ai.setProviderApiKey',
+		async (providerType?: AIProviderType) => {
+			let targetProvider = providerType;
+
+			if (!targetProvider) {
+				const selection = await vscode.window.showQuickPick(
+					providerFactory.getSupportedProviders()
+						.filter(type => type !== 'offline')
+						.map(type => ({
+							label: createAIProvider(type).name,
+							detail: aiService.isProviderConfigured(type) ? 'Configured' : 'API key not set',
+							type
+						})),
+					{
+						placeHolder: 'Select the provider to set an API key for',
+						title: 'Set AI Provider API Key'
+					}
+				);
+				targetProvider = selection?.type;
+			}
+
+			if (!targetProvider) {
+				return;
+			}
+
+			// Azure needs an endpoint and deployment alongside the key
+			if (targetProvider === 'azure') {
+				await vscode.commands.executeCommand('shipnote-ai.configureAzureOpenAI');
+				return;
+			}
+
+			const providerName = createAIProvider(targetProvider).name;
+			const apiKey = await vscode.window.showInputBox({
+				prompt: `Enter your ${providerName} API Key`,
+				password: true,
+				ignoreFocusOut: true,
+				validateInput: (value) => {
+					if (!value || value.trim().length === 0) {
+						return 'Please enter a valid API key';
+					}
+					if (targetProvider === 'openai' && !value.startsWith('sk-')) {
+						return 'Please enter a valid OpenAI API key starting with "sk-"';
+					}
+					return null;
+				}
+			});
+
+			if (apiKey) {
+				await aiService.setProviderApiKey(targetProvider, apiKey.trim());
+				vscode.window.showInformationMessage(`${providerName} API key saved successfully!`);
+			}
+		}
+	);
+
+	const selectProviderModelCommand = vscode.commands.registerCommand(
+		'shipnote-ai.selectProviderModel',
+		async () => {
+			const primaryProvider = aiService.getPrimaryProvider();
+			const providerSelection = await vscode.window.showQuickPick(
+				providerFactory.getSupportedProviders()
+					.filter(type => type !== 'offline')
+					.map(type => ({
+						label: createAIProvider(type).name,
+						description: type === primaryProvider ? '(current)' : '',
+						type
+					})),
+				{
+					placeHolder: 'Select the provider to choose a model for',
+					title: 'Choose AI Provider'
+				}
+			);
+
+			if (!providerSelection) {
+				return;
+			}
+
+			const provider = createAIProvider(providerSelection.type);
+			const customModelLabel = 'Enter model name...';
+			const modelOptions = provider.availableModels.map(name => ({
+				label: name,
+				description: name === provider.defaultModel ? '(default)' : ''
+			}));
+			// Local servers can host any model, so allow free-form names
+			if (providerSelection.type === 'local') {
+				modelOptions.push({ label: customModelLabel, description: '' });
+			}
+
+			const selection = await vscode.window.showQuickPick(modelOptions, {
+				placeHolder: `Select the ${provider.name} model`,
+				title: 'Choose AI Model'
+			});
+
+			let model = selection?.label;
+			if (model === customModelLabel) {
+				model = (await vscode.window.showInputBox({
+					prompt: 'Model name as known to the local server',
+					placeHolder: 'llama3.1:8b'
+				}))?.trim();
+			}
+
+			if (model) {
+				await aiService.setProviderModel(providerSelection.type, model);
+				vscode.window.showInformationMessage(`${provider.name} model set to ${model}`);
+			}
+		}
+	);
+
+	const selectPromptTemplateCommand = vscode.commands.registerCommand(
+		'shipnote-ai.selectPromptTemplate',
+		async () => {
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+			if (!workspaceFolder) {
+				vscode.window.showErrorMessage('No workspace folder found');
+				return;
+			}
+
+			const { templates, errors } = await loadPromptTemplates(workspaceFolder.uri.fsPath);
+			if (errors.length > 0) {
+				vscode.window.showWarningMessage(
+					`Skipped ${errors.length} invalid prompt template(s): ${errors.map(error => error.message).join('; ')}`
+				);
+			}
+
+			const currentTemplate = configService.getPromptTemplateName();
+			const selection = await vscode.window.showQuickPick(
+				[
+					{
+						label: 'Built-in prompt',
+						description: currentTemplate ? '' : '(current)',
+						detail: 'Default prompt tuned for the selected changelog style',
+						name: ''
+					},
+					...templates.map(template => ({
+						label: template.name,
+						description: template.name === currentTemplate ? '(current)' : '',
+						detail: template.description || vscode.workspace.asRelativePath(template.source || template.name),
+						name: template.name
+					}))
+				],
+				{
+					placeHolder: templates.length > 0
+						? 'Select the prompt used to describe commits'
+						: `No templates found; add .md files to ${PROMPT_TEMPLATE_DIR} in this repository`,
+					title: 'Choose Prompt Template'
+				}
+			);
+
+			if (!selection) {
+				return;
+			}
+
+			// Templates live in the repository, so the choice is stored per workspace
+			await configService.updateConfig('promptTemplate', selection.name, vscode.ConfigurationTarget.Workspace);
+			vscode.window.showInformationMessage(
+				selection.name ? `Using prompt template "${selection.name}"` : 'Using the built-in prompt'
+			);
+		}
+	);
+
+	const configureAzureOpenAICommand = vscode.commands.registerCommand(
+		'shipnote-ai.configureAzureOpenAI',
+		async () => {
+			const config = vscode.workspace.getConfiguration('shipnote-ai');
+
+			const endpoint = await vscode.window.showInputBox({
+				prompt: 'Azure OpenAI endpoint',
+				placeHolder: 'https://my-resource.openai.azure.com',
+				value: config.get<string>('azureOpenAI.endpoint', ''),
+				ignoreFocusOut: true,
+				validateInput: (value) => {
+					if (!/^https?:\/\/\S+$/.test(value.trim())) {
+						return 'Please enter a valid URL starting with https://';
+					}
+					return null;
+				}
+			});
+			if (!endpoint) {
+				return;
+			}
+
+			const deploymentName = await vscode.window.showInputBox({
+				prompt: 'Azure OpenAI deployment name',
+				placeHolder: 'gpt-4o-mini',
+				value: config.get<string>('azureOpenAI.deploymentName', ''),
+				ignoreFocusOut: true,
+				validateInput: (value) => {
+					if (!value || value.trim().length === 0) {
+						return 'Please enter the deployment name';
+					}
+					return null;
+				}
+			});
+			if (!deploymentName) {
+				return;
+			}
+
+			const apiVersion = await vscode.window.showInputBox({
+				prompt: 'Azure OpenAI API version',
+				value: config.get<string>('azureOpenAI.apiVersion', '2024-02-01'),
+				ignoreFocusOut: true
+			});
+			if (!apiVersion) {
+				return;
+			}
+
+			const apiKey = await vscode.window.showInputBox({
+				prompt: 'Azure OpenAI API key (leave empty to keep the stored key)',
+				password: true,
+				ignoreFocusOut: true
+			});
+			if (apiKey === undefined) {
+				return;
+			}
+
+			await config.update('azureOpenAI.endpoint', endpoint.trim(), vscode.ConfigurationTarget.Global);
+			await config.update('azureOpenAI.deploymentName', deploymentName.trim(), vscode.ConfigurationTarget.Global);
+			await config.update('azureOpenAI.apiVersion', apiVersion.trim(), vscode.ConfigurationTarget.Global);
+
+			if (apiKey.trim()) {
+				await aiService.setProviderApiKey('azure', apiKey.trim());
+			} else {
+				await aiService.initialize();
+			}
+
+			await vscode.commands.executeCommand('shipnote-ai.testAIProvider', 'azure');
+		}
+	);
+
+	const testAIProviderCommand = vscode.commands.registerCommand(
+		'shipnote-ai.testAIProvider',
+		async (providerType?: AIProviderType) => {
+			const targetProvider = providerType || aiService.getPrimaryProvider();
+			const providerName = createAIProvider(targetProvider).name;
+
+			const result = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: `Testing ${providerName} connection...`,
+				cancellable: false
+			}, () => aiService.testProvider(targetProvider));
+
+			if (result.success) {
+				vscode.window.showInformationMessage(`${providerName} connection succeeded`);
+			} else {
+				vscode.window.showErrorMessage(`${providerName} connection failed: ${result.error}`);
+			}
+		}
+	);
+
+	const showAICacheInfoCommand = vscode.commands.registerCommand(
+		'shipnote-ai.showAICacheInfo',
+		async () => {
+			const stats = await aiResponseCache.getStats();
+			const sizeKB = (stats.sizeBytes / 1024).toFixed(1);
+			const details = [
+				`${stats.entries} of ${stats.maxEntries} entries (${sizeKB} KB)`,
+				`${stats.hits} hits, ${stats.misses} misses this session`
+			];
+			if (stats.oldestEntry && stats.newestEntry) {
+				details.push(`cached between ${stats.oldestEntry.toLocaleDateString()} and ${stats.newestEntry.toLocaleDateString()}`);
+			}
+			if (!configService.getAICacheEnabled()) {
+				details.push('caching is disabled');
+			}
+
+			const action = await vscode.window.showInformationMessage(
+				`AI response cache: ${details.join('; ')}`,
+				'Clear Cache'
+			);
+			if (action === 'Clear Cache') {
+				await vscode.commands.executeCommand('shipnote-ai.clearAICache');
+			}
+		}
+	);
+
+	const clearAICacheCommand = vscode.commands.registerCommand(
+		'shipnote-ai.clearAICache',
+		async () => {
+			try {
+				await aiResponseCache.clear();
+				vscode.window.showInformationMessage('AI response cache cleared');
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to clear AI response cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			}
+		}
+	);
+
+	const estimateChangelogCostCommand = vscode.commands.registerCommand(
+		'shipnote-ai.estimateChangelogCost',
+		async () => {
+			try {
+				const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+				if (!workspaceFolder) {
+					throw new Error('No workspace folder found');
+				}
+
+				// Same range as Generate Changelog
+				const estimate = await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: 'Estimating changelog cost...',
+					cancellable: false
+				}, () => changelogGenerator.estimateCost(workspaceFolder.uri.fsPath, { commitCount: configService.getDefaultCommitCount() }));
+
+				if (!estimate) {
+					vscode.window.showInformationMessage('The selected AI provider cannot estimate its usage');
+					return;
+				}
+				vscode.window.showInformationMessage(`Changelog cost estimate: ${describeCostEstimate(estimate)}`);
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to estimate changelog cost: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			}
+		}
+	);
+
+	const showAIUsageCommand = vscode.commands.registerCommand(
+		'shipnote-ai.showAIUsage',
+		async () => {
+			const records = usageLog.getRecords();
+			if (records.length === 0) {
+				vscode.window.showInformationMessage('No AI usage recorded yet');
+				return;
+			}
+
+			const clearItem = { label: '$(trash) Clear Usage History', description: '' };
+			const selection = await vscode.window.showQuickPick([
+				...records.map(record => {
+					const actualTokens = record.actual.inputTokens !== undefined
+						? `${record.actual.inputTokens} in / ${record.actual.outputTokens} out`
+						: `${record.actual.totalTokens} total`;
+					return {
+						label: `${new Date(record.date).toLocaleString()} · ${record.provider}/${record.model}`,
+						description: `${record.commits} commits, ${record.actual.requests} requests`,
+						detail: `Estimated ${record.estimate.inputTokens} in / ${record.estimate.outputTokens} out (${formatCost(record.estimate.cost)}) · `
+							+ `Actual ${actualTokens} (${formatCost(record.actual.cost)})`
+					};
+				}),
+				clearItem
+			], {
+				title: 'AI usage of recent runs',
+				placeHolder: 'Estimated and reported tokens per run, newest first'
+			});
+
+			if (selection === clearItem) {
+				await usageLog.clear();
+				vscode.window.showInformationMessage('AI usage history cleared');
+			}
+		}
+	);
+
 	const configureCommitRangeCommand = vscode.commands.registerCommand(
 		'shipnote-ai.configureCommitRange',
 		async () => {
@@ -287,18 +1079,8 @@ export function activate(context: vscode.ExtensionContext) {
 
 				// If we have valid options, generate the changelog
 				if (Object.keys(generateOptions).length > 0) {
-					// Check if OpenAI key is set
-					const apiKey = await configService.getOpenAIKey();
-					if (!apiKey) {
-						const result = await vscode.window.showWarningMessage(
-							'OpenAI API key is not set. Would you like to set it now?',
-							'Set API Key',
-							'Cancel'
-						);
-						if (result === 'Set API Key') {
-							await vscode.commands.executeCommand('shipnote-ai.setOpenAIKey');
-							return;
-						}
+					// Make sure the selected AI provider is usable
+					if (!(await ensureAIProviderReady(aiService))) {
 						return;
 					}
 
@@ -319,45 +1101,23 @@ export function activate(context: vscode.ExtensionContext) {
 
 							progress.report({ increment: 40, message: 'Processing commits with AI...' });
 							
-							const changelog = await changelogGenerator.generateChangelog(
-								workspaceFolder.uri.fsPath,
-								generateOptions
-							);
+							const release = await changelogGenerator.generateRelease(workspaceFolder.uri.fsPath, generateOptions);
 
 							progress.report({ increment: 80, message: 'Formatting changelog...' });
 
-							// Show options for what to do with the changelog
-							const action = await vscode.window.showInformationMessage(
-								'Changelog generated successfully!',
-								'Insert into CHANGELOG.md',
-								'Copy to Clipboard',
-								'Show in Editor'
-							);
+							const changelog = release
+								? changelogGenerator.renderRelease(release, generateOptions)
+								: 'No commits found.';
 
-							switch (action) {
-								case 'Insert into CHANGELOG.md':
-									await insertIntoChangelog(changelog);
-									break;
-								case 'Copy to Clipboard':
-									await vscode.env.clipboard.writeText(changelog);
-									vscode.window.showInformationMessage('Changelog copied to clipboard!');
-									break;
-								case 'Show in Editor':
-									const doc = await vscode.workspace.openTextDocument({
-										content: changelog,
-										language: 'markdown'
-									});
-									await vscode.window.showTextDocument(doc);
-									break;
-							}
+							// Show options for what to do with the changelog
+							await showChangelogActions(changelog, release, configService);
 
 							progress.report({ increment: 100, message: 'Complete!' });
 						}
 					);
 				}
 			} catch (error) {
-				const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-				vscode.window.showErrorMessage(`Failed to configure commit range: ${errorMessage}`);
+				showCommandError('configure commit range', error);
 			}
 		}
 	);
@@ -466,7 +1226,7 @@ export function activate(context: vscode.ExtensionContext) {
 				}
 
 				// Select comparison strategy
-				const strategy = await vscode.window.showQuickPick([
+				const strategies: Array<vscode.QuickPickItem & { label: ComparisonStrategy }> = [
 					{
 						label: 'one-way',
 						description: 'Show commits in target that are not in base',
@@ -482,7 +1242,8 @@ export function activate(context: vscode.ExtensionContext) {
 						description: 'Show commits since common ancestor',
 						detail: 'All commits since branches diverged'
 					}
-				], {
+				];
+				const strategy = await vscode.window.showQuickPick(strategies, {
 					placeHolder: 'Select comparison strategy',
 					title: 'How should branches be compared?'
 				});
@@ -491,7 +1252,7 @@ export function activate(context: vscode.ExtensionContext) {
 					return;
 				}
 
-				vscode.window.withProgress({
+				await vscode.window.withProgress({
 					location: vscode.ProgressLocation.Notification,
 					title: 'Generating branch comparison changelog...',
 					cancellable: false
@@ -503,25 +1264,25 @@ export function activate(context: vscode.ExtensionContext) {
 						{
 							fromBranch: baseBranch.label,
 							toBranch: targetBranch.label,
-							strategy: strategy.label as any
+							strategy: strategy.label,
+							includePaths: configService.getIncludePaths(),
+							excludePaths: configService.getExcludePaths()
 						}
 					);
 
-					const changelog = await changelogGenerator.generateChangelogFromCommits(commits);
+					const changelog = await changelogGenerator.generateChangelogFromCommits(workspaceFolder.uri.fsPath, commits);
 
 					// Show changelog in a new document
 					const doc = await vscode.workspace.openTextDocument({
 						content: `# Branch Comparison: ${baseBranch.label} → ${targetBranch.label}\n\nStrategy: ${strategy.label} (${commits.length} commits)\n\n${changelog}`,
-						language: 'markdown'
+						language: createRenderer(configService.getOutputFormat()).languageId
 					});
 					await vscode.window.showTextDocument(doc);
 				});
 
 			} catch (error) {
 				console.error('Error comparing branches:', error);
-				vscode.window.showErrorMessage(
-					`Failed to compare branches: ${error instanceof Error ? error.message : 'Unknown error'}`
-				);
+				showCommandError('compare branches', error);
 			}
 		}
 	);
@@ -537,10 +1298,7 @@ export function activate(context: vscode.ExtensionContext) {
 				}
 
 				// Get current branch
-				const { stdout: currentBranchOutput } = await execAsync('git branch --show-current', { 
-					cwd: workspaceFolder.uri.fsPath 
-				});
-				const currentBranch = currentBranchOutput.trim();
+				const currentBranch = await gitService.getCurrentBranch(workspaceFolder.uri.fsPath);
 				
 				if (!currentBranch) {
 					vscode.window.showErrorMessage('Could not determine current branch');
@@ -568,7 +1326,7 @@ export function activate(context: vscode.ExtensionContext) {
 					}
 				}
 
-				vscode.window.withProgress({
+				await vscode.window.withProgress({
 					location: vscode.ProgressLocation.Notification,
 					title: `Comparing ${currentBranch} to ${actualBaseBranch}...`,
 					cancellable: false
@@ -580,25 +1338,25 @@ export function activate(context: vscode.ExtensionContext) {
 						{
 							fromBranch: actualBaseBranch,
 							toBranch: currentBranch,
-							strategy: config.get('defaultComparisonStrategy', 'one-way') as any
+							strategy: config.get<ComparisonStrategy>('defaultComparisonStrategy', 'one-way'),
+							includePaths: configService.getIncludePaths(),
+							excludePaths: configService.getExcludePaths()
 						}
 					);
 
-					const changelog = await changelogGenerator.generateChangelogFromCommits(commits);
+					const changelog = await changelogGenerator.generateChangelogFromCommits(workspaceFolder.uri.fsPath, commits);
 
 					// Show changelog in a new document
 					const doc = await vscode.workspace.openTextDocument({
 						content: `# ${currentBranch} → ${actualBaseBranch}\n\n${commits.length} commits ahead\n\n${changelog}`,
-						language: 'markdown'
+						language: createRenderer(configService.getOutputFormat()).languageId
 					});
 					await vscode.window.showTextDocument(doc);
 				});
 
 			} catch (error) {
 				console.error('Error comparing current branch:', error);
-				vscode.window.showErrorMessage(
-					`Failed to compare current branch: ${error instanceof Error ? error.message : 'Unknown error'}`
-				);
+				showCommandError('compare current branch', error);
 			}
 		}
 	);
@@ -614,10 +1372,7 @@ export function activate(context: vscode.ExtensionContext) {
 				}
 
 				// Get current branch
-				const { stdout: currentBranchOutput } = await execAsync('git branch --show-current', { 
-					cwd: workspaceFolder.uri.fsPath 
-				});
-				const currentBranch = currentBranchOutput.trim();
+				const currentBranch = await gitService.getCurrentBranch(workspaceFolder.uri.fsPath);
 				
 				if (!currentBranch) {
 					vscode.window.showErrorMessage('Could not determine current branch');
@@ -645,7 +1400,7 @@ export function activate(context: vscode.ExtensionContext) {
 
 				const targetBaseBranch = baseBranch?.label || defaultBaseBranch;
 
-				vscode.window.withProgress({
+				await vscode.window.withProgress({
 					location: vscode.ProgressLocation.Notification,
 					title: 'Generating PR changelog...',
 					cancellable: false
@@ -657,7 +1412,9 @@ export function activate(context: vscode.ExtensionContext) {
 						{
 							fromBranch: targetBaseBranch,
 							toBranch: currentBranch,
-							strategy: 'one-way' // PRs typically show only commits ahead
+							strategy: 'one-way', // PRs typically show only commits ahead
+							includePaths: configService.getIncludePaths(),
+							excludePaths: configService.getExcludePaths()
 						}
 					);
 
@@ -668,12 +1425,12 @@ export function activate(context: vscode.ExtensionContext) {
 						return;
 					}
 
-					const changelog = await changelogGenerator.generateChangelogFromCommits(commits);
+					const changelog = await changelogGenerator.generateChangelogFromCommits(workspaceFolder.uri.fsPath, commits);
 
 					// Show changelog in a new document
 					const doc = await vscode.workspace.openTextDocument({
 						content: `# Pull Request: ${currentBranch}\n\n${commits.length} commits to merge into ${targetBaseBranch}\n\n${changelog}`,
-						language: 'markdown'
+						language: createRenderer(configService.getOutputFormat()).languageId
 					});
 					await vscode.window.showTextDocument(doc);
 
@@ -686,9 +1443,7 @@ export function activate(context: vscode.ExtensionContext) {
 
 			} catch (error) {
 				console.error('Error generating PR changelog:', error);
-				vscode.window.showErrorMessage(
-					`Failed to generate PR changelog: ${error instanceof Error ? error.message : 'Unknown error'}`
-				);
+				showCommandError('generate PR changelog', error);
 			}
 		}
 	);
@@ -696,7 +1451,22 @@ export function activate(context: vscode.ExtensionContext) {
 	// Register all commands
 	context.subscriptions.push(
 		generateChangelogCommand,
+		suggestNextVersionCommand,
+		exportChangelogJSONCommand,
+		generatePackageChangelogsCommand,
+		generatePullRequestChangelogCommand,
+		finalizeReleaseCommand,
 		setOpenAIKeyCommand,
+		selectAIProviderCommand,
+		setProviderApiKeyCommand,
+		selectProviderModelCommand,
+		selectPromptTemplateCommand,
+		configureAzureOpenAICommand,
+		testAIProviderCommand,
+		showAICacheInfoCommand,
+		clearAICacheCommand,
+		estimateChangelogCostCommand,
+		showAIUsageCommand,
 		configureCommitRangeCommand,
 		openChangelogPanelCommand,
 		getStyleRecommendationCommand,
@@ -710,10 +1480,10 @@ export function activate(context: vscode.ExtensionContext) {
 	if (!hasShownWelcome) {
 		vscode.window.showInformationMessage(
 			'Welcome to ShipNote AI Changelog Generator! Let\'s get you set up.',
-			'Set API Key', 'Get Style Recommendation'
+			'Choose AI Provider', 'Get Style Recommendation'
 		).then((selection) => {
-			if (selection === 'Set API Key') {
-				vscode.commands.executeCommand('shipnote-ai.setOpenAIKey');
+			if (selection === 'Choose AI Provider') {
+				vscode.commands.executeCommand('shipnote-ai.selectAIProvider');
 			} else if (selection === 'Get Style Recommendation') {
 				vscode.commands.executeCommand('shipnote-ai.getStyleRecommendation');
 			}
@@ -722,43 +1492,205 @@ export function activate(context: vscode.ExtensionContext) {
 	}
 }
 
-async function insertIntoChangelog(changelog: string): Promise<void> {
+/**
+ * Report a failed command, unless the user cancelled it by declining the estimated cost
+ */
+function showCommandError(action: string, error: unknown): void {
+	if (error instanceof CostNotConfirmedError) {
+		return;
+	}
+	vscode.window.showErrorMessage(`Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+}
+
+async function ensureAIProviderReady(aiService: AIService): Promise<boolean> {
+	const primaryProvider = aiService.getPrimaryProvider();
+	if (aiService.isProviderConfigured(primaryProvider)) {
+		return true;
+	}
+
+	const activeProvider = aiService.getActiveProviderType();
+	const continueOption = `Continue with ${activeProvider}`;
+	const result = await vscode.window.showWarningMessage(
+		`The ${primaryProvider} provider is not configured. Would you like to set its API key now?`,
+		'Set API Key',
+		continueOption,
+		'Cancel'
+	);
+
+	if (result === 'Set API Key') {
+		await vscode.commands.executeCommand('shipnote-ai.setProviderApiKey', primaryProvider);
+		return false;
+	}
+
+	return result === continueOption;
+}
+
+/**
+ * Ask before a run whose estimated cost is above the threshold; runs with a model that has no known price
+ * are held to the token threshold instead
+ */
+async function confirmEstimatedCost(estimate: CostEstimate, costThreshold: number, tokenThreshold: number): Promise<boolean> {
+	const withinThreshold = estimate.cost === undefined
+		? estimate.inputTokens + estimate.outputTokens <= tokenThreshold
+		: estimate.cost <= costThreshold;
+	if (withinThreshold) {
+		return true;
+	}
+
+	const unpriced = estimate.cost === undefined ? `${estimate.model} has no price in shipnote-ai.modelPrices. ` : '';
+	const result = await vscode.window.showWarningMessage(
+		`${unpriced}This run is estimated at ${describeCostEstimate(estimate)}. Continue?`,
+		{ modal: true },
+		'Continue'
+	);
+	return result === 'Continue';
+}
+
+function describeCostEstimate(estimate: CostEstimate): string {
+	const cached = estimate.cachedCommits > 0 ? `, ${estimate.cachedCommits} cached` : '';
+	return `${formatCost(estimate.cost)} for ${estimate.commits} commits${cached} with ${estimate.model} `
+		+ `(~${estimate.inputTokens} prompt tokens, up to ${estimate.outputTokens} completion tokens in ${estimate.requests} requests)`;
+}
+
+const PREVIEW_SCHEME = 'shipnote-ai-preview';
+const previewContents = new Map<string, string>();
+
+/**
+ * Text of a file; undefined when it does not exist
+ */
+async function readTextFile(uri: vscode.Uri): Promise<string | undefined> {
+	try {
+		return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Pick the version of the release: a bump of the latest version tag or a custom version
+ */
+async function pickReleaseVersion(latestTag?: string): Promise<string | undefined> {
+	const current = (latestTag && parseVersion(latestTag)) || { major: 0, minor: 0, patch: 0, prerelease: [] };
+	const items: Array<vscode.QuickPickItem & { version?: string }> = (['patch', 'minor', 'major'] as BumpType[]).map(bump => {
+		const version = formatVersion(bumpVersion(current, bump));
+		return { label: version, description: `${bump} bump`, version };
+	});
+	items.push({ label: '$(edit) Enter a custom version...' });
+
+	const selection = await vscode.window.showQuickPick(items, {
+		placeHolder: `Current version: ${latestTag || 'none'}`,
+		title: 'Finalize Release'
+	});
+	if (!selection) {
+		return undefined;
+	}
+
+	const version = selection.version || await vscode.window.showInputBox({
+		prompt: 'Enter the version for this release',
+		validateInput: value => parseVersion(value) ? null : 'Please enter a semantic version such as 1.4.0 or 2.0.0-rc.1'
+	});
+	return version?.replace(/^v/, '');
+}
+
+/**
+ * Show a file change in the diff editor and ask before it is written
+ */
+async function confirmFileChange(uri: vscode.Uri, updated: string, title: string): Promise<boolean> {
+	const previewUri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: uri.path });
+	previewContents.set(previewUri.path, updated);
+	try {
+		await vscode.commands.executeCommand('vscode.diff', uri, previewUri, `${title} (preview)`);
+		const answer = await vscode.window.showInformationMessage(`${title}?`, { modal: true }, 'Apply');
+		return answer === 'Apply';
+	} finally {
+		previewContents.delete(previewUri.path);
+	}
+}
+
+/**
+ * Show text such as a diff or a tag message in an editor and ask before going on
+ */
+async function confirmPreview(content: string, language: string, question: string, action: string): Promise<boolean> {
+	const doc = await vscode.workspace.openTextDocument({ content, language });
+	await vscode.window.showTextDocument(doc, { preview: true });
+	const answer = await vscode.window.showInformationMessage(question, { modal: true }, action);
+	return answer === action;
+}
+
+/**
+ * Merge the changelog into the configured changelog file, replacing the section of the same version
+ */
+async function insertIntoChangelog(changelog: string, fileName: string): Promise<void> {
 	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 	if (!workspaceFolder) {
 		throw new Error('No workspace folder found');
 	}
 
-	const changelogPath = vscode.Uri.joinPath(workspaceFolder.uri, 'CHANGELOG.md');
-	
-	try {
-		// Try to read existing changelog
-		const existingContent = await vscode.workspace.fs.readFile(changelogPath);
-		const existingText = Buffer.from(existingContent).toString('utf8');
-		
-		// Insert new changelog at the top (after any title)
-		const lines = existingText.split('\n');
-		let insertIndex = 0;
-		
-		// Skip title if it exists
-		if (lines[0]?.startsWith('# ')) {
-			insertIndex = 2; // Skip title and empty line
-		}
-		
-		lines.splice(insertIndex, 0, changelog, '');
-		const newContent = lines.join('\n');
-		
-		await vscode.workspace.fs.writeFile(changelogPath, Buffer.from(newContent, 'utf8'));
-	} catch (error) {
-		// File doesn't exist, create it
-		const content = `# Changelog\n\nAll notable changes to this project will be documented in this file.\n\n${changelog}`;
-		await vscode.workspace.fs.writeFile(changelogPath, Buffer.from(content, 'utf8'));
-	}
-	
+	const changelogPath = resolveChangelogPath(workspaceFolder.uri.fsPath, fileName);
+	await updateChangelogFile(changelogPath, changelog);
+
 	// Open the file
 	const doc = await vscode.workspace.openTextDocument(changelogPath);
 	await vscode.window.showTextDocument(doc);
-	
-	vscode.window.showInformationMessage('Changelog inserted into CHANGELOG.md');
+
+	vscode.window.showInformationMessage(`Changelog updated in ${fileName}`);
+}
+
+async function showChangelogActions(
+	changelog: string,
+	release: Release | null,
+	configService: ConfigService
+): Promise<void> {
+	const renderer = createRenderer(configService.getOutputFormat());
+	const insertAction = `Update ${configService.getOutputFileName()}`;
+	const actions = ['Copy to Clipboard', 'Show in Editor'];
+	if (renderer.languageId === 'markdown') {
+		actions.unshift(insertAction);
+	}
+	if (release) {
+		actions.push('Save as JSON');
+	}
+	const action = await vscode.window.showInformationMessage(
+		'Changelog generated successfully!',
+		...actions
+	);
+
+	switch (action) {
+		case insertAction:
+			await insertIntoChangelog(changelog, configService.getOutputFileName());
+			break;
+		case 'Save as JSON':
+			if (release) {
+				await saveReleaseJSON(release, configService.getJSONOutputFileName());
+			}
+			break;
+		case 'Copy to Clipboard':
+			await vscode.env.clipboard.writeText(changelog);
+			vscode.window.showInformationMessage('Changelog copied to clipboard!');
+			break;
+		case 'Show in Editor':
+			const doc = await vscode.workspace.openTextDocument({
+				content: changelog,
+				language: renderer.languageId
+			});
+			await vscode.window.showTextDocument(doc);
+			break;
+	}
+}
+
+async function saveReleaseJSON(release: Release, fileName: string): Promise<void> {
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	if (!workspaceFolder) {
+		throw new Error('No workspace folder found');
+	}
+
+	const jsonPath = vscode.Uri.joinPath(workspaceFolder.uri, fileName);
+	await vscode.workspace.fs.writeFile(jsonPath, Buffer.from(`${releaseToJSON(release)}\n`, 'utf8'));
+
+	const doc = await vscode.workspace.openTextDocument(jsonPath);
+	await vscode.window.showTextDocument(doc);
+
+	vscode.window.showInformationMessage(`Release data saved to ${fileName}`);
 }
 
 export function deactivate() {
@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ChangelogEntry, CommitInfo } from './providers';
+import type { PathFilter } from './path-filter';
+
+/**
+ * Everything that influences the AI's answer for a commit
+ */
+export interface CacheKeyParts {
+	commitHash: string;
+	/**
+	 * Hash of the message the AI is shown, see `hashCommitMessage`
+	 */
+	messageHash: string;
+	/**
+	 * Hash of the path filter and diff token budget that shaped the diff the AI is shown, see `hashDiffSettings`
+	 */
+	diffSettingsHash: string;
+	provider: string;
+	model: string;
+	style: string;
+	promptFingerprint: string;
+}
+
+export interface CacheStats {
+	entries: number;
+	maxEntries: number;
+	sizeBytes: number;
+	hits: number;
+	misses: number;
+	oldestEntry?: Date;
+	newestEntry?: Date;
+}
+
+interface CacheRecord {
+	commitHash: string;
+	provider: string;
+	model: string;
+	style: string;
+	entry: Omit<ChangelogEntry, 'commit'>;
+	createdAt: number;
+	lastAccessed: number;
+}
+
+interface CacheFile {
+	version: number;
+	records: Record<string, CacheRecord>;
+}
+
+/**
+ * Hash of a commit's subject and body. A commit can be shown with another message under the same hash,
+ * e.g. a merge standing for its pull request, and must not get the entry of the other.
+ */
+export function hashCommitMessage(commit: CommitInfo): string {
+	return createHash('sha256').update(`${commit.message}\u0000${commit.body || ''}`).digest('hex');
+}
+
+/**
+ * Hash of the settings that decide which part of a commit's diff reaches the AI
+ */
+export function hashDiffSettings(filter: PathFilter, diffTokenBudget: number): string {
+	return createHash('sha256')
+		.update(JSON.stringify([filter.includePaths || [], filter.excludePaths || [], diffTokenBudget]))
+		.digest('hex');
+}
+
+/**
+ * Disk-backed cache of AI changelog entries with least-recently-used eviction
+ */
+export class AIResponseCache {
+	private static readonly FILE_NAME = 'ai-response-cache.json';
+	private static readonly FILE_VERSION = 1;
+
+	private records = new Map<string, CacheRecord>();
+	// Shared by concurrent lookups, so the file is read once and nobody sees a half-loaded cache
+	private loading?: Promise<void>;
+	private dirty = false;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(
+		private storageDir: string,
+		private maxEntries: number = 5000
+	) {}
+
+	/**
+	 * Look up a cached entry and re-attach the commit it belongs to
+	 */
+	async get(parts: CacheKeyParts, commit: CommitInfo): Promise<ChangelogEntry | undefined> {
+		await this.load();
+
+		const record = this.records.get(AIResponseCache.buildKey(parts));
+		if (!record) {
+			this.misses++;
+			return undefined;
+		}
+
+		this.hits++;
+		record.lastAccessed = Date.now();
+		this.dirty = true;
+
+		return { ...record.entry, commit };
+	}
+
+	/**
+	 * Check for an entry without counting a hit or miss, e.g. for cost estimates
+	 */
+	async has(parts: CacheKeyParts): Promise<boolean> {
+		await this.load();
+		return this.records.has(AIResponseCache.buildKey(parts));
+	}
+
+	/**
+	 * Store an entry, evicting the least recently used ones beyond the size limit
+	 */
+	async set(parts: CacheKeyParts, entry: ChangelogEntry): Promise<void> {
+		await this.load();
+
+		const { commit, ...rest } = entry;
+		const now = Date.now();
+		this.records.set(AIResponseCache.buildKey(parts), {
+			commitHash: parts.commitHash,
+			provider: parts.provider,
+			model: parts.model,
+			style: parts.style,
+			entry: rest,
+			createdAt: now,
+			lastAccessed: now
+		});
+		this.dirty = true;
+
+		this.evict();
+	}
+
+	/**
+	 * Write pending changes to disk
+	 */
+	async flush(): Promise<void> {
+		if (!this.dirty) {
+			return;
+		}
+
+		const data: CacheFile = {
+			version: AIResponseCache.FILE_VERSION,
+			records: Object.fromEntries(this.records)
+		};
+
+		await fs.promises.mkdir(this.storageDir, { recursive: true });
+
+		// Write to a temporary file first so a crash never leaves a half-written cache
+		const filePath = this.getFilePath();
+		const tempPath = `${filePath}.tmp`;
+		await fs.promises.writeFile(tempPath, JSON.stringify(data), 'utf8');
+		await fs.promises.rename(tempPath, filePath);
+
+		this.dirty = false;
+	}
+
+	/**
+	 * Remove every cached entry
+	 */
+	async clear(): Promise<void> {
+		// A load still in flight would bring the removed records back
+		await this.load();
+		this.records.clear();
+		this.dirty = false;
+		this.hits = 0;
+		this.misses = 0;
+
+		try {
+			await fs.promises.unlink(this.getFilePath());
+		} catch {
+			// Nothing cached on disk yet
+		}
+	}
+
+	/**
+	 * Get cache size and hit statistics
+	 */
+	async getStats(): Promise<CacheStats> {
+		await this.load();
+
+		const createdTimes = [...this.records.values()].map(record => record.createdAt);
+		let sizeBytes = 0;
+		try {
+			sizeBytes = (await fs.promises.stat(this.getFilePath())).size;
+		} catch {
+			// Cache file not written yet
+		}
+
+		return {
+			entries: this.records.size,
+			maxEntries: this.maxEntries,
+			sizeBytes,
+			hits: this.hits,
+			misses: this.misses,
+			oldestEntry: createdTimes.length ? new Date(Math.min(...createdTimes)) : undefined,
+			newestEntry: createdTimes.length ? new Date(Math.max(...createdTimes)) : undefined
+		};
+	}
+
+	/**
+	 * Change the size limit, evicting immediately if it shrank
+	 */
+	setMaxEntries(maxEntries: number): void {
+		this.maxEntries = maxEntries;
+		this.evict();
+	}
+
+	/**
+	 * Build a stable cache key from its parts
+	 */
+	static buildKey(parts: CacheKeyParts): string {
+		return createHash('sha256')
+			.update([parts.commitHash, parts.messageHash, parts.diffSettingsHash, parts.provider, parts.model, parts.style, parts.promptFingerprint].join('\u0000'))
+			.digest('hex');
+	}
+
+	private evict(): void {
+		if (this.records.size <= this.maxEntries) {
+			return;
+		}
+
+		const byAge = [...this.records.entries()].sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+		const excess = this.records.size - this.maxEntries;
+		for (const [key] of byAge.slice(0, excess)) {
+			this.records.delete(key);
+		}
+		this.dirty = true;
+	}
+
+	private async load(): Promise<void> {
+		this.loading ??= this.readFromDisk();
+		await this.loading;
+	}
+
+	private async readFromDisk(): Promise<void> {
+		try {
+			const content = await fs.promises.readFile(this.getFilePath(), 'utf8');
+			const data = JSON.parse(content) as CacheFile;
+
+			// Discard caches written by an incompatible version
+			if (data.version !== AIResponseCache.FILE_VERSION || !data.records) {
+				return;
+			}
+
+			// Entries stored while the file was being read are newer
+			for (const [key, record] of Object.entries(data.records)) {
+				if (!this.records.has(key)) {
+					this.records.set(key, record);
+				}
+			}
+			this.evict();
+		} catch {
+			// Missing or corrupt cache file: start empty
+		}
+	}
+
+	private getFilePath(): string {
+		return path.join(this.storageDir, AIResponseCache.FILE_NAME);
+	}
+}
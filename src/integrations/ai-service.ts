@@ -5,8 +5,47 @@ import {
 	AIProviderConfig, 
 	ChangelogEntry, 
 	CommitInfo,
-	createAIProvider 
+	PromptTemplate,
+	PROMPT_TEMPLATE_DIR,
+	UsageStats,
+	createAIProvider,
+	loadPromptTemplates,
+	providerFactory
 } from './providers';
+import { AIResponseCache, CacheKeyParts, hashCommitMessage, hashDiffSettings } from './ai-cache';
+import { CostEstimate, ModelPrice, calculateCost, findModelPrice, formatCost } from './cost-estimator';
+import { UsageRecord } from './usage-log';
+import { StyleRegistry } from '../config/styleRegistry';
+
+/**
+ * Fills in the diffs of commits listed without them, e.g. `GitService.loadDiffs`
+ */
+export type DiffLoader = (commits: CommitInfo[]) => Promise<void>;
+
+/**
+ * Decides whether a run may go ahead once its cost is estimated
+ */
+export type CostConfirmation = (estimate: CostEstimate) => Promise<boolean>;
+
+/**
+ * Receives the estimated and reported usage of each run
+ */
+export type UsageRecorder = (record: UsageRecord) => Promise<void>;
+
+/**
+ * Thrown when the estimated cost of a run was not confirmed
+ */
+export class CostNotConfirmedError extends Error {
+	constructor(readonly estimate: CostEstimate) {
+		super(`Cancelled: the estimated cost of ${formatCost(estimate.cost)} was not confirmed`);
+		this.name = 'CostNotConfirmedError';
+	}
+}
+
+/**
+ * Cache key parts shared by every commit of a run
+ */
+type CacheKeyBase = Omit<CacheKeyParts, 'commitHash' | 'messageHash' | 'diffSettingsHash'> & { diffTokenBudget: number };
 
 export interface MultiAIConfig {
 	primaryProvider: AIProviderType;
@@ -15,8 +54,16 @@ export interface MultiAIConfig {
 }
 
 export class AIService {
+	private static readonly LEGACY_OPENAI_KEY = 'shipnote-ai.openaiKey';
+	private static readonly KEYLESS_PROVIDERS: AIProviderType[] = ['local', 'offline'];
+
 	private providers: Map<AIProviderType, AIProvider> = new Map();
 	private config: MultiAIConfig;
+	private responseCache?: AIResponseCache;
+	private diffLoader?: DiffLoader;
+	private costConfirmation?: CostConfirmation;
+	private usageRecorder?: UsageRecorder;
+	private promptTemplate?: PromptTemplate;
 
 	constructor(
 		private context: vscode.ExtensionContext,
@@ -34,8 +81,10 @@ export class AIService {
 	 * Initialize AI service with current configuration
 	 */
 	async initialize(): Promise<void> {
+		this.promptTemplate = await this.loadSelectedPromptTemplate();
+
 		// Get all supported provider types
-		const supportedProviders: AIProviderType[] = ['openai', 'anthropic', 'google', 'offline'];
+		const supportedProviders = providerFactory.getSupportedProviders();
 
 		for (const providerType of supportedProviders) {
 			try {
@@ -44,7 +93,7 @@ export class AIService {
 				// Get provider configuration
 				const config = await this.getProviderConfig(providerType);
 				
-				if (config.apiKey || providerType === 'offline') {
+				if (config.apiKey || AIService.KEYLESS_PROVIDERS.includes(providerType)) {
 					await provider.initialize(config);
 					this.providers.set(providerType, provider);
 				}
@@ -58,35 +107,279 @@ export class AIService {
 	 * Get the primary provider (with fallback)
 	 */
 	private getProvider(): AIProvider {
+		return this.providers.get(this.getActiveProviderType())!;
+	}
+
+	/**
+	 * Resolve which provider will handle requests: primary, then fallback, then offline
+	 */
+	getActiveProviderType(): AIProviderType {
 		// Try primary provider first
-		const primary = this.providers.get(this.config.primaryProvider);
-		if (primary?.isConfigured()) {
-			return primary;
+		if (this.isProviderConfigured(this.config.primaryProvider)) {
+			return this.config.primaryProvider;
 		}
 
 		// Try fallback provider
-		if (this.config.fallbackProvider) {
-			const fallback = this.providers.get(this.config.fallbackProvider);
-			if (fallback?.isConfigured()) {
-				return fallback;
-			}
+		if (this.config.fallbackProvider && this.isProviderConfigured(this.config.fallbackProvider)) {
+			return this.config.fallbackProvider;
 		}
 
 		// Last resort: offline provider
-		const offline = this.providers.get('offline');
-		if (offline) {
-			return offline;
+		if (this.providers.has('offline')) {
+			return 'offline';
 		}
 
 		throw new Error('No AI provider is available');
 	}
 
 	/**
-	 * Process commits using the best available provider
+	 * Check whether a provider has been initialized and is ready to use
+	 */
+	isProviderConfigured(providerType: AIProviderType): boolean {
+		return !!this.providers.get(providerType)?.isConfigured();
+	}
+
+	/**
+	 * Apply updated primary/fallback selection (e.g. after a settings change)
+	 */
+	updateConfig(config: Partial<MultiAIConfig>): void {
+		this.config = {
+			...this.config,
+			...config
+		};
+	}
+
+	/**
+	 * Attach (or detach) the persistent response cache
+	 */
+	setResponseCache(cache: AIResponseCache | undefined): void {
+		this.responseCache = cache;
+	}
+
+	/**
+	 * Set how diffs are fetched for commits that are sent to a provider
+	 */
+	setDiffLoader(loader: DiffLoader | undefined): void {
+		this.diffLoader = loader;
+	}
+
+	/**
+	 * Ask before runs are sent to a provider; declining cancels the run with a CostNotConfirmedError
+	 */
+	setCostConfirmation(confirmation: CostConfirmation | undefined): void {
+		this.costConfirmation = confirmation;
+	}
+
+	/**
+	 * Set where the usage of each run is recorded
+	 */
+	setUsageRecorder(recorder: UsageRecorder | undefined): void {
+		this.usageRecorder = recorder;
+	}
+
+	/**
+	 * Estimate what processing the commits would cost with the active provider; cached commits are free.
+	 * Undefined when the provider cannot count its prompts.
+	 */
+	async estimateCost(commits: CommitInfo[], style: string): Promise<CostEstimate | undefined> {
+		const providerType = this.getActiveProviderType();
+		const provider = this.getProvider();
+
+		const uncached: CommitInfo[] = [];
+		if (this.responseCache && providerType !== 'offline') {
+			const keyBase = this.getCacheKeyBase(providerType, provider, style);
+			for (const commit of commits) {
+				if (!await this.responseCache.has(this.getCacheKey(keyBase, commit))) {
+					uncached.push(commit);
+				}
+			}
+		} else {
+			uncached.push(...commits);
+		}
+
+		// Prompt size depends on the diffs
+		await this.loadDiffs(uncached);
+		return this.buildCostEstimate(providerType, provider, uncached, style, commits.length - uncached.length);
+	}
+
+	/**
+	 * Process commits using the best available provider, reusing cached entries where possible
 	 */
 	async processCommits(commits: CommitInfo[], style: string): Promise<ChangelogEntry[]> {
+		const providerType = this.getActiveProviderType();
 		const provider = this.getProvider();
-		return await provider.processCommits(commits, style);
+
+		// Offline results are deterministic and free, so there is nothing worth caching
+		if (!this.responseCache || providerType === 'offline') {
+			return await this.runProvider(providerType, provider, commits, style, 0);
+		}
+
+		const cache = this.responseCache;
+		const keyBase = this.getCacheKeyBase(providerType, provider, style);
+
+		const cached = new Map<string, ChangelogEntry>();
+		const uncached: CommitInfo[] = [];
+		try {
+			for (const commit of commits) {
+				const entry = await cache.get(this.getCacheKey(keyBase, commit), commit);
+				if (entry) {
+					cached.set(commit.hash, entry);
+				} else {
+					uncached.push(commit);
+				}
+			}
+		} catch (error) {
+			console.error('AI response cache lookup failed:', error);
+			return await this.runProvider(providerType, provider, commits, style, 0);
+		}
+
+		// Cached commits never need their diff and cost nothing
+		const fresh = uncached.length > 0
+			? await this.runProvider(providerType, provider, uncached, style, cached.size)
+			: [];
+
+		try {
+			// Entries produced by the local fallback are retried next time instead of cached
+			for (const entry of fresh.filter(entry => !entry.fallback)) {
+				await cache.set(this.getCacheKey(keyBase, entry.commit), entry);
+			}
+			await cache.flush();
+		} catch (error) {
+			console.error('Failed to update AI response cache:', error);
+		}
+
+		// Keep the original commit order
+		const freshByHash = new Map(fresh.map(entry => [entry.commit.hash, entry]));
+		return commits
+			.map(commit => cached.get(commit.hash) || freshByHash.get(commit.hash))
+			.filter((entry): entry is ChangelogEntry => !!entry);
+	}
+
+	/**
+	 * Send commits to the provider: load their diffs, confirm the estimated cost, then record the usage
+	 */
+	private async runProvider(
+		providerType: AIProviderType,
+		provider: AIProvider,
+		commits: CommitInfo[],
+		style: string,
+		cachedCommits: number
+	): Promise<ChangelogEntry[]> {
+		await this.loadDiffs(commits);
+
+		// Offline processing sends nothing, so there is nothing to confirm or record
+		if (providerType === 'offline') {
+			return await provider.processCommits(commits, style);
+		}
+
+		const estimate = this.buildCostEstimate(providerType, provider, commits, style, cachedCommits);
+		if (estimate && this.costConfirmation && !await this.costConfirmation(estimate)) {
+			throw new CostNotConfirmedError(estimate);
+		}
+
+		const before = await provider.getUsageStats?.();
+		const entries = await provider.processCommits(commits, style);
+		const after = await provider.getUsageStats?.();
+
+		if (estimate && before && after && this.usageRecorder) {
+			try {
+				await this.usageRecorder(this.buildUsageRecord(providerType, estimate, before, after));
+			} catch (error) {
+				console.error('Failed to record AI usage:', error);
+			}
+		}
+
+		return entries;
+	}
+
+	private getCacheKeyBase(providerType: AIProviderType, provider: AIProvider, style: string): CacheKeyBase {
+		return {
+			provider: providerType,
+			model: provider.getModel?.() || provider.defaultModel,
+			style,
+			promptFingerprint: provider.getPromptFingerprint?.(style) || '',
+			diffTokenBudget: provider.getDiffTokenBudget?.() || 0
+		};
+	}
+
+	private getCacheKey(keyBase: CacheKeyBase, commit: CommitInfo): CacheKeyParts {
+		const { diffTokenBudget, ...parts } = keyBase;
+		return {
+			...parts,
+			commitHash: commit.hash,
+			messageHash: hashCommitMessage(commit),
+			diffSettingsHash: hashDiffSettings(commit.pathFilter || {}, diffTokenBudget)
+		};
+	}
+
+	private buildCostEstimate(
+		providerType: AIProviderType,
+		provider: AIProvider,
+		commits: CommitInfo[],
+		style: string,
+		cachedCommits: number
+	): CostEstimate | undefined {
+		const usage = providerType === 'offline'
+			? { requests: 0, inputTokens: 0, outputTokens: 0 }
+			: provider.estimateUsage?.(commits, style);
+		if (!usage) {
+			return undefined;
+		}
+
+		const model = provider.getModel?.() || provider.defaultModel;
+		const price = this.getModelPrice(providerType, model);
+		return {
+			...usage,
+			provider: providerType,
+			model,
+			commits: commits.length,
+			cachedCommits,
+			cost: price ? calculateCost(usage, price) : undefined
+		};
+	}
+
+	private buildUsageRecord(providerType: AIProviderType, estimate: CostEstimate, before: UsageStats, after: UsageStats): UsageRecord {
+		const inputTokens = (after.inputTokens || 0) - (before.inputTokens || 0);
+		const outputTokens = (after.outputTokens || 0) - (before.outputTokens || 0);
+		// Some APIs only report a total, which cannot be priced
+		const split = inputTokens + outputTokens > 0;
+		const price = this.getModelPrice(providerType, estimate.model);
+
+		return {
+			date: new Date().toISOString(),
+			provider: providerType,
+			model: estimate.model,
+			commits: estimate.commits,
+			estimate: {
+				inputTokens: estimate.inputTokens,
+				outputTokens: estimate.outputTokens,
+				cost: estimate.cost
+			},
+			actual: {
+				requests: after.requestsCount - before.requestsCount,
+				totalTokens: after.tokensUsed - before.tokensUsed,
+				inputTokens: split ? inputTokens : undefined,
+				outputTokens: split ? outputTokens : undefined,
+				cost: split && price ? calculateCost({ inputTokens, outputTokens }, price) : undefined
+			}
+		};
+	}
+
+	/**
+	 * Price of a model from `shipnote-ai.modelPrices` and the built-in table; local and offline runs are free
+	 */
+	private getModelPrice(providerType: AIProviderType, model: string): ModelPrice | undefined {
+		if (AIService.KEYLESS_PROVIDERS.includes(providerType)) {
+			return { input: 0, output: 0 };
+		}
+		const prices = vscode.workspace.getConfiguration('shipnote-ai').get('modelPrices', {}) as Record<string, ModelPrice>;
+		return findModelPrice(model, prices);
+	}
+
+	private async loadDiffs(commits: CommitInfo[]): Promise<void> {
+		if (this.diffLoader && commits.length > 0) {
+			await this.diffLoader(commits);
+		}
 	}
 
 	/**
@@ -170,7 +463,14 @@ export class AIService {
 	 */
 	async getProviderApiKey(providerType: AIProviderType): Promise<string | undefined> {
 		const storageKey = `${providerType}ApiKey`;
-		return await this.context.secrets.get(storageKey);
+		const apiKey = await this.context.secrets.get(storageKey);
+
+		// Keys saved before multi-provider support live under the legacy OpenAI slot
+		if (!apiKey && providerType === 'openai') {
+			return await this.context.secrets.get(AIService.LEGACY_OPENAI_KEY);
+		}
+
+		return apiKey;
 	}
 
 	/**
@@ -230,7 +530,8 @@ export class AIService {
 	}
 
 	/**
-	 * Get provider configuration from storage and settings
+	 * Get provider configuration from storage and settings.
+	 * `providerConfigs` only fills in what the dedicated settings (API key, model, endpoint, ...) leave unset.
 	 */
 	private async getProviderConfig(providerType: AIProviderType): Promise<AIProviderConfig> {
 		const apiKey = await this.getProviderApiKey(providerType);
@@ -243,16 +544,89 @@ export class AIService {
 		// Get common settings
 		const maxTokens = config.get('aiMaxTokens', 200) as number;
 		const temperature = config.get('aiTemperature', 0.3) as number;
-
-		return {
-			apiKey: apiKey || '',
+		const batchPrompts = config.get('batchPrompts', true) as boolean;
+		const batchTokenBudget = config.get('batchTokenBudget', 3000) as number;
+		const diffTokenBudget = config.get('diffTokenBudget', 0) as number;
+		const concurrency = config.get('requestConcurrency', 4) as number;
+		const requestsPerMinute = config.get('requestsPerMinute', 60) as number;
+		const maxRetries = config.get('maxRetries', 3) as number;
+		const customStyles = new StyleRegistry(config.get('customStyles', []) as unknown[])
+			.getAll()
+			.filter(style => !style.builtIn);
+
+		const settings = AIService.definedSettings({
+			apiKey,
 			model,
 			maxTokens,
 			temperature,
-			...this.config.providerConfigs[providerType]
+			batchPrompts,
+			batchTokenBudget,
+			diffTokenBudget,
+			concurrency,
+			requestsPerMinute,
+			maxRetries,
+			promptTemplate: this.promptTemplate,
+			customStyles,
+			...this.getConnectionSettings(providerType)
+		});
+
+		return {
+			apiKey: '',
+			...this.config.providerConfigs[providerType],
+			...settings
 		};
 	}
 
+	// Unset settings fall back to `providerConfigs` instead of overwriting it with nothing
+	private static definedSettings(settings: Partial<AIProviderConfig>): Partial<AIProviderConfig> {
+		return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined && value !== ''));
+	}
+
+	/**
+	 * Load the prompt template chosen in settings from the workspace's `.shipnote/prompts/` folder
+	 */
+	private async loadSelectedPromptTemplate(): Promise<PromptTemplate | undefined> {
+		const name = vscode.workspace.getConfiguration('shipnote-ai').get('promptTemplate', '') as string;
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+		if (!name || !workspaceFolder) {
+			return undefined;
+		}
+
+		const { templates, errors } = await loadPromptTemplates(workspaceFolder.uri.fsPath);
+		const template = templates.find(t => t.name === name);
+		if (template) {
+			return template;
+		}
+
+		const error = errors.find(e => e.templateName === name);
+		vscode.window.showWarningMessage(
+			`${error ? error.message : `Prompt template "${name}" not found in ${PROMPT_TEMPLATE_DIR}`}. Using the built-in prompt.`
+		);
+		return undefined;
+	}
+
+	/**
+	 * Get endpoint-related settings for providers that are not reached through a fixed public URL
+	 */
+	private getConnectionSettings(providerType: AIProviderType): Partial<AIProviderConfig> {
+		const config = vscode.workspace.getConfiguration('shipnote-ai');
+
+		switch (providerType) {
+			case 'azure':
+				return {
+					endpoint: config.get<string>('azureOpenAI.endpoint') || undefined,
+					deploymentName: config.get<string>('azureOpenAI.deploymentName') || undefined,
+					apiVersion: config.get<string>('azureOpenAI.apiVersion') || undefined
+				};
+			case 'local':
+				return {
+					endpoint: config.get<string>('localLLM.baseUrl') || undefined
+				};
+			default:
+				return {};
+		}
+	}
+
 	/**
 	 * Test a provider connection
 	 */
@@ -267,6 +641,12 @@ export class AIService {
 				return { success: false, error: 'Provider not configured' };
 			}
 
+			// Providers that can verify their connection report the real error
+			if (provider.testConnection) {
+				await provider.testConnection();
+				return { success: true };
+			}
+
 			// Test with a simple commit
 			const testCommit: CommitInfo = {
 				hash: 'test123',
@@ -0,0 +1,70 @@
+import { CommitInfo } from './git';
+import { getParsedCommit } from './conventional-commits';
+
+export interface AuthorIdentityOptions {
+	/**
+	 * Author names or emails mapped to the name they should appear under
+	 */
+	aliases?: Record<string, string>;
+	/**
+	 * Name or email patterns of authors to leave out, e.g. `*[bot]`; `*` matches any text
+	 */
+	excludeAuthors?: string[];
+}
+
+/**
+ * Turns the names and emails found in commits into one identity per person and filters out bots.
+ * Git already applies `.mailmap` to `%aN`/`%aE`; aliases cover what the mailmap does not.
+ */
+export class AuthorIdentityResolver {
+	private readonly aliases: Map<string, string>;
+	private readonly excludePatterns: RegExp[];
+
+	constructor(options: AuthorIdentityOptions = {}) {
+		this.aliases = new Map(
+			Object.entries(options.aliases || {}).map(([alias, name]) => [alias.trim().toLowerCase(), name])
+		);
+		this.excludePatterns = (options.excludeAuthors || []).map(pattern => new RegExp(
+			`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`,
+			'i'
+		));
+	}
+
+	/**
+	 * Canonical name for an author; the email alias wins over the name alias
+	 */
+	resolve(name: string, email?: string): string {
+		return (email && this.aliases.get(email.trim().toLowerCase()))
+			|| this.aliases.get(name.trim().toLowerCase())
+			|| name;
+	}
+
+	/**
+	 * Check whether the author matches an exclude pattern by name, email or canonical name
+	 */
+	isExcluded(name: string, email?: string): boolean {
+		const identities = [name, email, this.resolve(name, email)].filter((identity): identity is string => !!identity);
+		return this.excludePatterns.some(pattern => identities.some(identity => pattern.test(identity)));
+	}
+
+	/**
+	 * Drop commits by excluded authors and rename authors and co-authors to their canonical names
+	 */
+	applyToCommits(commits: CommitInfo[]): CommitInfo[] {
+		return commits
+			.filter(commit => !this.isExcluded(commit.author, commit.email))
+			.map(commit => {
+				const parsed = getParsedCommit(commit);
+				return {
+					...commit,
+					author: this.resolve(commit.author, commit.email),
+					parsed: {
+						...parsed,
+						coAuthors: parsed.coAuthors
+							.filter(coAuthor => !this.isExcluded(coAuthor.name, coAuthor.email))
+							.map(coAuthor => ({ ...coAuthor, name: this.resolve(coAuthor.name, coAuthor.email) }))
+					}
+				};
+			});
+	}
+}
@@ -0,0 +1,158 @@
+export interface BreakingChangeInfo {
+	breaking: boolean;
+	/**
+	 * Text of the `BREAKING CHANGE:` footer, which usually explains how to migrate
+	 */
+	note?: string;
+}
+
+export interface CommitFooter {
+	/**
+	 * Footer token as written, e.g. "Refs", "Co-authored-by" or "BREAKING CHANGE"
+	 */
+	token: string;
+	value: string;
+}
+
+export interface CommitCoAuthor {
+	name: string;
+	email?: string;
+}
+
+export interface RevertInfo {
+	/**
+	 * Header of the reverted commit
+	 */
+	header: string;
+	hash?: string;
+}
+
+/**
+ * A commit message split up according to https://www.conventionalcommits.org/en/v1.0.0/
+ */
+export interface ParsedCommit {
+	/**
+	 * Lower-case type; undefined when the header is not a conventional commit
+	 */
+	type?: string;
+	scope?: string;
+	/**
+	 * Header text after the `type(scope):` prefix, or the whole header
+	 */
+	subject: string;
+	/**
+	 * Free text between the header and the footers
+	 */
+	body: string;
+	footers: CommitFooter[];
+	breaking: boolean;
+	breakingNote?: string;
+	/**
+	 * Issues referenced by `Refs`, `Closes`, `Fixes` or `Resolves` footers, e.g. "#42" or "PROJ-7"
+	 */
+	references: string[];
+	coAuthors: CommitCoAuthor[];
+	revert?: RevertInfo;
+}
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.*)$/;
+const FOOTER_PATTERN = /^(BREAKING[ -]CHANGE|[\w-]+)(?:: | #)/;
+const REFERENCE_TOKENS = ['refs', 'references', 'closes', 'close', 'fixes', 'fix', 'resolves', 'resolve'];
+const REVERT_HEADER_PATTERN = /^Revert "(.+)"$/;
+const REVERT_HASH_PATTERN = /This reverts commit ([0-9a-f]{7,40})/i;
+
+/**
+ * Parse a full commit message: header, body and footers
+ */
+export function parseCommitMessage(message: string): ParsedCommit {
+	const lines = message.replace(/\r\n/g, '\n').trim().split('\n');
+	const header = lines[0]?.trim() || '';
+	const paragraphs = lines.slice(1).join('\n').trim().split(/\n\s*\n/).filter(paragraph => paragraph.trim());
+
+	// Footers are the trailing paragraphs that start with a `Token: value` pair
+	let footerStart = paragraphs.length;
+	while (footerStart > 0 && FOOTER_PATTERN.test(paragraphs[footerStart - 1])) {
+		footerStart--;
+	}
+
+	const footers = parseFooters(paragraphs.slice(footerStart).join('\n'));
+	const headerMatch = header.match(HEADER_PATTERN);
+	const breakingFooter = footers.find(footer => /^BREAKING[ -]CHANGE$/.test(footer.token));
+
+	const parsed: ParsedCommit = {
+		type: headerMatch?.[1].toLowerCase(),
+		scope: headerMatch?.[2]?.trim() || undefined,
+		subject: headerMatch ? headerMatch[4].trim() : header,
+		body: paragraphs.slice(0, footerStart).join('\n\n'),
+		footers,
+		breaking: !!headerMatch?.[3] || !!breakingFooter,
+		breakingNote: breakingFooter?.value.replace(/\s*\n\s*/g, ' ').trim() || undefined,
+		references: footers
+			.filter(footer => REFERENCE_TOKENS.includes(footer.token.toLowerCase()))
+			.flatMap(footer => footer.value.split(/[,\s]+/).filter(Boolean)),
+		coAuthors: footers
+			.filter(footer => footer.token.toLowerCase() === 'co-authored-by')
+			.map(footer => parseCoAuthor(footer.value))
+	};
+
+	const revert = detectRevert(parsed, header, message);
+	if (revert) {
+		parsed.revert = revert;
+	}
+
+	return parsed;
+}
+
+/**
+ * Detect a breaking change from a `type!:` header or a `BREAKING CHANGE:` footer
+ */
+export function detectBreakingChange(message: string): BreakingChangeInfo {
+	const parsed = parseCommitMessage(message);
+	return parsed.breakingNote ? { breaking: true, note: parsed.breakingNote } : { breaking: parsed.breaking };
+}
+
+/**
+ * Parsed form of a commit, reusing what GitService already parsed when available
+ */
+export function getParsedCommit(commit: { message: string; body?: string; parsed?: ParsedCommit }): ParsedCommit {
+	if (commit.parsed) {
+		return commit.parsed;
+	}
+	return parseCommitMessage(commit.body ? `${commit.message}\n\n${commit.body}` : commit.message);
+}
+
+function parseFooters(text: string): CommitFooter[] {
+	const footers: CommitFooter[] = [];
+	for (const line of text.split('\n')) {
+		const match = line.match(FOOTER_PATTERN);
+		if (match) {
+			// Keep the `#` of `Closes #42` as part of the issue reference
+			const value = line.substring(match[0].length - (match[0].endsWith('#') ? 1 : 0)).trim();
+			footers.push({ token: match[1], value });
+		} else if (footers.length > 0 && line.trim()) {
+			// Continuation of a multi-line footer value
+			footers[footers.length - 1].value += `\n${line.trim()}`;
+		}
+	}
+	return footers;
+}
+
+function parseCoAuthor(value: string): CommitCoAuthor {
+	const match = value.match(/^(.*?)\s*<([^>]+)>$/);
+	return match ? { name: match[1].trim(), email: match[2].trim() } : { name: value.trim() };
+}
+
+function detectRevert(parsed: ParsedCommit, header: string, message: string): RevertInfo | undefined {
+	const hash = message.match(REVERT_HASH_PATTERN)?.[1];
+
+	// `git revert` writes `Revert "<header>"`; Conventional Commits use the `revert:` type
+	const gitRevert = header.match(REVERT_HEADER_PATTERN);
+	if (gitRevert) {
+		return { header: gitRevert[1], hash };
+	}
+	if (parsed.type === 'revert') {
+		return { header: parsed.subject, hash };
+	}
+
+	return undefined;
+}
@@ -0,0 +1,79 @@
+import { UsageEstimate } from './providers';
+
+/**
+ * Price in US dollars per million tokens
+ */
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+/**
+ * Expected usage of a run, before any request is sent
+ */
+export interface CostEstimate extends UsageEstimate {
+	provider: string;
+	model: string;
+	/**
+	 * Commits that will be sent to the provider
+	 */
+	commits: number;
+	/**
+	 * Commits answered from the response cache, which cost nothing
+	 */
+	cachedCommits: number;
+	/**
+	 * US dollars; undefined when the model has no known price
+	 */
+	cost?: number;
+}
+
+/**
+ * List prices of the built-in models; `shipnote-ai.modelPrices` adds to and overrides them
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+	'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+	'gpt-35-turbo': { input: 0.5, output: 1.5 },
+	'gpt-4': { input: 30, output: 60 },
+	'gpt-4o': { input: 2.5, output: 10 },
+	'gpt-4o-mini': { input: 0.15, output: 0.6 },
+	'claude-3-5-sonnet': { input: 3, output: 15 },
+	'claude-3-haiku': { input: 0.25, output: 1.25 },
+	'claude-3-opus': { input: 15, output: 75 },
+	'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+	'gemini-1.5-pro': { input: 1.25, output: 5 },
+	'gemini-1.0-pro': { input: 0.5, output: 1.5 }
+};
+
+/**
+ * Price of a model: an exact match, otherwise the longest entry the model name starts with,
+ * so `claude-3-5-sonnet-20241022` uses `claude-3-5-sonnet`
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice> = {}): ModelPrice | undefined {
+	const table = { ...DEFAULT_MODEL_PRICES, ...prices };
+	if (table[model]) {
+		return table[model];
+	}
+
+	const prefix = Object.keys(table)
+		.filter(name => model.startsWith(name))
+		.sort((a, b) => b.length - a.length)[0];
+	return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Cost in US dollars of the given token counts
+ */
+export function calculateCost(usage: { inputTokens: number; outputTokens: number }, price: ModelPrice): number {
+	return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Format a cost for display; costs below a cent keep four decimals
+ */
+export function formatCost(cost: number | undefined): string {
+	if (cost === undefined) {
+		return 'unknown cost';
+	}
+	return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
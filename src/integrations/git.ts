@@ -1,17 +1,73 @@
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
+import * as path from 'path';
 import { promisify } from 'util';
+import { ParsedCommit, getParsedCommit, parseCommitMessage } from './conventional-commits';
+import { PathFilter, filterDiffByPaths, hasPathFilter, toPathspecs } from './path-filter';
+import type { PullRequestInfo } from './pull-requests';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A branch, tag or commit name that git would not accept, or that could be read as an option
+ */
+export class InvalidRefError extends Error {
+	constructor(readonly ref: string) {
+		super(`Invalid git ref "${ref}"`);
+		this.name = 'InvalidRefError';
+	}
+}
 
-const execAsync = promisify(exec);
+/**
+ * Whether git ran and exited with an error, as opposed to not starting at all
+ */
+function isNonZeroExit(error: unknown): boolean {
+	return typeof (error as { code?: unknown } | undefined)?.code === 'number';
+}
 
 export interface CommitInfo {
 	hash: string;
+	/**
+	 * Subject line
+	 */
 	message: string;
+	/**
+	 * Author name after `.mailmap` is applied
+	 */
 	author: string;
+	email?: string;
 	date: string;
+	/**
+	 * Unified diff; empty until loaded with `GitService.loadDiffs` for commits listed by `git log`
+	 */
 	diff: string;
+	/**
+	 * Paths changed by the commit, relative to the repository root
+	 */
+	files?: string[];
+	/**
+	 * Everything after the subject line, including footers
+	 */
+	body?: string;
+	parsed?: ParsedCommit;
+	/**
+	 * Parent hashes; more than one for merge commits
+	 */
+	parents?: string[];
+	/**
+	 * Set when the commit stands for a merged pull request
+	 */
+	pullRequest?: PullRequestInfo;
+	/**
+	 * Include/exclude globs the listing applied to `files` and `diff`
+	 */
+	pathFilter?: PathFilter;
+	/**
+	 * Set on commits listed by `git log` until `GitService.loadDiffs` fills in their diff
+	 */
+	pendingDiff?: PendingDiff;
 }
 
-export interface CommitRangeOptions {
+export interface CommitRangeOptions extends PathFilter {
 	commitCount?: number;
 	fromDate?: string;
 	toDate?: string;
@@ -31,37 +87,203 @@ export interface BranchInfo {
 	behind?: number;
 }
 
-export interface BranchComparisonOptions {
+/**
+ * How the commits of two branches are compared
+ */
+export type ComparisonStrategy = 'commits' | 'merge-base' | 'one-way' | 'symmetric';
+
+export interface BranchComparisonOptions extends PathFilter {
 	fromBranch: string;
 	toBranch: string;
 	includeUnmerged?: boolean;
 	includeMergeCommits?: boolean;
-	strategy?: 'commits' | 'merge-base' | 'one-way' | 'symmetric';
+	strategy?: ComparisonStrategy;
+}
+
+/**
+ * Where and how to load the diff of a commit listed without it
+ */
+export interface PendingDiff {
+	workspacePath: string;
+	filter: PathFilter;
+	/**
+	 * Diff a merge against its first parent, i.e. everything it brought in
+	 */
+	firstParent?: boolean;
 }
 
 export class GitService {
+	// Control characters cannot appear in commit metadata, so they delimit records and fields safely
+	private static readonly RECORD_SEPARATOR = '\x1e';
+	private static readonly FIELD_SEPARATOR = '\x1f';
+	private static readonly LOG_FORMAT = '%x1e%H%x1f%P%x1f%aN%x1f%aE%x1f%ad%x1f%s%x1f%b%x1f';
+	private static readonly DIFF_BATCH_SIZE = 25;
+	private static readonly MAX_BUFFER = 64 * 1024 * 1024;
+
+	// Conventional Commits types mapped onto the changelog categories
+	private static readonly CONVENTIONAL_TYPES: Record<string, string> = {
+		feat: 'feat',
+		fix: 'fix',
+		docs: 'docs',
+		style: 'style',
+		refactor: 'refactor',
+		perf: 'refactor',
+		test: 'test',
+		chore: 'chore',
+		build: 'chore',
+		ci: 'chore'
+	};
+
 	/**
 	 * Get commits within the specified range
 	 */
 	async getCommits(workspacePath: string, options: CommitRangeOptions): Promise<CommitInfo[]> {
-		const gitCommand = this.buildGitLogCommand(options);
-		
 		try {
-			const { stdout } = await execAsync(gitCommand, { cwd: workspacePath });
-			const commitHashes = stdout.trim().split('\n').filter(Boolean);
-			
-			const commits: CommitInfo[] = [];
-			
-			for (const hash of commitHashes) {
-				const commitInfo = await this.getCommitInfo(workspacePath, hash);
-				if (commitInfo) {
-					commits.push(commitInfo);
+			const args = await this.buildGitLogArgs(workspacePath, options);
+			return await this.readCommitLog(workspacePath, args, options);
+		} catch (error) {
+			if (error instanceof InvalidRefError) {
+				throw error;
+			}
+			throw new Error(`Failed to get commits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Fill in the diffs of commits listed by `getCommits` or `getCommitsBetweenBranches`.
+	 * Diffs are fetched in bulk, a batch of commits per `git show`; commits that already have theirs are skipped.
+	 */
+	async loadDiffs(commits: CommitInfo[]): Promise<void> {
+		// Merges diffed against their first parent need a separate `git show`
+		const groups = new Map<string, { workspacePath: string; firstParent: boolean; commits: CommitInfo[] }>();
+		for (const commit of commits) {
+			const pending = commit.pendingDiff;
+			if (pending) {
+				const key = `${pending.workspacePath}\0${!!pending.firstParent}`;
+				const group = groups.get(key) || { workspacePath: pending.workspacePath, firstParent: !!pending.firstParent, commits: [] };
+				group.commits.push(commit);
+				groups.set(key, group);
+			}
+		}
+
+		for (const { workspacePath, firstParent, commits: repositoryCommits } of groups.values()) {
+			for (let i = 0; i < repositoryCommits.length; i += GitService.DIFF_BATCH_SIZE) {
+				const batch = repositoryCommits.slice(i, i + GitService.DIFF_BATCH_SIZE);
+				const hashes = [...new Set(batch.map(commit => commit.hash))];
+				const diffMerges = firstParent ? ['--diff-merges=first-parent'] : [];
+				const stdout = await this.git(workspacePath, ['show', '--format=%x1e%H', '--unified=1', ...diffMerges, ...hashes]);
+
+				const diffs = new Map<string, string>();
+				for (const record of stdout.split(GitService.RECORD_SEPARATOR).filter(Boolean)) {
+					const newline = record.indexOf('\n');
+					const hash = newline === -1 ? record.trim() : record.substring(0, newline).trim();
+					diffs.set(hash, newline === -1 ? '' : record.substring(newline + 1).trim());
+				}
+
+				for (const commit of batch) {
+					// Keep filtered-out files such as lockfiles away from the AI
+					commit.diff = filterDiffByPaths(diffs.get(commit.hash) || '', commit.pendingDiff?.filter || {});
+					delete commit.pendingDiff;
 				}
 			}
-			
+		}
+	}
+
+	/**
+	 * Check a user-supplied branch, tag or commit name with `git check-ref-format` before it is passed to git.
+	 * Ancestry suffixes such as `HEAD~2` or `v1.0.0^` are allowed.
+	 */
+	async validateRef(workspacePath: string, ref: string): Promise<void> {
+		// A leading dash would be read as an option
+		if (!ref || ref.startsWith('-')) {
+			throw new InvalidRefError(ref);
+		}
+
+		try {
+			// Checking a name needs no repository, so a missing workspace is left for the git call that uses the ref
+			await this.git(undefined, ['check-ref-format', '--allow-onelevel', ref.replace(/(?:[~^]\d*)+$/, '')]);
+		} catch (error) {
+			// Only a rejection by git means the name is invalid; failing to run git is reported as it is
+			throw isNonZeroExit(error) ? new InvalidRefError(ref) : error;
+		}
+	}
+
+	/**
+	 * Run git with an argument list, without a shell, and return its output
+	 */
+	private async git(workspacePath: string | undefined, args: string[]): Promise<string> {
+		const { stdout } = await execFileAsync('git', args, { cwd: workspacePath, maxBuffer: GitService.MAX_BUFFER });
+		return stdout;
+	}
+
+	/**
+	 * Run a `git log` with LOG_FORMAT and parse every commit it lists; diffs are left for `loadDiffs`
+	 */
+	private async readCommitLog(workspacePath: string, logArgs: string[], filter: PathFilter): Promise<CommitInfo[]> {
+		const stdout = await this.git(workspacePath, ['log', '--name-only', '--date=iso', `--format=${GitService.LOG_FORMAT}`, ...logArgs]);
+
+		const commits: CommitInfo[] = [];
+		for (const record of stdout.split(GitService.RECORD_SEPARATOR)) {
+			const [hash, parents, author, email, date, message, rawBody, names] = record.split(GitService.FIELD_SEPARATOR);
+			if (!hash?.trim()) {
+				continue;
+			}
+
+			const body = (rawBody || '').trim();
+			commits.push({
+				hash: hash.trim(),
+				message: message || 'No commit message',
+				author: author || 'Unknown',
+				email: email || undefined,
+				date: date || 'Unknown',
+				diff: '',
+				// --name-only lists the changed files after the formatted fields
+				files: (names || '').split('\n').map(name => name.trim()).filter(Boolean),
+				body,
+				parsed: parseCommitMessage(body ? `${message}\n\n${body}` : message || ''),
+				parents: (parents || '').split(' ').filter(Boolean),
+				pathFilter: filter,
+				pendingDiff: { workspacePath, filter }
+			});
+		}
+
+		return commits;
+	}
+
+	/**
+	 * Commits on the first-parent line between two refs, i.e. what landed on the target branch one merge or
+	 * direct commit at a time. Merges are listed, and their diff is taken against the first parent.
+	 */
+	async getFirstParentCommits(workspacePath: string, from: string, to: string, filter: PathFilter = {}): Promise<CommitInfo[]> {
+		try {
+			const range = await this.buildRange(workspacePath, from, to);
+			// A merge is left out when everything it brought in is filtered out
+			const commits = await this.readCommitLog(workspacePath, ['--first-parent', range, ...GitService.toPathArgs(filter)], filter);
+			for (const commit of commits.filter(commit => (commit.parents?.length || 0) > 1)) {
+				commit.pendingDiff = { workspacePath, filter, firstParent: true };
+			}
 			return commits;
 		} catch (error) {
-			throw new Error(`Failed to get commits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			if (error instanceof InvalidRefError) {
+				throw error;
+			}
+			throw new Error(`Failed to get first-parent history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Commits a merge brought in: reachable from its second parent but not from its first, without nested merges
+	 */
+	async getMergedCommits(workspacePath: string, merge: CommitInfo, filter: PathFilter = {}): Promise<CommitInfo[]> {
+		const [base, head] = merge.parents || [];
+		if (!base || !head) {
+			return [];
+		}
+
+		try {
+			return await this.readCommitLog(workspacePath, ['--no-merges', `${base}..${head}`, ...GitService.toPathArgs(filter)], filter);
+		} catch (error) {
+			throw new Error(`Failed to get merged commits: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	}
 
@@ -70,26 +292,26 @@ export class GitService {
 	 */
 	async getCommitInfo(workspacePath: string, hash: string): Promise<CommitInfo | null> {
 		try {
-			// Get commit message, author, and date
-			const { stdout: commitData } = await execAsync(
-				`git show --format="%s%n%an%n%ad" --no-patch --date=iso "${hash}"`,
-				{ cwd: workspacePath }
-			);
+			await this.validateRef(workspacePath, hash);
+
+			// Get commit subject, author, date and body; %aN/%aE apply .mailmap
+			const commitData = await this.git(workspacePath, ['show', '--format=%s%n%aN%n%aE%n%ad%n%b', '--no-patch', '--date=iso', hash]);
 			
-			const [message, author, date] = commitData.trim().split('\n');
+			const [message, author, email, date, ...bodyLines] = commitData.trim().split('\n');
+			const body = bodyLines.join('\n').trim();
 			
 			// Get commit diff with minimal context
-			const { stdout: diff } = await execAsync(
-				`git show "${hash}" --unified=1`,
-				{ cwd: workspacePath }
-			);
+			const diff = await this.git(workspacePath, ['show', '--unified=1', hash]);
 			
 			return {
 				hash,
 				message: message || 'No commit message',
 				author: author || 'Unknown',
+				email: email || undefined,
 				date: date || 'Unknown',
-				diff: diff || ''
+				diff: diff || '',
+				body,
+				parsed: parseCommitMessage(body ? `${message}\n\n${body}` : message || '')
 			};
 		} catch (error) {
 			console.error(`Failed to get commit info for ${hash}:`, error);
@@ -97,12 +319,31 @@ export class GitService {
 		}
 	}
 
+	/**
+	 * Get the authors of every commit before the given one, e.g. to spot first-time contributors
+	 */
+	async getAuthorsBefore(workspacePath: string, hash: string): Promise<Array<{ name: string; email: string }>> {
+		try {
+			await this.validateRef(workspacePath, hash);
+			const stdout = await this.git(workspacePath, ['log', '--format=%aN%x09%aE', `${hash}~1`]);
+			const authors = new Map<string, { name: string; email: string }>();
+			for (const line of stdout.trim().split('\n').filter(Boolean)) {
+				const [name, email] = line.split('\t');
+				authors.set(`${name}\t${email}`, { name, email: email || '' });
+			}
+			return [...authors.values()];
+		} catch {
+			// The commit has no parent, so nobody contributed before it
+			return [];
+		}
+	}
+
 	/**
 	 * Get available Git tags
 	 */
 	async getTags(workspacePath: string): Promise<string[]> {
 		try {
-			const { stdout } = await execAsync('git tag --sort=-version:refname', { cwd: workspacePath });
+			const stdout = await this.git(workspacePath, ['tag', '--sort=-version:refname']);
 			return stdout.trim().split('\n').filter(Boolean);
 		} catch (error) {
 			console.error('Failed to get Git tags:', error);
@@ -115,7 +356,7 @@ export class GitService {
 	 */
 	async isGitRepository(workspacePath: string): Promise<boolean> {
 		try {
-			await execAsync('git rev-parse --git-dir', { cwd: workspacePath });
+			await this.git(workspacePath, ['rev-parse', '--git-dir']);
 			return true;
 		} catch {
 			return false;
@@ -127,7 +368,7 @@ export class GitService {
 	 */
 	async getCurrentBranch(workspacePath: string): Promise<string> {
 		try {
-			const { stdout } = await execAsync('git branch --show-current', { cwd: workspacePath });
+			const stdout = await this.git(workspacePath, ['branch', '--show-current']);
 			return stdout.trim();
 		} catch (error) {
 			throw new Error(`Failed to get current branch: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -135,35 +376,154 @@ export class GitService {
 	}
 
 	/**
-	 * Build Git log command based on options
+	 * URL of a remote as configured; undefined when the remote does not exist
+	 */
+	async getRemoteUrl(workspacePath: string, remote: string = 'origin'): Promise<string | undefined> {
+		try {
+			const stdout = await this.git(workspacePath, ['remote', 'get-url', '--', remote]);
+			return stdout.trim() || undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Check if a tag of that name exists
+	 */
+	async tagExists(workspacePath: string, tag: string): Promise<boolean> {
+		try {
+			await this.git(workspacePath, ['rev-parse', '--verify', '--quiet', `refs/tags/${tag}`]);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Create an annotated tag on HEAD. The message is kept verbatim, so Markdown headings starting with `#` survive.
+	 */
+	async createAnnotatedTag(workspacePath: string, tag: string, message: string): Promise<void> {
+		if (!tag || tag.startsWith('-')) {
+			throw new InvalidRefError(tag);
+		}
+		try {
+			await this.git(undefined, ['check-ref-format', `refs/tags/${tag}`]);
+		} catch (error) {
+			throw isNonZeroExit(error) ? new InvalidRefError(tag) : error;
+		}
+
+		try {
+			await this.git(workspacePath, ['tag', '--annotate', '--cleanup=verbatim', '--message', message, tag]);
+		} catch (error) {
+			throw new Error(`Failed to create tag ${tag}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Diff of the files in the working tree against HEAD, i.e. what committing them would record.
+	 * Files may be absolute or relative to the workspace.
 	 */
-	private buildGitLogCommand(options: CommitRangeOptions): string {
-		let command = 'git log --pretty=format:"%H"';
+	async getWorkingTreeDiff(workspacePath: string, files: string[]): Promise<string> {
+		try {
+			// `ls-files` prints paths relative to the workspace, so compare them in that form
+			const relativeFiles = files.map(file => path.isAbsolute(file) ? path.relative(workspacePath, file) : file);
+
+			// New files are diffed against nothing, so the index is left alone
+			const untracked = (await this.git(workspacePath, ['ls-files', '--others', '-z', '--', ...relativeFiles])).split('\0').filter(Boolean);
+			const tracked = relativeFiles.filter(file => !untracked.includes(file));
+
+			const diffs: string[] = [];
+			if (tracked.length > 0) {
+				diffs.push(await this.git(workspacePath, ['diff', '--no-color', 'HEAD', '--', ...tracked]));
+			}
+			for (const file of untracked) {
+				diffs.push(await this.diffNewFile(workspacePath, file));
+			}
+			return diffs.join('');
+		} catch (error) {
+			throw new Error(`Failed to get diff: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Diff of a file git does not track yet, as if it were added
+	 */
+	private async diffNewFile(workspacePath: string, file: string): Promise<string> {
+		try {
+			return await this.git(workspacePath, ['diff', '--no-color', '--no-index', '--', '/dev/null', file]);
+		} catch (error) {
+			// `--no-index` exits with 1 when the files differ, which a new file always does
+			const { code, stdout } = error as { code?: unknown; stdout?: string };
+			if (code === 1 && stdout !== undefined) {
+				return stdout;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Commit only the given files, leaving other staged and unstaged changes alone, and return the new commit hash
+	 */
+	async commitFiles(workspacePath: string, files: string[], message: string): Promise<string> {
+		try {
+			await this.git(workspacePath, ['add', '--', ...files]);
+			await this.git(workspacePath, ['commit', '--quiet', '--message', message, '--only', '--', ...files]);
+			const stdout = await this.git(workspacePath, ['rev-parse', 'HEAD']);
+			return stdout.trim();
+		} catch (error) {
+			throw new Error(`Failed to commit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Build the `git log` arguments for the range options; refs are validated first
+	 */
+	private async buildGitLogArgs(workspacePath: string, options: CommitRangeOptions): Promise<string[]> {
+		const args: string[] = [];
 
 		if (options.commitCount) {
-			command += ` -n ${options.commitCount}`;
+			args.push('-n', String(options.commitCount));
 		} else if (options.fromDate && options.toDate) {
-			command += ` --since="${options.fromDate}" --until="${options.toDate}"`;
+			args.push(`--since=${options.fromDate}`, `--until=${options.toDate}`);
 		} else if (options.fromDate) {
-			command += ` --since="${options.fromDate}"`;
+			args.push(`--since=${options.fromDate}`);
 		} else if (options.fromBranch && options.toBranch) {
-			command += ` ${options.fromBranch}..${options.toBranch}`;
+			args.push(await this.buildRange(workspacePath, options.fromBranch, options.toBranch));
 		} else if (options.fromTag && options.toTag) {
-			command += ` ${options.fromTag}..${options.toTag}`;
+			args.push(await this.buildRange(workspacePath, options.fromTag, options.toTag));
 		} else if (options.fromSHA && options.toSHA) {
-			command += ` ${options.fromSHA}..${options.toSHA}`;
+			args.push(await this.buildRange(workspacePath, options.fromSHA, options.toSHA));
 		} else {
 			// Default to last 10 commits
-			command += ' -n 10';
+			args.push('-n', '10');
 		}
 
-		return command;
+		// Only commits touching the included paths, ignoring the excluded ones
+		args.push(...GitService.toPathArgs(options));
+
+		return args;
 	}
 
 	/**
-	 * Filter commits that are likely formatting-only changes
+	 * Trailing `-- <pathspecs>` limiting a `git log` to the filtered paths; none without a filter
 	 */
-	isFormattingOnlyCommit(commit: CommitInfo): boolean {
+	private static toPathArgs(filter: PathFilter): string[] {
+		return hasPathFilter(filter) ? ['--', ...toPathspecs(filter)] : [];
+	}
+
+	/**
+	 * Validate both ends of a range and join them, e.g. `main..feature`
+	 */
+	private async buildRange(workspacePath: string, from: string, to: string): Promise<string> {
+		await this.validateRef(workspacePath, from);
+		await this.validateRef(workspacePath, to);
+		return `${from}..${to}`;
+	}
+
+	/**
+	 * Check whether the commit message mentions formatting; only those commits need their diff checked
+	 */
+	hasFormattingKeyword(commit: CommitInfo): boolean {
 		const formattingKeywords = [
 			'format',
 			'prettier',
@@ -177,9 +537,14 @@ export class GitService {
 		];
 
 		const message = commit.message.toLowerCase();
-		const hasFormattingKeyword = formattingKeywords.some(keyword => 
-			message.includes(keyword)
-		);
+		return formattingKeywords.some(keyword => message.includes(keyword));
+	}
+
+	/**
+	 * Filter commits that are likely formatting-only changes
+	 */
+	isFormattingOnlyCommit(commit: CommitInfo): boolean {
+		const hasFormattingKeyword = this.hasFormattingKeyword(commit);
 
 		// Check if diff contains only whitespace/formatting changes
 		const diffLines = commit.diff.split('\n');
@@ -206,33 +571,23 @@ export class GitService {
 		return hasFormattingKeyword && meaningfulChanges.length < 5;
 	}
 
+	/**
+	 * Check whether a commit declares a breaking change (`type!:` or a `BREAKING CHANGE:` footer)
+	 */
+	isBreakingChange(commit: CommitInfo): boolean {
+		return getParsedCommit(commit).breaking;
+	}
+
 	/**
 	 * Categorize commit based on message and diff
 	 */
 	categorizeCommit(commit: CommitInfo): string {
 		const message = commit.message.toLowerCase();
 
-		// Check conventional commit patterns first
-		if (message.match(/^feat(\(.+\))?:/)) {
-			return 'feat';
-		}
-		if (message.match(/^fix(\(.+\))?:/)) {
-			return 'fix';
-		}
-		if (message.match(/^docs(\(.+\))?:/)) {
-			return 'docs';
-		}
-		if (message.match(/^style(\(.+\))?:/)) {
-			return 'style';
-		}
-		if (message.match(/^refactor(\(.+\))?:/)) {
-			return 'refactor';
-		}
-		if (message.match(/^test(\(.+\))?:/)) {
-			return 'test';
-		}
-		if (message.match(/^chore(\(.+\))?:/)) {
-			return 'chore';
+		// Check the conventional commit type first
+		const type = getParsedCommit(commit).type;
+		if (type && GitService.CONVENTIONAL_TYPES[type]) {
+			return GitService.CONVENTIONAL_TYPES[type];
 		}
 
 		// Fall back to keyword analysis
@@ -260,47 +615,36 @@ export class GitService {
 	}
 
 	/**
-	 * Get all available branches (local and remote)
+	 * Get all available branches (local and remote) with their tip commits, in one `git for-each-ref`
 	 */
 	async getBranches(workspacePath: string): Promise<BranchInfo[]> {
 		try {
-			const branches: BranchInfo[] = [];
+			const format = ['%(refname)', '%(objectname)', '%(authorname)', '%(authoremail)', '%(committerdate:iso8601)', '%(subject)'].join('%1f');
+			const stdout = await this.git(workspacePath, ['for-each-ref', `--format=${format}`, 'refs/heads', 'refs/remotes']);
 
-			// Get local branches
-			const localCmd = 'git branch --format="%(refname:short)|%(objectname:short)|%(committerdate:iso8601)"';
-			const { stdout: localOutput } = await execAsync(localCmd, { cwd: workspacePath });
-			
-			for (const line of localOutput.trim().split('\n').filter(Boolean)) {
-				const [name, hash, date] = line.split('|');
-				if (name && hash) {
-					const lastCommit = await this.getCommitInfo(workspacePath, hash);
-					branches.push({
-						name: name.replace('* ', ''), // Remove current branch indicator
-						isRemote: false,
-						lastCommit: lastCommit || undefined
-					});
+			const branches: BranchInfo[] = [];
+			for (const line of stdout.split('\n').filter(Boolean)) {
+				const [ref, hash, author, email, date, subject] = line.split(GitService.FIELD_SEPARATOR);
+				const isRemote = ref.startsWith('refs/remotes/');
+				// Skip symbolic refs such as origin/HEAD
+				if (!hash || (isRemote && ref.endsWith('/HEAD'))) {
+					continue;
 				}
-			}
 
-			// Get remote branches
-			try {
-				const remoteCmd = 'git branch -r --format="%(refname:short)|%(objectname:short)|%(committerdate:iso8601)"';
-				const { stdout: remoteOutput } = await execAsync(remoteCmd, { cwd: workspacePath });
-				
-				for (const line of remoteOutput.trim().split('\n').filter(Boolean)) {
-					const [name, hash, date] = line.split('|');
-					if (name && hash && !name.includes('HEAD')) {
-						const lastCommit = await this.getCommitInfo(workspacePath, hash);
-						branches.push({
-							name,
-							isRemote: true,
-							lastCommit: lastCommit || undefined
-						});
-					}
-				}
-			} catch (error) {
-				// Remote branches might not exist, that's okay
-				console.warn('No remote branches found or error fetching remotes:', error);
+				const lastCommit: CommitInfo = {
+					hash,
+					message: subject || 'No commit message',
+					author: author || 'Unknown',
+					email: email?.replace(/^<|>$/g, '') || undefined,
+					date: date || 'Unknown',
+					diff: ''
+				};
+
+				branches.push({
+					name: ref.replace(/^refs\/(heads|remotes)\//, ''),
+					isRemote,
+					lastCommit
+				});
 			}
 
 			return branches;
@@ -314,12 +658,12 @@ export class GitService {
 	 */
 	async branchExists(workspacePath: string, branchName: string): Promise<boolean> {
 		try {
-			await execAsync(`git show-ref --verify --quiet refs/heads/${branchName}`, { cwd: workspacePath });
+			await this.git(workspacePath, ['show-ref', '--verify', '--quiet', `refs/heads/${branchName}`]);
 			return true;
 		} catch {
 			// Try remote branch
 			try {
-				await execAsync(`git show-ref --verify --quiet refs/remotes/${branchName}`, { cwd: workspacePath });
+				await this.git(workspacePath, ['show-ref', '--verify', '--quiet', `refs/remotes/${branchName}`]);
 				return true;
 			} catch {
 				return false;
@@ -331,8 +675,11 @@ export class GitService {
 	 * Get the merge base (common ancestor) between two branches
 	 */
 	async getMergeBase(workspacePath: string, branch1: string, branch2: string): Promise<string> {
+		await this.validateRef(workspacePath, branch1);
+		await this.validateRef(workspacePath, branch2);
+
 		try {
-			const { stdout } = await execAsync(`git merge-base ${branch1} ${branch2}`, { cwd: workspacePath });
+			const stdout = await this.git(workspacePath, ['merge-base', branch1, branch2]);
 			return stdout.trim();
 		} catch (error) {
 			throw new Error(`Failed to find merge base between ${branch1} and ${branch2}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -349,7 +696,10 @@ export class GitService {
 		options?: BranchComparisonOptions
 	): Promise<CommitInfo[]> {
 		try {
-			// Validate branches exist
+			// Validate the names before asking git whether the branches exist
+			await this.validateRef(workspacePath, fromBranch);
+			await this.validateRef(workspacePath, toBranch);
+
 			const fromExists = await this.branchExists(workspacePath, fromBranch);
 			const toExists = await this.branchExists(workspacePath, toBranch);
 			
@@ -360,48 +710,48 @@ export class GitService {
 				throw new Error(`Branch '${toBranch}' does not exist`);
 			}
 
-			let gitCommand = '';
+			let range = '';
 			const strategy = options?.strategy || 'one-way';
 
 			switch (strategy) {
 				case 'symmetric':
 					// Show commits in either branch since they diverged
-					gitCommand = `git log --pretty=format:"%H" ${fromBranch}...${toBranch}`;
+					range = `${fromBranch}...${toBranch}`;
 					break;
 				case 'merge-base':
 					// Show commits from merge base to target branch
 					const mergeBase = await this.getMergeBase(workspacePath, fromBranch, toBranch);
-					gitCommand = `git log --pretty=format:"%H" ${mergeBase}..${toBranch}`;
+					range = `${mergeBase}..${toBranch}`;
 					break;
 				case 'one-way':
 				default:
 					// Show commits in toBranch that are not in fromBranch
-					gitCommand = `git log --pretty=format:"%H" ${fromBranch}..${toBranch}`;
+					range = `${fromBranch}..${toBranch}`;
 					break;
 			}
 
+			const args = [range];
+
 			// Add merge commit handling
 			if (options?.includeMergeCommits === false) {
-				gitCommand += ' --no-merges';
+				args.push('--no-merges');
 			}
 
-			const { stdout } = await execAsync(gitCommand, { cwd: workspacePath });
-			const commitHashes = stdout.trim().split('\n').filter(Boolean);
-
-			const commits: CommitInfo[] = [];
-			for (const hash of commitHashes) {
-				const commitInfo = await this.getCommitInfo(workspacePath, hash);
-				if (commitInfo) {
-					// Additional filtering for merge commits if needed
-					if (options?.includeMergeCommits === false && commitInfo.message.startsWith('Merge')) {
-						continue;
-					}
-					commits.push(commitInfo);
-				}
+			const filter: PathFilter = { includePaths: options?.includePaths, excludePaths: options?.excludePaths };
+			args.push(...GitService.toPathArgs(filter));
+
+			let commits = await this.readCommitLog(workspacePath, args, filter);
+
+			// Additional filtering for merge commits if needed
+			if (options?.includeMergeCommits === false) {
+				commits = commits.filter(commit => !commit.message.startsWith('Merge'));
 			}
 
 			return commits;
 		} catch (error) {
+			if (error instanceof InvalidRefError) {
+				throw error;
+			}
 			throw new Error(`Failed to get commits between branches ${fromBranch} and ${toBranch}: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	}
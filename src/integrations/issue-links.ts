@@ -0,0 +1,187 @@
+import { ParsedCommit } from './conventional-commits';
+
+/**
+ * Where commit and issue links point; `auto` picks the host from the `origin` remote
+ */
+export type IssueTracker = 'auto' | 'github' | 'gitlab' | 'bitbucket' | 'jira' | 'custom' | 'none';
+
+type CodeHost = 'github' | 'gitlab' | 'bitbucket';
+
+export interface LinkResolverOptions {
+	tracker: IssueTracker;
+	/**
+	 * URL of the `origin` remote as git reports it, e.g. `git@github.com:owner/repo.git`
+	 */
+	remoteUrl?: string;
+	/**
+	 * Template for issue links with `{id}` and `{repo}` placeholders; used for Jira-style keys and by the custom tracker
+	 */
+	issueUrlTemplate?: string;
+	/**
+	 * Template for commit links with `{hash}` and `{repo}` placeholders; overrides the code host's default
+	 */
+	commitUrlTemplate?: string;
+}
+
+/**
+ * Link templates of the supported code hosts; `{repo}` is the web URL of the repository
+ */
+export const CODE_HOST_TEMPLATES: Record<CodeHost, { commit: string; issue: string }> = {
+	github: { commit: '{repo}/commit/{hash}', issue: '{repo}/issues/{id}' },
+	gitlab: { commit: '{repo}/-/commit/{hash}', issue: '{repo}/-/issues/{id}' },
+	bitbucket: { commit: '{repo}/commits/{hash}', issue: '{repo}/issues/{id}' }
+};
+
+const ISSUE_NUMBER_PATTERN = /(?:^|[\s([])(#\d+)\b/g;
+const ISSUE_KEY_PATTERN = /\b([A-Z][A-Z0-9]+-\d+)\b/g;
+
+// Standards and algorithms that look like Jira keys, e.g. "UTF-8" or "CVE-2024-1234"
+const NON_ISSUE_KEYS = ['AES', 'AGPL', 'CVE', 'ECMA', 'GPL', 'ISO', 'LGPL', 'PEP', 'RFC', 'SHA', 'UTF'];
+
+/**
+ * Issues a commit refers to: `Refs`/`Closes`/`Fixes` footers first, then `#123` and `PROJ-123` mentions
+ * in the subject and body, without duplicates
+ */
+export function extractIssueReferences(parsed: ParsedCommit): string[] {
+	const references = [...parsed.references];
+	const text = `${parsed.subject}\n${parsed.body}`;
+
+	for (const match of text.matchAll(ISSUE_NUMBER_PATTERN)) {
+		references.push(match[1]);
+	}
+	for (const match of text.matchAll(ISSUE_KEY_PATTERN)) {
+		if (!NON_ISSUE_KEYS.includes(match[1].split('-')[0])) {
+			references.push(match[1]);
+		}
+	}
+
+	return [...new Set(references)];
+}
+
+/**
+ * Web URL of a repository from its remote URL; undefined for local paths and unknown forms.
+ * Credentials, ports of SSH remotes and the `.git` suffix are dropped.
+ */
+export function getRepositoryWebUrl(remoteUrl: string): string | undefined {
+	const url = remoteUrl.trim();
+
+	// scp-like syntax: git@github.com:owner/repo.git
+	const scpMatch = url.match(/^(?:[^@/]+@)?([^:/]+):(?![\\/])(.+)$/);
+	if (scpMatch) {
+		return `https://${scpMatch[1]}/${stripGitSuffix(scpMatch[2])}`;
+	}
+
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return undefined;
+	}
+
+	const path = stripGitSuffix(parsed.pathname.replace(/^\/+/, ''));
+	if (!path) {
+		return undefined;
+	}
+
+	switch (parsed.protocol) {
+		case 'http:':
+		case 'https:':
+			return `${parsed.protocol}//${parsed.host}/${path}`;
+		case 'ssh:':
+		case 'git:':
+			return `https://${parsed.hostname}/${path}`;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Turns commit hashes and issue references into web links
+ */
+export class LinkResolver {
+	private repoUrl?: string;
+	private codeHost?: CodeHost;
+
+	constructor(private options: LinkResolverOptions) {
+		this.repoUrl = options.remoteUrl ? getRepositoryWebUrl(options.remoteUrl) : undefined;
+		this.codeHost = this.detectCodeHost();
+	}
+
+	/**
+	 * Web page of a commit; undefined when neither the remote nor a template tells where it lives
+	 */
+	getCommitUrl(hash: string): string | undefined {
+		if (this.options.tracker === 'none') {
+			return undefined;
+		}
+
+		const template = this.options.commitUrlTemplate || (this.codeHost && CODE_HOST_TEMPLATES[this.codeHost].commit);
+		return template ? this.fillTemplate(template, { hash }) : undefined;
+	}
+
+	/**
+	 * Web page of an issue reference such as `#45`, `PROJ-7` or a GitLab merge request `!12`
+	 */
+	getIssueUrl(reference: string): string | undefined {
+		if (this.options.tracker === 'none') {
+			return undefined;
+		}
+
+		const numberMatch = reference.match(/^#(\d+)$/);
+		if (numberMatch) {
+			const template = this.options.tracker === 'custom'
+				? this.options.issueUrlTemplate
+				: this.codeHost && CODE_HOST_TEMPLATES[this.codeHost].issue;
+			return template ? this.fillTemplate(template, { id: numberMatch[1] }) : undefined;
+		}
+
+		// GitLab refers to merge requests as !123
+		const mergeRequestMatch = reference.match(/^!(\d+)$/);
+		if (mergeRequestMatch) {
+			return this.codeHost === 'gitlab'
+				? this.fillTemplate('{repo}/-/merge_requests/{id}', { id: mergeRequestMatch[1] })
+				: undefined;
+		}
+
+		// Jira-style keys only have a home when a tracker URL is configured
+		if (/^[A-Z][A-Z0-9]+-\d+$/.test(reference) && this.options.issueUrlTemplate) {
+			return this.fillTemplate(this.options.issueUrlTemplate, { id: reference });
+		}
+
+		return undefined;
+	}
+
+	private detectCodeHost(): CodeHost | undefined {
+		const { tracker } = this.options;
+		if (tracker === 'github' || tracker === 'gitlab' || tracker === 'bitbucket') {
+			return tracker;
+		}
+		if (!this.repoUrl) {
+			return undefined;
+		}
+
+		const hostname = new URL(this.repoUrl).hostname;
+		return (Object.keys(CODE_HOST_TEMPLATES) as CodeHost[]).find(host => hostname.includes(host));
+	}
+
+	/**
+	 * Replace `{placeholder}`s; undefined when one of them has no value, e.g. `{repo}` without a remote
+	 */
+	private fillTemplate(template: string, values: Record<string, string>): string | undefined {
+		const allValues: Record<string, string | undefined> = { ...values, repo: this.repoUrl };
+		let complete = true;
+		const url = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+			const value = allValues[name];
+			if (value === undefined) {
+				complete = false;
+				return placeholder;
+			}
+			return name === 'repo' ? value : encodeURIComponent(value);
+		});
+		return complete ? url : undefined;
+	}
+}
+
+function stripGitSuffix(path: string): string {
+	return path.replace(/\/+$/, '').replace(/\.git$/, '');
+}
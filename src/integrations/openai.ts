@@ -1,6 +1,7 @@
 import OpenAI from 'openai';
 import { ConfigService } from '../config/config';
 import { CommitInfo } from './git';
+import { getRequestScheduler } from './providers/request-scheduler';
 
 export interface ChangelogEntry {
 	type: 'feat' | 'fix' | 'docs' | 'refactor' | 'style' | 'test' | 'chore';
@@ -8,6 +9,9 @@ export interface ChangelogEntry {
 	commit: CommitInfo;
 }
 
+/**
+ * @deprecated Changelog generation runs on AIService; kept for backwards compatibility.
+ */
 export class OpenAIService {
 	private openai: OpenAI | null = null;
 
@@ -28,6 +32,7 @@ export class OpenAIService {
 
 		this.openai = new OpenAI({
 			apiKey: apiKey,
+			maxRetries: 0,
 		});
 	}
 
@@ -37,18 +42,17 @@ export class OpenAIService {
 	async processCommits(commits: CommitInfo[]): Promise<ChangelogEntry[]> {
 		await this.initializeClient();
 
-		const entries: ChangelogEntry[] = [];
 		const style = await this.configService.getChangelogStyle();
 
-		// Process commits in batches to avoid rate limits
+		// Batches run concurrently; the shared scheduler keeps requests within rate limits
 		const batchSize = 5;
+		const batches: CommitInfo[][] = [];
 		for (let i = 0; i < commits.length; i += batchSize) {
-			const batch = commits.slice(i, i + batchSize);
-			const batchEntries = await this.processBatch(batch, style);
-			entries.push(...batchEntries);
+			batches.push(commits.slice(i, i + batchSize));
 		}
 
-		return entries;
+		const batchEntries = await Promise.all(batches.map(batch => this.processBatch(batch, style)));
+		return batchEntries.flat();
 	}
 
 	/**
@@ -59,22 +63,24 @@ export class OpenAIService {
 			throw new Error('OpenAI client not initialized');
 		}
 
-		const entries: ChangelogEntry[] = [];
-
-		for (const commit of commits) {
+		const entries = await Promise.all(commits.map(async (commit): Promise<ChangelogEntry | null> => {
 			try {
-				const entry = await this.processCommit(commit, style);
-				if (entry) {
-					entries.push(entry);
-				}
+				return await this.processCommit(commit, style);
 			} catch (error) {
 				console.error(`Failed to process commit ${commit.hash}:`, error);
 				// Fall back to basic processing
-				entries.push(this.fallbackProcessCommit(commit));
+				return this.fallbackProcessCommit(commit);
 			}
-		}
+		}));
+
+		return entries.filter((entry): entry is ChangelogEntry => !!entry);
+	}
 
-		return entries;
+	/**
+	 * Run a request through the scheduler shared with the OpenAI provider
+	 */
+	private scheduleRequest<T>(request: () => Promise<T>): Promise<T> {
+		return getRequestScheduler('OpenAI', this.configService.getRequestSchedulerOptions()).schedule(request);
 	}
 
 	/**
@@ -88,7 +94,7 @@ export class OpenAIService {
 		const prompt = this.buildPrompt(commit, style);
 
 		try {
-			const response = await this.openai.chat.completions.create({
+			const response = await this.scheduleRequest(() => this.openai!.chat.completions.create({
 				model: 'gpt-3.5-turbo',
 				messages: [
 					{
@@ -102,7 +108,7 @@ export class OpenAIService {
 				],
 				max_tokens: 200,
 				temperature: 0.3,
-			});
+			}));
 
 			const content = response.choices[0]?.message?.content?.trim();
 			if (!content) {
@@ -150,16 +156,8 @@ Example response:
 	private getSystemPrompt(style: string): string {
 		const basePrompt = `You are a changelog generator that analyzes Git commits and creates clear, structured changelog entries. Focus on what changed from a user's perspective, not implementation details.`;
 
-		switch (style) {
-			case 'formal':
-				return `${basePrompt} Use formal, professional language suitable for enterprise documentation.`;
-			case 'dev-friendly':
-				return `${basePrompt} Use clear, concise language that developers will appreciate. Be specific about technical changes.`;
-			case 'pm-style':
-				return `${basePrompt} Use user-focused language that explains the impact and value of changes. Avoid technical jargon.`;
-			default:
-				return basePrompt;
-		}
+		const writingStyle = this.configService.getStyleRegistry().get(style);
+		return writingStyle ? `${basePrompt} ${writingStyle.promptFragment}` : basePrompt;
 	}
 
 	/**
@@ -249,7 +247,7 @@ ${Object.entries(entriesByType).map(([type, descriptions]) =>
 Write a 1-2 sentence summary that highlights the most important changes.`;
 
 		try {
-			const response = await this.openai.chat.completions.create({
+			const response = await this.scheduleRequest(() => this.openai!.chat.completions.create({
 				model: 'gpt-3.5-turbo',
 				messages: [
 					{
@@ -263,7 +261,7 @@ Write a 1-2 sentence summary that highlights the most important changes.`;
 				],
 				max_tokens: 100,
 				temperature: 0.5,
-			});
+			}));
 
 			return response.choices[0]?.message?.content?.trim() || 'This release includes various improvements and bug fixes.';
 		} catch (error) {
@@ -303,7 +301,7 @@ Respond with ONLY one of these categories:
 Category:`;
 
 		try {
-			const response = await this.openai.chat.completions.create({
+			const response = await this.scheduleRequest(() => this.openai!.chat.completions.create({
 				model: 'gpt-3.5-turbo',
 				messages: [
 					{
@@ -317,7 +315,7 @@ Category:`;
 				],
 				max_tokens: 10,
 				temperature: 0.1,
-			});
+			}));
 
 			const category = response.choices[0]?.message?.content?.trim()?.toLowerCase();
 			const validTypes = ['feat', 'fix', 'docs', 'refactor', 'style', 'test', 'chore'];
@@ -362,7 +360,7 @@ Requirements:
 Enhanced description:`;
 
 		try {
-			const response = await this.openai.chat.completions.create({
+			const response = await this.scheduleRequest(() => this.openai!.chat.completions.create({
 				model: 'gpt-3.5-turbo',
 				messages: [
 					{
@@ -376,7 +374,7 @@ Enhanced description:`;
 				],
 				max_tokens: 50,
 				temperature: 0.3,
-			});
+			}));
 
 			const enhanced = response.choices[0]?.message?.content?.trim();
 			return enhanced && enhanced.length > 0 ? enhanced : this.fallbackEnhanceDescription(commit);
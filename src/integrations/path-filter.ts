@@ -0,0 +1,81 @@
+/**
+ * Include/exclude path globs, e.g. only `src/**` but no lockfiles
+ */
+export interface PathFilter {
+	includePaths?: string[];
+	excludePaths?: string[];
+}
+
+/**
+ * Convert a path glob (`packages/*`, `apps/**`) into a regular expression.
+ * Follows git's `:(glob)` pathspec rules: `*` stays within one directory, `**` crosses directories.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*' && pattern[i + 1] === '*') {
+			// `**/` also matches zero directories
+			source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+			i += pattern[i + 2] === '/' ? 2 : 1;
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether any filter is set
+ */
+export function hasPathFilter(filter: PathFilter): boolean {
+	return !!(filter.includePaths?.length || filter.excludePaths?.length);
+}
+
+/**
+ * Check a repository-relative path against the filter; excludes win over includes.
+ * Like a git pathspec, a pattern matching a directory also matches everything under it, so `src` covers `src/index.ts`.
+ */
+export function matchesPathFilter(filePath: string, filter: PathFilter): boolean {
+	const segments = filePath.split('/');
+	const matches = (glob: string) => {
+		const pattern = globToRegExp(glob);
+		return segments.some((_, i) => pattern.test(segments.slice(0, i + 1).join('/')));
+	};
+
+	if (filter.excludePaths?.some(matches)) {
+		return false;
+	}
+	return !filter.includePaths?.length || filter.includePaths.some(matches);
+}
+
+/**
+ * Git pathspecs for `git log -- <paths>`
+ */
+export function toPathspecs(filter: PathFilter): string[] {
+	return [
+		...(filter.includePaths || []).map(glob => `:(glob)${glob}`),
+		...(filter.excludePaths || []).map(glob => `:(glob,exclude)${glob}`)
+	];
+}
+
+/**
+ * Drop the files of a unified diff that the filter leaves out; text before the first file is kept
+ */
+export function filterDiffByPaths(diff: string, filter: PathFilter): string {
+	if (!hasPathFilter(filter)) {
+		return diff;
+	}
+
+	const sections = diff.split(/^(?=diff --git )/m);
+	return sections
+		.filter(section => {
+			const file = section.match(/^diff --git a\/.+? b\/(.+)$/m)?.[1];
+			return !section.startsWith('diff --git ') || !file || matchesPathFilter(file, filter);
+		})
+		.join('');
+}
@@ -1,6 +1,7 @@
 import { BaseAIProvider } from './base-provider';
-import { AIProviderConfig, ChangelogEntry, CommitInfo, UsageStats } from './types';
+import { AIProviderConfig, ChangelogEntry, CommitInfo } from './types';
 import { sanitizeErrorMessage } from './error-sanitizer';
+import { ProviderRequestError } from './request-scheduler';
 
 // Anthropic Claude API types (simplified)
 interface AnthropicMessage {
@@ -23,10 +24,6 @@ export class AnthropicProvider extends BaseAIProvider {
 
 	private apiKey?: string;
 	private baseURL = 'https://api.anthropic.com/v1/messages';
-	private usageStats: UsageStats = {
-		tokensUsed: 0,
-		requestsCount: 0
-	};
 
 	async initialize(config: AIProviderConfig): Promise<void> {
 		this.config = config;
@@ -62,6 +59,18 @@ export class AnthropicProvider extends BaseAIProvider {
 		}
 	}
 
+	protected async requestCompletion(systemPrompt: string, prompt: string, maxTokens: number): Promise<string | null> {
+		if (!this.isConfigured()) {
+			return null;
+		}
+
+		const response = await this.makeAnthropicRequest([
+			{ role: 'user', content: `${systemPrompt}\n\n${prompt}` }
+		], maxTokens);
+
+		return response.content[0]?.text?.trim() || null;
+	}
+
 	async generateSummary(entries: ChangelogEntry[]): Promise<string> {
 		if (!this.isConfigured() || entries.length === 0) {
 			return super.generateSummary(entries);
@@ -107,7 +116,7 @@ Author: ${commit.author}
 Date: ${commit.date}
 
 Code changes:
-${commit.diff.substring(0, 800)}${commit.diff.length > 800 ? '\n... (truncated)' : ''}
+${this.formatDiff(commit)}
 
 Respond with ONLY one of these categories:
 - feat: new features or functionality
@@ -151,7 +160,7 @@ Original commit message: "${commit.message}"
 Author: ${commit.author}
 
 Code changes:
-${commit.diff.substring(0, 1000)}${commit.diff.length > 1000 ? '\n... (truncated)' : ''}
+${this.formatDiff(commit)}
 
 Requirements:
 - Write a clear, concise description of what changed
@@ -175,44 +184,40 @@ Enhanced description:`;
 		}
 	}
 
-	async getUsageStats(): Promise<UsageStats> {
-		return { ...this.usageStats };
-	}
-
 	private async makeAnthropicRequest(messages: AnthropicMessage[], maxTokens: number = 200): Promise<AnthropicResponse> {
 		if (!this.apiKey) {
 			throw new Error('Anthropic API key not configured');
 		}
 
-		const response = await fetch(this.baseURL, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				'x-api-key': this.apiKey,
-				'anthropic-version': '2023-06-01'
-			},
-			body: JSON.stringify({
-				model: this.config?.model || this.defaultModel,
-				max_tokens: maxTokens,
-				temperature: this.config?.temperature || 0.3,
-				messages
-			})
-		});
+		const apiKey = this.apiKey;
+		const response = await this.scheduleRequest(async () => {
+			const response = await fetch(this.baseURL, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'x-api-key': apiKey,
+					'anthropic-version': '2023-06-01'
+				},
+				body: JSON.stringify({
+					model: this.config?.model || this.defaultModel,
+					max_tokens: maxTokens,
+					temperature: this.config?.temperature ?? 0.3,
+					messages
+				})
+			});
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				const sanitizedError = sanitizeErrorMessage(errorText);
+				throw ProviderRequestError.fromResponse(`Anthropic API error: ${response.status} ${sanitizedError}`, response);
+			}
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			const sanitizedError = sanitizeErrorMessage(errorText);
-			throw new Error(`Anthropic API error: ${response.status} ${sanitizedError}`);
-		}
+			return response;
+		});
 
 		const result = await response.json() as AnthropicResponse;
 
-		// Update usage stats
-		if (result.usage) {
-			this.usageStats.tokensUsed += result.usage.input_tokens + result.usage.output_tokens;
-		}
-		this.usageStats.requestsCount++;
-		this.usageStats.lastRequest = new Date();
+		this.recordUsage({ inputTokens: result.usage?.input_tokens, outputTokens: result.usage?.output_tokens });
 
 		return result;
 	}
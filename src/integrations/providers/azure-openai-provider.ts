@@ -0,0 +1,63 @@
+import { AzureOpenAI } from 'openai';
+import { OpenAIProvider } from './openai-provider';
+import { AIProviderConfig } from './types';
+import { sanitizeErrorMessage } from './error-sanitizer';
+
+/**
+ * Provider for OpenAI models deployed to an Azure OpenAI resource. Requests go to a deployment
+ * on the configured endpoint and authenticate with the resource's API key.
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+	readonly name = 'Azure OpenAI';
+	readonly availableModels = ['gpt-35-turbo', 'gpt-4', 'gpt-4o', 'gpt-4o-mini'];
+	readonly defaultModel = 'gpt-35-turbo';
+
+	static readonly DEFAULT_API_VERSION = '2024-02-01';
+
+	private deploymentName?: string;
+
+	async initialize(config: AIProviderConfig): Promise<void> {
+		this.config = config;
+		// Azure routes requests by deployment, which usually carries the model name
+		this.deploymentName = config.deploymentName || config.model;
+		const endpoint = config.endpoint?.replace(/\/+$/, '');
+
+		this.openai = config.apiKey && endpoint && this.deploymentName
+			? new AzureOpenAI({
+				apiKey: config.apiKey,
+				endpoint,
+				deployment: this.deploymentName,
+				apiVersion: config.apiVersion || AzureOpenAIProvider.DEFAULT_API_VERSION,
+				// Retries are handled by the shared request scheduler
+				maxRetries: 0,
+			})
+			: undefined;
+	}
+
+	/**
+	 * Model the deployment serves, from `providerModels.azure`, for prices and token budgets; deployment
+	 * names such as "prod-chat" are only a guess when it is not set
+	 */
+	getModel(): string {
+		return this.config?.model || this.deploymentName || this.defaultModel;
+	}
+
+	/**
+	 * Send a minimal request so configuration errors surface instead of silently falling back
+	 */
+	async testConnection(): Promise<void> {
+		if (!this.openai) {
+			throw new Error('Azure OpenAI endpoint, deployment name and API key are required');
+		}
+
+		try {
+			await this.scheduleRequest(() => this.openai!.chat.completions.create({
+				model: this.getModel(),
+				messages: [{ role: 'user', content: 'Reply with OK.' }],
+				max_tokens: 5,
+			}));
+		} catch (error) {
+			throw new Error(`Azure OpenAI API error: ${sanitizeErrorMessage(error instanceof Error ? error.message : String(error))}`);
+		}
+	}
+}
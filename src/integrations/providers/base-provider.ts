@@ -1,12 +1,38 @@
-import { AIProvider, AIProviderConfig, ChangelogEntry, CommitInfo } from './types';
+import { createHash } from 'crypto';
+import { AIProvider, AIProviderConfig, ChangelogEntry, CommitInfo, UsageEstimate, UsageStats } from './types';
+import { getRequestScheduler } from './request-scheduler';
+import { renderPromptTemplate } from './prompt-template';
+import { getDiffTokenBudget, summarizeDiff } from './diff-preprocessor';
+import { StyleRegistry } from '../../config/styleRegistry';
+import { getParsedCommit } from '../conventional-commits';
 
 export abstract class BaseAIProvider implements AIProvider {
+	protected static readonly DEFAULT_BATCH_TOKEN_BUDGET = 3000;
+	protected static readonly MAX_COMMITS_PER_BATCH = 10;
+	protected static readonly MAX_BATCH_RESPONSE_TOKENS = 4096;
+	protected static readonly BATCH_HASH_LENGTH = 12;
+	protected static readonly MAX_BODY_LENGTH = 500;
+	protected static readonly BREAKING_CHANGE_GUIDANCE = 'true if existing users must change their code or configuration (removed or renamed exports, changed function signatures, deleted config keys, incompatible behavior), otherwise false';
+	private static readonly FINGERPRINT_SAMPLE_COMMIT: CommitInfo = {
+		hash: '0000000000000000000000000000000000000000',
+		message: 'sample: fingerprint commit',
+		author: 'Sample Author',
+		date: '1970-01-01',
+		diff: '+sample'
+	};
+
 	abstract readonly name: string;
 	abstract readonly availableModels: string[];
 	abstract readonly defaultModel: string;
 
 	protected config?: AIProviderConfig;
 	protected client?: any;
+	protected usageStats: UsageStats = {
+		tokensUsed: 0,
+		inputTokens: 0,
+		outputTokens: 0,
+		requestsCount: 0
+	};
 
 	abstract initialize(config: AIProviderConfig): Promise<void>;
 
@@ -14,50 +40,109 @@ export abstract class BaseAIProvider implements AIProvider {
 		return !!this.config;
 	}
 
+	/**
+	 * Model used for requests with the current configuration
+	 */
+	getModel(): string {
+		return this.config?.model || this.defaultModel;
+	}
+
+	async getUsageStats(): Promise<UsageStats> {
+		return { ...this.usageStats };
+	}
+
+	/**
+	 * Count a finished request with the token counts the API reported
+	 */
+	protected recordUsage(usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number }): void {
+		const inputTokens = usage.inputTokens || 0;
+		const outputTokens = usage.outputTokens || 0;
+
+		this.usageStats.inputTokens = (this.usageStats.inputTokens || 0) + inputTokens;
+		this.usageStats.outputTokens = (this.usageStats.outputTokens || 0) + outputTokens;
+		this.usageStats.tokensUsed += usage.totalTokens ?? inputTokens + outputTokens;
+		this.usageStats.requestsCount++;
+		this.usageStats.lastRequest = new Date();
+	}
+
+	/**
+	 * Count the prompt tokens of the requests `processCommits` would send, batched the same way
+	 */
+	estimateUsage(commits: CommitInfo[], style: string): UsageEstimate {
+		const estimate: UsageEstimate = { requests: 0, inputTokens: 0, outputTokens: 0 };
+		const perEntryTokens = this.config?.maxTokens || 200;
+		const systemTokens = this.estimateTokens(this.getSystemPrompt(style));
+		const batched = this.config?.batchPrompts !== false && !this.config?.promptTemplate;
+
+		for (const batch of batched ? this.packCommitBatches(commits) : [commits]) {
+			if (batch.length > 1 && batched) {
+				estimate.requests++;
+				estimate.inputTokens += systemTokens + this.estimateTokens(this.buildBatchPrompt(batch, style));
+				estimate.outputTokens += Math.min(perEntryTokens * batch.length, BaseAIProvider.MAX_BATCH_RESPONSE_TOKENS);
+				continue;
+			}
+			for (const commit of batch) {
+				estimate.requests++;
+				estimate.inputTokens += systemTokens + this.estimateTokens(this.buildCommitPrompt(commit, style));
+				estimate.outputTokens += perEntryTokens;
+			}
+		}
+
+		return estimate;
+	}
+
+	/**
+	 * Hash the prompts built for a sample commit so cached responses expire when templates change
+	 */
+	getPromptFingerprint(style: string): string {
+		const sample = BaseAIProvider.FINGERPRINT_SAMPLE_COMMIT;
+		return createHash('sha256')
+			.update(this.getSystemPrompt(style))
+			.update(this.buildCommitPrompt(sample, style))
+			.update(this.buildBatchPrompt([sample], style))
+			.digest('hex');
+	}
+
 	/**
 	 * Build system prompt based on style preference
 	 */
 	protected getSystemPrompt(style: string): string {
+		const template = this.config?.promptTemplate;
+		if (template?.system) {
+			return template.system.replace(/\{\{\s*style\s*\}\}/g, style);
+		}
+
 		const basePrompt = `You are a changelog generator that analyzes Git commits and creates clear, structured changelog entries. Focus on what changed from a user's perspective, not implementation details.`;
 
-		switch (style) {
-			case 'formal':
-				return `${basePrompt} Use formal, professional language suitable for enterprise documentation.`;
-			case 'dev-friendly':
-				return `${basePrompt} Use clear, concise language that developers will appreciate. Be specific about technical changes.`;
-			case 'pm-style':
-				return `${basePrompt} Use user-focused language that explains the impact and value of changes. Avoid technical jargon.`;
-			default:
-				return basePrompt;
-		}
+		const writingStyle = new StyleRegistry(this.config?.customStyles).get(style);
+		return writingStyle ? `${basePrompt} ${writingStyle.promptFragment}` : basePrompt;
 	}
 
 	/**
 	 * Build prompt for AI based on commit info
 	 */
 	protected buildCommitPrompt(commit: CommitInfo, style: string): string {
-		// Truncate diff if it's too long
-		const maxDiffLength = 1000;
-		let diff = commit.diff;
-		if (diff.length > maxDiffLength) {
-			diff = diff.substring(0, maxDiffLength) + '\n... (truncated)';
+		if (this.config?.promptTemplate) {
+			return renderPromptTemplate(this.config.promptTemplate.body, commit, style, this.getDiffTokenBudget());
 		}
 
 		return `Analyze this Git commit and create a changelog entry.
 
 Commit message: "${commit.message}"
-Author: ${commit.author}
+${this.formatCommitBody(commit)}Author: ${commit.author}
 Date: ${commit.date}
 
 Code changes:
-${diff}
+${this.formatDiff(commit)}
 
 Please respond with a JSON object containing:
 - "type": one of "feat", "fix", "docs", "refactor", "style", "test", "chore"
 - "description": a clear, ${style} description of what changed
+- "breaking": ${BaseAIProvider.BREAKING_CHANGE_GUIDANCE}
+- "migrationNote": only when breaking, one sentence telling users how to migrate
 
 Example response:
-{"type": "feat", "description": "Add user authentication system with JWT tokens"}`;
+{"type": "feat", "description": "Add user authentication system with JWT tokens", "breaking": false}`;
 	}
 
 	/**
@@ -71,11 +156,11 @@ Example response:
 			const validTypes = ['feat', 'fix', 'docs', 'refactor', 'style', 'test', 'chore'];
 			const type = validTypes.includes(parsed.type) ? parsed.type : 'chore';
 			
-			return {
+			return this.applyBreakingChange({
 				type,
 				description: parsed.description || commit.message,
 				commit
-			};
+			}, parsed);
 		} catch (error) {
 			// If parsing fails, fall back to basic processing
 			console.error('Failed to parse AI response:', error);
@@ -113,35 +198,254 @@ Example response:
 			description += '.';
 		}
 
-		return {
+		return this.applyBreakingChange({
 			type,
 			description,
-			commit
-		};
+			commit,
+			fallback: true
+		});
+	}
+
+	/**
+	 * Merge the AI's breaking-change verdict with Conventional Commits markers;
+	 * a `BREAKING CHANGE:` footer written by the author wins over the AI's migration note
+	 */
+	protected applyBreakingChange(entry: ChangelogEntry, aiResult?: { breaking?: unknown; migrationNote?: unknown }): ChangelogEntry {
+		const conventional = getParsedCommit(entry.commit);
+		if (!conventional.breaking && aiResult?.breaking !== true) {
+			return entry;
+		}
+
+		const aiNote = typeof aiResult?.migrationNote === 'string' && aiResult.migrationNote.trim()
+			? aiResult.migrationNote.trim()
+			: undefined;
+
+		return { ...entry, breaking: true, migrationNote: conventional.breakingNote || aiNote };
+	}
+
+	/**
+	 * Run an API request through the provider's shared scheduler (concurrency, rate limit, retries)
+	 */
+	protected scheduleRequest<T>(request: () => Promise<T>): Promise<T> {
+		return getRequestScheduler(this.name, {
+			concurrency: this.config?.concurrency,
+			requestsPerMinute: this.config?.requestsPerMinute,
+			maxRetries: this.config?.maxRetries
+		}).schedule(request);
 	}
 
 	/**
 	 * Process a batch of commits with error handling
 	 */
 	protected async processBatch(commits: CommitInfo[], style: string): Promise<ChangelogEntry[]> {
-		const entries: ChangelogEntry[] = [];
+		const batchedEntries = commits.length > 1
+			? await this.processBatchPrompt(commits, style)
+			: new Map<string, ChangelogEntry>();
+
+		// Requests run concurrently; the scheduler keeps them within the provider's limits
+		const entries = await Promise.all(commits.map(async (commit): Promise<ChangelogEntry | null> => {
+			// Commits answered by the batched prompt skip the per-commit request
+			const batchedEntry = batchedEntries.get(commit.hash);
+			if (batchedEntry) {
+				return batchedEntry;
+			}
 
-		for (const commit of commits) {
 			try {
-				const entry = await this.processCommit(commit, style);
-				if (entry) {
-					entries.push(entry);
-				}
+				return await this.processCommit(commit, style);
 			} catch (error) {
 				console.error(`Failed to process commit ${commit.hash}:`, error);
 				// Fall back to basic processing
-				entries.push(this.fallbackProcessCommit(commit));
+				return this.fallbackProcessCommit(commit);
+			}
+		}));
+
+		return entries.filter((entry): entry is ChangelogEntry => !!entry);
+	}
+
+	/**
+	 * Ask for several commits in one request; returns the entries that came back valid, keyed by hash
+	 */
+	protected async processBatchPrompt(commits: CommitInfo[], style: string): Promise<Map<string, ChangelogEntry>> {
+		// A custom template describes a single commit, so every commit gets its own request
+		if (this.config?.batchPrompts === false || this.config?.promptTemplate) {
+			return new Map();
+		}
+
+		try {
+			const perEntryTokens = this.config?.maxTokens || 200;
+			const content = await this.requestCompletion(
+				this.getSystemPrompt(style),
+				this.buildBatchPrompt(commits, style),
+				Math.min(perEntryTokens * commits.length, BaseAIProvider.MAX_BATCH_RESPONSE_TOKENS)
+			);
+
+			return content ? this.parseBatchResponse(content, commits) : new Map();
+		} catch (error) {
+			console.error(`Batched request failed for ${commits.length} commits, processing individually:`, error);
+			return new Map();
+		}
+	}
+
+	/**
+	 * Send a single prompt to the provider and return the raw text reply.
+	 * Providers that cannot answer free-form prompts return null, which disables batching.
+	 */
+	protected async requestCompletion(systemPrompt: string, prompt: string, maxTokens: number): Promise<string | null> {
+		return null;
+	}
+
+	/**
+	 * Build one prompt that carries several commits
+	 */
+	protected buildBatchPrompt(commits: CommitInfo[], style: string): string {
+		return `Analyze these Git commits and create one changelog entry per commit.
+
+${commits.map(commit => this.buildBatchItem(commit)).join('\n\n')}
+
+Please respond with ONLY a JSON array containing one object per commit with:
+- "hash": the commit hash exactly as given
+- "type": one of "feat", "fix", "docs", "refactor", "style", "test", "chore"
+- "description": a clear, ${style} description of what changed
+- "breaking": ${BaseAIProvider.BREAKING_CHANGE_GUIDANCE}
+- "migrationNote": only when breaking, one sentence telling users how to migrate
+
+Example response:
+[{"hash": "a1b2c3d4e5f6", "type": "feat", "description": "Add user authentication system with JWT tokens", "breaking": false}]`;
+	}
+
+	/**
+	 * Describe a single commit inside a batched prompt
+	 */
+	protected buildBatchItem(commit: CommitInfo): string {
+		return `### Commit ${commit.hash.substring(0, BaseAIProvider.BATCH_HASH_LENGTH)}
+Commit message: "${commit.message}"
+${this.formatCommitBody(commit)}Author: ${commit.author}
+Date: ${commit.date}
+
+Code changes:
+${this.formatDiff(commit)}`;
+	}
+
+	/**
+	 * The commit's diff fitted into the model's budget, most significant hunks first
+	 */
+	protected formatDiff(commit: CommitInfo): string {
+		return summarizeDiff(commit.diff, this.getDiffTokenBudget());
+	}
+
+	/**
+	 * Diff tokens per commit: the configured budget, otherwise one derived from the model
+	 */
+	getDiffTokenBudget(): number {
+		return this.config?.diffTokenBudget || getDiffTokenBudget(this.getModel());
+	}
+
+	/**
+	 * Body text for a prompt, including footers such as BREAKING CHANGE notes
+	 */
+	protected formatCommitBody(commit: CommitInfo): string {
+		let body = commit.body?.trim();
+		if (!body) {
+			return '';
+		}
+		if (body.length > BaseAIProvider.MAX_BODY_LENGTH) {
+			body = body.substring(0, BaseAIProvider.MAX_BODY_LENGTH) + '\n... (truncated)';
+		}
+		return `Commit body:\n${body}\n`;
+	}
+
+	/**
+	 * Parse a batched JSON array reply; items that are missing or malformed are left out
+	 */
+	protected parseBatchResponse(content: string, commits: CommitInfo[]): Map<string, ChangelogEntry> {
+		const entries = new Map<string, ChangelogEntry>();
+
+		// Models often wrap JSON in prose or code fences, so take the outermost array
+		const start = content.indexOf('[');
+		const end = content.lastIndexOf(']');
+		if (start === -1 || end <= start) {
+			return entries;
+		}
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(content.substring(start, end + 1));
+		} catch (error) {
+			console.error('Failed to parse batched AI response:', error);
+			return entries;
+		}
+
+		if (!Array.isArray(parsed)) {
+			return entries;
+		}
+
+		const validTypes = ['feat', 'fix', 'docs', 'refactor', 'style', 'test', 'chore'];
+
+		for (const item of parsed) {
+			if (!item || typeof item.hash !== 'string' || typeof item.description !== 'string' || !item.description.trim()) {
+				continue;
+			}
+			if (!validTypes.includes(item.type)) {
+				continue;
 			}
+
+			// Match on prefix because models may echo a shortened hash
+			const hash = item.hash.trim();
+			if (hash.length < 7) {
+				continue;
+			}
+			const commit = commits.find(c => c.hash.startsWith(hash) || hash.startsWith(c.hash));
+			if (!commit || entries.has(commit.hash)) {
+				continue;
+			}
+
+			entries.set(commit.hash, this.applyBreakingChange({
+				type: item.type,
+				description: item.description.trim(),
+				commit
+			}, item));
 		}
 
 		return entries;
 	}
 
+	/**
+	 * Group commits so each batched prompt stays within the token budget
+	 */
+	protected packCommitBatches(commits: CommitInfo[]): CommitInfo[][] {
+		const budget = this.config?.batchTokenBudget || BaseAIProvider.DEFAULT_BATCH_TOKEN_BUDGET;
+		const batches: CommitInfo[][] = [];
+		let current: CommitInfo[] = [];
+		let currentTokens = 0;
+
+		for (const commit of commits) {
+			const tokens = this.estimateTokens(this.buildBatchItem(commit));
+			const full = current.length >= BaseAIProvider.MAX_COMMITS_PER_BATCH;
+
+			if (current.length > 0 && (full || currentTokens + tokens > budget)) {
+				batches.push(current);
+				current = [];
+				currentTokens = 0;
+			}
+
+			current.push(commit);
+			currentTokens += tokens;
+		}
+
+		if (current.length > 0) {
+			batches.push(current);
+		}
+
+		return batches;
+	}
+
+	/**
+	 * Rough token estimate (~4 characters per token for English text and code)
+	 */
+	protected estimateTokens(text: string): number {
+		return Math.ceil(text.length / 4);
+	}
+
 	/**
 	 * Process a single commit - to be implemented by providers
 	 */
@@ -155,17 +459,22 @@ Example response:
 			throw new Error(`${this.name} provider is not configured`);
 		}
 
-		const entries: ChangelogEntry[] = [];
-		
-		// Process commits in batches to avoid rate limits
-		const batchSize = 5;
-		for (let i = 0; i < commits.length; i += batchSize) {
-			const batch = commits.slice(i, i + batchSize);
-			const batchEntries = await this.processBatch(batch, style);
-			entries.push(...batchEntries);
-		}
+		// Pack commits into token-bounded batches; without batched prompts keep groups of 5
+		const batches = this.config?.batchPrompts === false
+			? this.chunkCommits(commits, 5)
+			: this.packCommitBatches(commits);
 
-		return entries;
+		// Batches are processed concurrently; Promise.all keeps the original commit order
+		const batchEntries = await Promise.all(batches.map(batch => this.processBatch(batch, style)));
+		return batchEntries.flat();
+	}
+
+	private chunkCommits(commits: CommitInfo[], size: number): CommitInfo[][] {
+		const chunks: CommitInfo[][] = [];
+		for (let i = 0; i < commits.length; i += size) {
+			chunks.push(commits.slice(i, i + size));
+		}
+		return chunks;
 	}
 
 	/**
@@ -0,0 +1,273 @@
+/**
+ * A `@@` section of a file diff
+ */
+export interface DiffHunk {
+	header: string;
+	lines: string[];
+	additions: number;
+	deletions: number;
+}
+
+/**
+ * One file of a unified diff
+ */
+export interface DiffFile {
+	path: string;
+	binary: boolean;
+	additions: number;
+	deletions: number;
+	hunks: DiffHunk[];
+}
+
+export type SkipReason = 'binary' | 'lockfile' | 'generated';
+
+/**
+ * Diff tokens per commit when the model's context window is unknown
+ */
+export const DEFAULT_DIFF_TOKEN_BUDGET = 512;
+const MAX_DIFF_TOKEN_BUDGET = 1500;
+const MAX_STAT_LINES = 20;
+const CHARS_PER_TOKEN = 4;
+
+// Context windows by model name prefix; the first match wins
+const MODEL_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+	[/^gpt-4o/, 128000],
+	[/^gpt-4-turbo/, 128000],
+	[/^gpt-4/, 8192],
+	[/^gpt-3\.5|^gpt-35/, 16385],
+	[/^claude/, 200000],
+	[/^gemini-1\.5/, 1000000],
+	[/^gemini/, 32768],
+	[/^(llama3\.[12]|qwen2\.5)/, 32768]
+];
+
+const LOCKFILES = [
+	'package-lock.json',
+	'npm-shrinkwrap.json',
+	'yarn.lock',
+	'pnpm-lock.yaml',
+	'bun.lockb',
+	'Cargo.lock',
+	'Gemfile.lock',
+	'composer.lock',
+	'poetry.lock',
+	'Pipfile.lock',
+	'go.sum',
+	'packages.lock.json'
+];
+
+const GENERATED_PATTERNS = [
+	/(^|\/)(dist|build|out|coverage|vendor|node_modules)\//,
+	/\.min\.(js|css)$/,
+	/\.(map|snap)$/,
+	/\.(generated|gen|pb)\.\w+$/,
+	/_pb2\.py$/
+];
+
+// Changed lines that alter the public surface of a module
+const EXPORTED_SYMBOL_PATTERNS = [
+	/^export\s/,
+	/^module\.exports\b/,
+	/^(public|protected)\s/,
+	/^pub(\([^)]*\))?\s/,
+	/^func\s+(\([^)]*\)\s*)?[A-Z]/
+];
+
+// Lines between `diff --git` and the first hunk
+const EXTENDED_HEADER_PATTERN = /^(index |(old|new|deleted file|new file) mode |similarity index |dissimilarity index |rename (from|to) |copy (from|to) |--- |\+\+\+ )/;
+
+// Changed lines that declare something, exported or not
+const DECLARATION_PATTERN = /^(async\s+)?(function|class|interface|type|enum|def|fn|struct|trait|const\s+\w+\s*=\s*(async\s*)?\()/;
+
+/**
+ * Split a unified diff into files and hunks
+ */
+export function parseDiff(diff: string): DiffFile[] {
+	const files: DiffFile[] = [];
+	let file: DiffFile | undefined;
+	let hunk: DiffHunk | undefined;
+
+	for (const line of diff.split('\n')) {
+		const header = line.match(/^diff --git a\/.+? b\/(.+)$/);
+		if (header) {
+			file = { path: header[1], binary: false, additions: 0, deletions: 0, hunks: [] };
+			hunk = undefined;
+			files.push(file);
+			continue;
+		}
+		if (!file) {
+			continue;
+		}
+
+		if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+			file.binary = true;
+		} else if (line.startsWith('@@')) {
+			hunk = { header: line, lines: [], additions: 0, deletions: 0 };
+			file.hunks.push(hunk);
+		} else if (!hunk && EXTENDED_HEADER_PATTERN.test(line)) {
+			continue;
+		} else {
+			// Patches without `@@` lines get one hunk without a header
+			if (!hunk) {
+				hunk = { header: '', lines: [], additions: 0, deletions: 0 };
+				file.hunks.push(hunk);
+			}
+			hunk.lines.push(line);
+			if (line.startsWith('+')) {
+				hunk.additions++;
+				file.additions++;
+			} else if (line.startsWith('-')) {
+				hunk.deletions++;
+				file.deletions++;
+			}
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Why a file is left out of the prompt, if it is
+ */
+export function getSkipReason(file: DiffFile): SkipReason | undefined {
+	if (file.binary) {
+		return 'binary';
+	}
+	const name = file.path.substring(file.path.lastIndexOf('/') + 1);
+	if (LOCKFILES.includes(name)) {
+		return 'lockfile';
+	}
+	if (GENERATED_PATTERNS.some(pattern => pattern.test(file.path))) {
+		return 'generated';
+	}
+	return undefined;
+}
+
+/**
+ * Rank a hunk: changes to exported symbols count most, tests and docs count least
+ */
+export function scoreHunk(file: DiffFile, hunk: DiffHunk): number {
+	let score = 0;
+
+	for (const line of hunk.lines) {
+		if (!line.startsWith('+') && !line.startsWith('-')) {
+			continue;
+		}
+		const content = line.substring(1).trim();
+		if (!content) {
+			continue;
+		}
+
+		if (EXPORTED_SYMBOL_PATTERNS.some(pattern => pattern.test(content))) {
+			score += 10;
+		} else if (DECLARATION_PATTERN.test(content)) {
+			score += 4;
+		} else {
+			score += 1;
+		}
+	}
+
+	if (/(^|\/)(test|tests|__tests__|spec)\/|\.(test|spec)\.\w+$/.test(file.path) || /\.(md|txt|rst)$/i.test(file.path)) {
+		score /= 2;
+	}
+
+	return score;
+}
+
+/**
+ * Diff token budget for a model: a slice of its context window, capped so prompts stay cheap
+ */
+export function getDiffTokenBudget(model?: string): number {
+	const contextWindow = MODEL_CONTEXT_WINDOWS.find(([pattern]) => model && pattern.test(model))?.[1];
+	if (!contextWindow) {
+		return DEFAULT_DIFF_TOKEN_BUDGET;
+	}
+	return Math.min(Math.floor(contextWindow / 16), MAX_DIFF_TOKEN_BUDGET);
+}
+
+/**
+ * Prepare a diff for a prompt within a token budget.
+ * A per-file stat summary comes first, then the most significant hunks in file order; binary,
+ * lockfile and generated files only appear in the summary. Text that is not a git diff is truncated.
+ */
+export function summarizeDiff(diff: string, tokenBudget: number = DEFAULT_DIFF_TOKEN_BUDGET): string {
+	const maxLength = tokenBudget * CHARS_PER_TOKEN;
+	const files = parseDiff(diff);
+
+	if (files.length === 0) {
+		return diff.length > maxLength ? diff.substring(0, maxLength) + '\n... (truncated)' : diff;
+	}
+
+	const summary = formatStatSummary(files);
+	let remaining = maxLength - summary.length;
+
+	const candidates = files
+		.filter(file => !getSkipReason(file))
+		.flatMap(file => file.hunks.map(hunk => ({ file, hunk, score: scoreHunk(file, hunk), text: formatHunk(hunk) })))
+		.sort((a, b) => b.score - a.score);
+
+	const selected = new Set<DiffHunk>();
+	const fileHeaders = new Set<DiffFile>();
+	for (const candidate of candidates) {
+		const cost = candidate.text.length + 1 + (fileHeaders.has(candidate.file) ? 0 : formatFileHeader(candidate.file).length);
+		if (cost <= remaining) {
+			selected.add(candidate.hunk);
+			fileHeaders.add(candidate.file);
+			remaining -= cost;
+		}
+	}
+
+	// Never send the summary alone when the top hunk merely overflows the budget
+	let partial: DiffHunk | undefined;
+	if (selected.size === 0 && candidates.length > 0) {
+		const top = candidates[0];
+		partial = top.hunk;
+		selected.add(top.hunk);
+		fileHeaders.add(top.file);
+		top.text = top.text.substring(0, Math.max(remaining - formatFileHeader(top.file).length, 0)) + '\n... (truncated)';
+	}
+
+	let result = summary;
+	for (const file of files.filter(file => fileHeaders.has(file))) {
+		result += formatFileHeader(file);
+		for (const candidate of candidates.filter(candidate => candidate.file === file && selected.has(candidate.hunk))) {
+			result += candidate.hunk === partial ? candidate.text : `${candidate.text}\n`;
+		}
+	}
+
+	const omitted = candidates.length - selected.size;
+	if (omitted > 0) {
+		result += `\n... (${omitted} of ${candidates.length} hunks omitted)`;
+	}
+
+	return result.trimEnd();
+}
+
+function formatStatSummary(files: DiffFile[]): string {
+	const additions = files.reduce((sum, file) => sum + file.additions, 0);
+	const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+	let summary = `${files.length} file${files.length === 1 ? '' : 's'} changed, +${additions} -${deletions}\n`;
+	for (const file of files.slice(0, MAX_STAT_LINES)) {
+		const reason = getSkipReason(file);
+		summary += reason ? ` ${file.path} | skipped (${reason})\n` : ` ${file.path} | +${file.additions} -${file.deletions}\n`;
+	}
+	if (files.length > MAX_STAT_LINES) {
+		summary += ` ... and ${files.length - MAX_STAT_LINES} more files\n`;
+	}
+
+	return summary;
+}
+
+function formatFileHeader(file: DiffFile): string {
+	return `\ndiff --git a/${file.path} b/${file.path}\n`;
+}
+
+function formatHunk(hunk: DiffHunk): string {
+	// Drop the blank line git leaves at the end of each file
+	const lines = [...hunk.lines];
+	while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+		lines.pop();
+	}
+	return (hunk.header ? [hunk.header, ...lines] : lines).join('\n');
+}
@@ -38,8 +38,8 @@ export function sanitizeErrorMessage(errorMessage: any): string {
 		// Authorization headers
 		/Authorization:\s*Bearer\s+[a-zA-Z0-9_-]{16,}/gi,
 		
-		// API key headers
-		/x-api-key:\s*[a-zA-Z0-9_-]{14,}/gi,
+		// API key headers (Anthropic x-api-key, Azure OpenAI api-key)
+		/(x-)?api-key:\s*[a-zA-Z0-9_-]{14,}/gi,
 		
 		// JSON key-value pairs that might contain sensitive data
 		/"[a-zA-Z]*[kK]ey":\s*"[a-zA-Z0-9_-]{12,}"/gi,
@@ -3,6 +3,8 @@ import { OpenAIProvider } from './openai-provider';
 import { AnthropicProvider } from './anthropic-provider';
 import { GoogleProvider } from './google-provider';
 import { OfflineProvider } from './offline-provider';
+import { AzureOpenAIProvider } from './azure-openai-provider';
+import { LocalProvider } from './local-provider';
 
 export class ProviderFactory implements AIProviderFactory {
 	createProvider(type: AIProviderType): AIProvider {
@@ -16,15 +18,16 @@ export class ProviderFactory implements AIProviderFactory {
 			case 'offline':
 				return new OfflineProvider();
 			case 'azure':
-				// TODO: Implement Azure OpenAI provider
-				throw new Error('Azure OpenAI provider not yet implemented');
+				return new AzureOpenAIProvider();
+			case 'local':
+				return new LocalProvider();
 			default:
 				throw new Error(`Unknown provider type: ${type}`);
 		}
 	}
 
 	getSupportedProviders(): AIProviderType[] {
-		return ['openai', 'anthropic', 'google', 'offline'];
+		return ['openai', 'anthropic', 'google', 'azure', 'local', 'offline'];
 	}
 }
 
@@ -1,6 +1,7 @@
 import { BaseAIProvider } from './base-provider';
-import { AIProviderConfig, ChangelogEntry, CommitInfo, UsageStats } from './types';
+import { AIProviderConfig, ChangelogEntry, CommitInfo } from './types';
 import { sanitizeErrorMessage } from './error-sanitizer';
+import { ProviderRequestError } from './request-scheduler';
 
 // Google Gemini API types (simplified)
 interface GeminiContent {
@@ -28,10 +29,6 @@ export class GoogleProvider extends BaseAIProvider {
 
 	private apiKey?: string;
 	private baseURL = 'https://generativelanguage.googleapis.com/v1beta/models';
-	private usageStats: UsageStats = {
-		tokensUsed: 0,
-		requestsCount: 0
-	};
 
 	async initialize(config: AIProviderConfig): Promise<void> {
 		this.config = config;
@@ -67,6 +64,18 @@ export class GoogleProvider extends BaseAIProvider {
 		}
 	}
 
+	protected async requestCompletion(systemPrompt: string, prompt: string, maxTokens: number): Promise<string | null> {
+		if (!this.isConfigured()) {
+			return null;
+		}
+
+		const response = await this.makeGeminiRequest([
+			{ role: 'user', parts: [{ text: `${systemPrompt}\n\n${prompt}` }] }
+		], maxTokens);
+
+		return response.candidates[0]?.content?.parts[0]?.text?.trim() || null;
+	}
+
 	async generateSummary(entries: ChangelogEntry[]): Promise<string> {
 		if (!this.isConfigured() || entries.length === 0) {
 			return super.generateSummary(entries);
@@ -116,7 +125,7 @@ Author: ${commit.author}
 Date: ${commit.date}
 
 Code changes:
-${commit.diff.substring(0, 800)}${commit.diff.length > 800 ? '\n... (truncated)' : ''}
+${this.formatDiff(commit)}
 
 Respond with ONLY one of these categories:
 - feat: new features or functionality
@@ -162,7 +171,7 @@ Original commit message: "${commit.message}"
 Author: ${commit.author}
 
 Code changes:
-${commit.diff.substring(0, 1000)}${commit.diff.length > 1000 ? '\n... (truncated)' : ''}
+${this.formatDiff(commit)}
 
 Requirements:
 - Write a clear, concise description of what changed
@@ -186,11 +195,7 @@ Enhanced description:`;
 		}
 	}
 
-	async getUsageStats(): Promise<UsageStats> {
-		return { ...this.usageStats };
-	}
-
-	private async makeGeminiRequest(contents: GeminiContent[]): Promise<GeminiResponse> {
+	private async makeGeminiRequest(contents: GeminiContent[], maxTokens?: number): Promise<GeminiResponse> {
 		if (!this.apiKey) {
 			throw new Error('Google API key not configured');
 		}
@@ -198,34 +203,37 @@ Enhanced description:`;
 		const model = this.config?.model || this.defaultModel;
 		const url = `${this.baseURL}/${model}:generateContent?key=${this.apiKey}`;
 
-		const response = await fetch(url, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-			},
-			body: JSON.stringify({
-				contents,
-				generationConfig: {
-					temperature: this.config?.temperature || 0.3,
-					maxOutputTokens: this.config?.maxTokens || 200,
-				}
-			})
-		});
+		const response = await this.scheduleRequest(async () => {
+			const response = await fetch(url, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					contents,
+					generationConfig: {
+						temperature: this.config?.temperature ?? 0.3,
+						maxOutputTokens: maxTokens || this.config?.maxTokens || 200,
+					}
+				})
+			});
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				const sanitizedError = sanitizeErrorMessage(errorText);
+				throw ProviderRequestError.fromResponse(`Google Gemini API error: ${response.status} ${sanitizedError}`, response);
+			}
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			const sanitizedError = sanitizeErrorMessage(errorText);
-			throw new Error(`Google Gemini API error: ${response.status} ${sanitizedError}`);
-		}
+			return response;
+		});
 
 		const result = await response.json() as GeminiResponse;
 
-		// Update usage stats
-		if (result.usageMetadata) {
-			this.usageStats.tokensUsed += result.usageMetadata.totalTokenCount;
-		}
-		this.usageStats.requestsCount++;
-		this.usageStats.lastRequest = new Date();
+		this.recordUsage({
+			inputTokens: result.usageMetadata?.promptTokenCount,
+			outputTokens: result.usageMetadata?.candidatesTokenCount,
+			totalTokens: result.usageMetadata?.totalTokenCount
+		});
 
 		return result;
 	}
@@ -9,6 +9,23 @@ export { OpenAIProvider } from './openai-provider';
 export { AnthropicProvider } from './anthropic-provider';
 export { GoogleProvider } from './google-provider';
 export { OfflineProvider } from './offline-provider';
+export { AzureOpenAIProvider } from './azure-openai-provider';
+export { LocalProvider } from './local-provider';
+
+// Request scheduling
+export { RequestScheduler, RequestSchedulerOptions, ProviderRequestError, getRequestScheduler } from './request-scheduler';
+
+// Prompt templates
+export {
+	PromptTemplate,
+	PromptTemplateError,
+	PROMPT_TEMPLATE_DIR,
+	PROMPT_TEMPLATE_VARIABLES,
+	getChangedFiles,
+	loadPromptTemplates,
+	parsePromptTemplate,
+	renderPromptTemplate
+} from './prompt-template';
 
 // Factory
 export { ProviderFactory, providerFactory } from './factory';
@@ -0,0 +1,50 @@
+import OpenAI from 'openai';
+import { OpenAIProvider } from './openai-provider';
+import { AIProviderConfig } from './types';
+import { sanitizeErrorMessage } from './error-sanitizer';
+
+/**
+ * Provider for self-hosted models served through an OpenAI-compatible API
+ * (Ollama, LM Studio, llama.cpp server, vLLM, ...). Diffs never leave the machine
+ * or network the endpoint runs on, and no API key is required.
+ */
+export class LocalProvider extends OpenAIProvider {
+	readonly name = 'Local LLM';
+	readonly availableModels = ['llama3.1', 'llama3.2', 'qwen2.5-coder', 'mistral', 'codellama'];
+	readonly defaultModel = 'llama3.1';
+
+	static readonly DEFAULT_ENDPOINT = 'http://localhost:11434/v1';
+
+	async initialize(config: AIProviderConfig): Promise<void> {
+		this.config = config;
+		this.openai = new OpenAI({
+			// Most local servers ignore the key, but the client requires a value
+			apiKey: config.apiKey || 'local',
+			baseURL: LocalProvider.normalizeEndpoint(config.endpoint || LocalProvider.DEFAULT_ENDPOINT),
+			maxRetries: 0,
+		});
+	}
+
+	/**
+	 * Check that the server is reachable by listing its models
+	 */
+	async testConnection(): Promise<void> {
+		if (!this.openai) {
+			throw new Error('Local LLM provider is not configured');
+		}
+
+		try {
+			await this.openai.models.list();
+		} catch (error) {
+			throw new Error(`Local LLM server not reachable: ${sanitizeErrorMessage(error instanceof Error ? error.message : String(error))}`);
+		}
+	}
+
+	/**
+	 * Accept both the server root and its /v1 path, e.g. http://localhost:11434 for Ollama
+	 */
+	static normalizeEndpoint(endpoint: string): string {
+		const trimmed = endpoint.trim().replace(/\/+$/, '');
+		return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+	}
+}
@@ -31,7 +31,7 @@ export class OfflineProvider extends BaseAIProvider {
 		const diff = commit.diff.toLowerCase();
 
 		// Check conventional commit patterns first
-		const conventionalMatch = commit.message.match(/^(feat|fix|docs|refactor|style|test|chore)(\(.+\))?:/i);
+		const conventionalMatch = commit.message.match(/^(feat|fix|docs|refactor|style|test|chore)(\(.+\))?!?:/i);
 		if (conventionalMatch) {
 			return conventionalMatch[1].toLowerCase() as ChangelogEntry['type'];
 		}
@@ -1,23 +1,20 @@
 import OpenAI from 'openai';
 import { BaseAIProvider } from './base-provider';
-import { AIProviderConfig, ChangelogEntry, CommitInfo, UsageStats } from './types';
+import { AIProviderConfig, ChangelogEntry, CommitInfo } from './types';
 import { sanitizeErrorMessage } from './error-sanitizer';
 
 export class OpenAIProvider extends BaseAIProvider {
-	readonly name = 'OpenAI';
+	readonly name: string = 'OpenAI';
 	readonly availableModels = ['gpt-3.5-turbo', 'gpt-4', 'gpt-4o', 'gpt-4o-mini'];
-	readonly defaultModel = 'gpt-3.5-turbo';
-
-	private openai?: OpenAI;
-	private usageStats: UsageStats = {
-		tokensUsed: 0,
-		requestsCount: 0
-	};
+	readonly defaultModel: string = 'gpt-3.5-turbo';
 
+	protected openai?: OpenAI;
 	async initialize(config: AIProviderConfig): Promise<void> {
 		this.config = config;
 		this.openai = new OpenAI({
 			apiKey: config.apiKey,
+			// Retries are handled by the shared request scheduler
+			maxRetries: 0,
 		});
 	}
 
@@ -33,7 +30,7 @@ export class OpenAIProvider extends BaseAIProvider {
 		const prompt = this.buildCommitPrompt(commit, style);
 
 		try {
-			const response = await this.openai.chat.completions.create({
+			const response = await this.scheduleRequest(() => this.openai!.chat.completions.create({
 				model: this.config?.model || this.defaultModel,
 				messages: [
 					{
@@ -46,13 +43,14 @@ export class OpenAIProvider extends BaseAIProvider {
 					}
 				],
 				max_tokens: this.config?.maxTokens || 200,
-				temperature: this.config?.temperature || 0.3,
-			});
+				temperature: this.config?.temperature ?? 0.3,
+			}));
 
-			// Update usage stats
-			this.usageStats.tokensUsed += response.usage?.total_tokens || 0;
-			this.usageStats.requestsCount++;
-			this.usageStats.lastRequest = new Date();
+			this.recordUsage({
+				inputTokens: response.usage?.prompt_tokens,
+				outputTokens: response.usage?.completion_tokens,
+				totalTokens: response.usage?.total_tokens
+			});
 
 			const content = response.choices[0]?.message?.content?.trim();
 			if (!content) {
@@ -62,11 +60,41 @@ export class OpenAIProvider extends BaseAIProvider {
 			return this.parseAIResponse(content, commit);
 		} catch (error) {
 			const sanitizedError = sanitizeErrorMessage(String(error));
-			console.error('OpenAI API error:', sanitizedError);
+			console.error(`${this.name} API error:`, sanitizedError);
 			return this.fallbackProcessCommit(commit);
 		}
 	}
 
+	protected async requestCompletion(systemPrompt: string, prompt: string, maxTokens: number): Promise<string | null> {
+		if (!this.openai) {
+			return null;
+		}
+
+		const response = await this.scheduleRequest(() => this.openai!.chat.completions.create({
+			model: this.config?.model || this.defaultModel,
+			messages: [
+				{
+					role: 'system',
+					content: systemPrompt
+				},
+				{
+					role: 'user',
+					content: prompt
+				}
+			],
+			max_tokens: maxTokens,
+			temperature: this.config?.temperature ?? 0.3,
+		}));
+
+		this.recordUsage({
+			inputTokens: response.usage?.prompt_tokens,
+			outputTokens: response.usage?.completion_tokens,
+			totalTokens: response.usage?.total_tokens
+		});
+
+		return response.choices[0]?.message?.content?.trim() || null;
+	}
+
 	async generateSummary(entries: ChangelogEntry[]): Promise<string> {
 		if (!this.isConfigured() || entries.length === 0) {
 			return super.generateSummary(entries);
@@ -89,7 +117,7 @@ ${Object.entries(entriesByType).map(([type, descriptions]) =>
 Write a 1-2 sentence summary that highlights the most important changes.`;
 
 		try {
-			const response = await this.openai!.chat.completions.create({
+			const response = await this.scheduleRequest(() => this.openai!.chat.completions.create({
 				model: this.config?.model || this.defaultModel,
 				messages: [
 					{
@@ -103,12 +131,13 @@ Write a 1-2 sentence summary that highlights the most important changes.`;
 				],
 				max_tokens: 100,
 				temperature: 0.5,
-			});
+			}));
 
-			// Update usage stats
-			this.usageStats.tokensUsed += response.usage?.total_tokens || 0;
-			this.usageStats.requestsCount++;
-			this.usageStats.lastRequest = new Date();
+			this.recordUsage({
+				inputTokens: response.usage?.prompt_tokens,
+				outputTokens: response.usage?.completion_tokens,
+				totalTokens: response.usage?.total_tokens
+			});
 
 			return response.choices[0]?.message?.content?.trim() || super.generateSummary(entries);
 		} catch (error) {
@@ -130,7 +159,7 @@ Author: ${commit.author}
 Date: ${commit.date}
 
 Code changes:
-${commit.diff.substring(0, 800)}${commit.diff.length > 800 ? '\n... (truncated)' : ''}
+${this.formatDiff(commit)}
 
 Respond with ONLY one of these categories:
 - feat: new features or functionality
@@ -144,7 +173,7 @@ Respond with ONLY one of these categories:
 Category:`;
 
 		try {
-			const response = await this.openai!.chat.completions.create({
+			const response = await this.scheduleRequest(() => this.openai!.chat.completions.create({
 				model: this.config?.model || this.defaultModel,
 				messages: [
 					{
@@ -158,12 +187,13 @@ Category:`;
 				],
 				max_tokens: 10,
 				temperature: 0.1,
-			});
+			}));
 
-			// Update usage stats
-			this.usageStats.tokensUsed += response.usage?.total_tokens || 0;
-			this.usageStats.requestsCount++;
-			this.usageStats.lastRequest = new Date();
+			this.recordUsage({
+				inputTokens: response.usage?.prompt_tokens,
+				outputTokens: response.usage?.completion_tokens,
+				totalTokens: response.usage?.total_tokens
+			});
 
 			const category = response.choices[0]?.message?.content?.trim()?.toLowerCase();
 			const validTypes = ['feat', 'fix', 'docs', 'refactor', 'style', 'test', 'chore'];
@@ -192,7 +222,7 @@ Original commit message: "${commit.message}"
 Author: ${commit.author}
 
 Code changes:
-${commit.diff.substring(0, 1000)}${commit.diff.length > 1000 ? '\n... (truncated)' : ''}
+${this.formatDiff(commit)}
 
 Requirements:
 - Write a clear, concise description of what changed
@@ -204,7 +234,7 @@ Requirements:
 Enhanced description:`;
 
 		try {
-			const response = await this.openai!.chat.completions.create({
+			const response = await this.scheduleRequest(() => this.openai!.chat.completions.create({
 				model: this.config?.model || this.defaultModel,
 				messages: [
 					{
@@ -218,12 +248,13 @@ Enhanced description:`;
 				],
 				max_tokens: 50,
 				temperature: 0.3,
-			});
+			}));
 
-			// Update usage stats
-			this.usageStats.tokensUsed += response.usage?.total_tokens || 0;
-			this.usageStats.requestsCount++;
-			this.usageStats.lastRequest = new Date();
+			this.recordUsage({
+				inputTokens: response.usage?.prompt_tokens,
+				outputTokens: response.usage?.completion_tokens,
+				totalTokens: response.usage?.total_tokens
+			});
 
 			const enhanced = response.choices[0]?.message?.content?.trim();
 			return enhanced && enhanced.length > 0 ? enhanced : super.enhanceDescription(commit);
@@ -233,8 +264,4 @@ Enhanced description:`;
 			return super.enhanceDescription(commit);
 		}
 	}
-
-	async getUsageStats(): Promise<UsageStats> {
-		return { ...this.usageStats };
-	}
 }
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitInfo } from './types';
+import { DEFAULT_DIFF_TOKEN_BUDGET, summarizeDiff } from './diff-preprocessor';
+import { getParsedCommit } from '../conventional-commits';
+
+/**
+ * Folder (relative to the repository root) that holds custom prompt templates
+ */
+export const PROMPT_TEMPLATE_DIR = path.join('.shipnote', 'prompts');
+
+/**
+ * Placeholders that can be used in a template body
+ */
+export const PROMPT_TEMPLATE_VARIABLES = ['message', 'body', 'scope', 'diff', 'author', 'date', 'hash', 'style', 'files'] as const;
+
+const TEMPLATE_EXTENSIONS = ['.md', '.txt', '.prompt'];
+const FRONT_MATTER_KEYS = ['description', 'system'];
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export interface PromptTemplate {
+	name: string;
+	description?: string;
+	/**
+	 * Replaces the built-in system prompt; may use {{style}}
+	 */
+	system?: string;
+	/**
+	 * Per-commit prompt with {{placeholders}}
+	 */
+	body: string;
+	/**
+	 * File the template was loaded from
+	 */
+	source?: string;
+}
+
+export class PromptTemplateError extends Error {
+	constructor(
+		message: string,
+		readonly templateName: string,
+		readonly source?: string
+	) {
+		super(`Prompt template "${templateName}": ${message}`);
+		this.name = 'PromptTemplateError';
+	}
+}
+
+/**
+ * Parse and validate a template file. An optional front matter block sets
+ * `description` and `system`; everything after it is the per-commit prompt.
+ *
+ * ```
+ * ---
+ * description: Customer-facing release notes
+ * system: You write release notes for {{style}} readers.
+ * ---
+ * Summarize "{{message}}" (files: {{files}}) ... respond with JSON ...
+ * ```
+ */
+export function parsePromptTemplate(name: string, content: string, source?: string): PromptTemplate {
+	const template: PromptTemplate = { name, body: content, source };
+
+	const frontMatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+	if (frontMatter) {
+		template.body = content.slice(frontMatter[0].length);
+
+		for (const line of frontMatter[1].split(/\r?\n/)) {
+			if (!line.trim()) {
+				continue;
+			}
+
+			const separator = line.indexOf(':');
+			const key = separator > 0 ? line.slice(0, separator).trim() : '';
+			if (!FRONT_MATTER_KEYS.includes(key)) {
+				throw new PromptTemplateError(`unknown front matter line "${line.trim()}" (allowed keys: ${FRONT_MATTER_KEYS.join(', ')})`, name, source);
+			}
+
+			const value = line.slice(separator + 1).trim();
+			if (key === 'description') {
+				template.description = value;
+			} else {
+				template.system = value;
+			}
+		}
+	}
+
+	template.body = template.body.trim();
+	validatePromptTemplate(template);
+	return template;
+}
+
+/**
+ * Check placeholders and required content; throws PromptTemplateError on the first problem
+ */
+export function validatePromptTemplate(template: PromptTemplate): void {
+	const fail = (message: string) => {
+		throw new PromptTemplateError(message, template.name, template.source);
+	};
+
+	if (!template.body) {
+		fail('the prompt body is empty');
+	}
+
+	const bodyVariables = getPlaceholders(template.body);
+	const unknown = bodyVariables.filter(variable => !(PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(variable));
+	if (unknown.length > 0) {
+		fail(`unknown placeholder ${unknown.map(v => `{{${v}}}`).join(', ')} (available: ${PROMPT_TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(', ')})`);
+	}
+
+	if (!bodyVariables.includes('message') && !bodyVariables.includes('diff')) {
+		fail('the prompt must include {{message}} or {{diff}}');
+	}
+
+	// Replies are parsed as JSON, so the template has to ask for it
+	if (!/json/i.test(template.body)) {
+		fail('the prompt must ask for a JSON reply with "type" and "description"');
+	}
+
+	if (template.system) {
+		const systemUnknown = getPlaceholders(template.system).filter(variable => variable !== 'style');
+		if (systemUnknown.length > 0) {
+			fail(`the system prompt may only use {{style}}, found ${systemUnknown.map(v => `{{${v}}}`).join(', ')}`);
+		}
+	}
+}
+
+/**
+ * Fill in a template's placeholders for one commit
+ */
+export function renderPromptTemplate(text: string, commit: CommitInfo, style: string, diffTokenBudget = DEFAULT_DIFF_TOKEN_BUDGET): string {
+	const diff = summarizeDiff(commit.diff, diffTokenBudget);
+
+	const files = commit.files ?? getChangedFiles(commit.diff);
+	const values: Record<string, string> = {
+		message: commit.message,
+		body: commit.body?.trim() || '',
+		scope: getParsedCommit(commit).scope || '',
+		diff,
+		author: commit.author,
+		date: commit.date,
+		hash: commit.hash,
+		style,
+		files: files.length > 0 ? files.join(', ') : '(unknown)'
+	};
+
+	return text.replace(PLACEHOLDER_PATTERN, (placeholder, variable: string) => values[variable] ?? placeholder);
+}
+
+/**
+ * List the files touched by a unified diff
+ */
+export function getChangedFiles(diff: string): string[] {
+	const files = new Set<string>();
+	for (const match of diff.matchAll(/^diff --git a\/.+? b\/(.+)$/gm)) {
+		files.add(match[1]);
+	}
+
+	// Plain patches without git headers
+	if (files.size === 0) {
+		for (const match of diff.matchAll(/^\+\+\+ b\/(.+)$/gm)) {
+			files.add(match[1]);
+		}
+	}
+
+	return [...files];
+}
+
+/**
+ * Load every template in `.shipnote/prompts/`; invalid files are reported instead of loaded
+ */
+export async function loadPromptTemplates(repoPath: string): Promise<{ templates: PromptTemplate[]; errors: PromptTemplateError[] }> {
+	const directory = path.join(repoPath, PROMPT_TEMPLATE_DIR);
+	const templates: PromptTemplate[] = [];
+	const errors: PromptTemplateError[] = [];
+
+	let files: string[];
+	try {
+		files = await fs.promises.readdir(directory);
+	} catch {
+		// No templates folder in this repository
+		return { templates, errors };
+	}
+
+	for (const file of files.sort()) {
+		const extension = path.extname(file);
+		if (!TEMPLATE_EXTENSIONS.includes(extension)) {
+			continue;
+		}
+
+		const name = path.basename(file, extension);
+		const source = path.join(directory, file);
+		try {
+			const content = await fs.promises.readFile(source, 'utf8');
+			templates.push(parsePromptTemplate(name, content, source));
+		} catch (error) {
+			errors.push(error instanceof PromptTemplateError
+				? error
+				: new PromptTemplateError(error instanceof Error ? error.message : 'Unknown error', name, source));
+		}
+	}
+
+	return { templates, errors };
+}
+
+function getPlaceholders(text: string): string[] {
+	return [...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+}
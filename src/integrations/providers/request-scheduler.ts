@@ -0,0 +1,224 @@
+export interface RequestSchedulerOptions {
+	/**
+	 * Maximum number of requests in flight at the same time
+	 */
+	concurrency: number;
+	/**
+	 * Sustained request rate; short bursts up to `concurrency` are allowed
+	 */
+	requestsPerMinute: number;
+	/**
+	 * Retries after a rate-limit (429) or server (5xx) error
+	 */
+	maxRetries: number;
+	/**
+	 * First backoff delay, doubled on every retry
+	 */
+	baseDelayMs: number;
+	/**
+	 * Upper bound for a single backoff delay
+	 */
+	maxDelayMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: RequestSchedulerOptions = {
+	concurrency: 4,
+	requestsPerMinute: 60,
+	maxRetries: 3,
+	baseDelayMs: 1000,
+	maxDelayMs: 30000
+};
+
+/**
+ * HTTP error returned by an AI provider, carrying what the scheduler needs to decide on a retry
+ */
+export class ProviderRequestError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+		readonly retryAfterMs?: number
+	) {
+		super(message);
+		this.name = 'ProviderRequestError';
+	}
+
+	/**
+	 * Build an error from a failed fetch response
+	 */
+	static fromResponse(message: string, response: Response): ProviderRequestError {
+		return new ProviderRequestError(message, response.status, getRetryAfterMs(response.headers));
+	}
+}
+
+/**
+ * Read the delay requested by `retry-after-ms` or `Retry-After` (seconds or HTTP date)
+ */
+export function getRetryAfterMs(headers: { get(name: string): string | null } | undefined): number | undefined {
+	if (!headers || typeof headers.get !== 'function') {
+		return undefined;
+	}
+
+	const milliseconds = Number(headers.get('retry-after-ms'));
+	if (milliseconds > 0) {
+		return milliseconds;
+	}
+
+	const retryAfter = headers.get('retry-after');
+	if (!retryAfter) {
+		return undefined;
+	}
+
+	const seconds = Number(retryAfter);
+	if (!isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(retryAfter);
+	return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Rate-limit (429) and server (5xx) errors are worth retrying; everything else fails fast
+ */
+export function isRetryableError(error: unknown): boolean {
+	const status = (error as { status?: unknown })?.status;
+	return typeof status === 'number' && (status === 429 || status >= 500);
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs provider requests with bounded concurrency, a token-bucket rate limit and retries
+ */
+export class RequestScheduler {
+	private options: RequestSchedulerOptions;
+	private active = 0;
+	private waiting: Array<() => void> = [];
+	private tokens: number;
+	private lastRefill = Date.now();
+	private pausedUntil = 0;
+
+	constructor(options: Partial<RequestSchedulerOptions> = {}) {
+		this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...RequestScheduler.definedOptions(options) };
+		this.tokens = this.options.concurrency;
+	}
+
+	/**
+	 * Apply new limits; requests already running are not affected
+	 */
+	configure(options: Partial<RequestSchedulerOptions>): void {
+		this.options = { ...this.options, ...RequestScheduler.definedOptions(options) };
+		this.tokens = Math.min(this.tokens, this.options.concurrency);
+		this.releaseWaiting();
+	}
+
+	/**
+	 * Run a request once a slot and a rate-limit token are free, retrying transient failures
+	 */
+	async schedule<T>(request: () => Promise<T>): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+			await this.acquireSlot();
+			try {
+				await this.acquireToken();
+				return await request();
+			} catch (error) {
+				if (attempt >= this.options.maxRetries || !isRetryableError(error)) {
+					throw error;
+				}
+
+				const delay = this.getRetryDelay(error, attempt);
+				// Everyone sharing this provider backs off, not just the request that was rejected
+				this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+				console.error(`Request failed with status ${(error as { status: number }).status}, retrying in ${delay}ms`);
+			} finally {
+				this.releaseSlot();
+			}
+		}
+	}
+
+	// Unset settings keep their current value instead of overwriting it with undefined
+	private static definedOptions(options: Partial<RequestSchedulerOptions>): Partial<RequestSchedulerOptions> {
+		return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+	}
+
+	private getRetryDelay(error: unknown, attempt: number): number {
+		const retryAfter = (error as { retryAfterMs?: number }).retryAfterMs
+			?? getRetryAfterMs((error as { headers?: { get(name: string): string | null } }).headers);
+		if (retryAfter !== undefined) {
+			return Math.min(retryAfter, this.options.maxDelayMs);
+		}
+
+		// Exponential backoff with jitter so parallel retries do not collide
+		const backoff = this.options.baseDelayMs * Math.pow(2, attempt);
+		return Math.min(backoff + Math.random() * this.options.baseDelayMs, this.options.maxDelayMs);
+	}
+
+	private async acquireSlot(): Promise<void> {
+		if (this.active < this.options.concurrency) {
+			this.active++;
+			return;
+		}
+
+		// The releasing request hands its slot over directly, so `active` stays unchanged
+		await new Promise<void>(resolve => this.waiting.push(resolve));
+	}
+
+	private releaseSlot(): void {
+		if (this.waiting.length > 0 && this.active <= this.options.concurrency) {
+			this.waiting.shift()!();
+		} else {
+			this.active--;
+		}
+	}
+
+	private releaseWaiting(): void {
+		while (this.waiting.length > 0 && this.active < this.options.concurrency) {
+			this.active++;
+			this.waiting.shift()!();
+		}
+	}
+
+	private async acquireToken(): Promise<void> {
+		for (;;) {
+			const now = Date.now();
+			if (now < this.pausedUntil) {
+				await sleep(this.pausedUntil - now);
+				continue;
+			}
+
+			this.refill(now);
+			if (this.tokens >= 1) {
+				this.tokens--;
+				return;
+			}
+
+			const msPerToken = 60000 / this.options.requestsPerMinute;
+			await sleep(Math.ceil((1 - this.tokens) * msPerToken));
+		}
+	}
+
+	private refill(now: number): void {
+		const elapsed = now - this.lastRefill;
+		this.lastRefill = now;
+		this.tokens = Math.min(
+			this.options.concurrency,
+			this.tokens + (elapsed * this.options.requestsPerMinute) / 60000
+		);
+	}
+}
+
+const sharedSchedulers = new Map<string, RequestScheduler>();
+
+/**
+ * Get the scheduler shared by every client of a provider, updating its limits
+ */
+export function getRequestScheduler(key: string, options: Partial<RequestSchedulerOptions> = {}): RequestScheduler {
+	let scheduler = sharedSchedulers.get(key);
+	if (!scheduler) {
+		scheduler = new RequestScheduler(options);
+		sharedSchedulers.set(key, scheduler);
+	} else {
+		scheduler.configure(options);
+	}
+	return scheduler;
+}
@@ -1,15 +1,64 @@
+import type { PromptTemplate } from './prompt-template';
+import type { ParsedCommit } from '../conventional-commits';
+import type { PullRequestInfo } from '../pull-requests';
+import type { PathFilter } from '../path-filter';
+import type { WritingStyle } from '../../config/styleRegistry';
+
 export interface ChangelogEntry {
 	type: 'feat' | 'fix' | 'docs' | 'refactor' | 'style' | 'test' | 'chore';
 	description: string;
 	commit: CommitInfo;
+	/**
+	 * Set when the entry was derived from the commit message because the AI was unavailable
+	 */
+	fallback?: boolean;
+	/**
+	 * Set when the change breaks existing users (Conventional Commits marker or AI diff analysis)
+	 */
+	breaking?: boolean;
+	/**
+	 * How users migrate past a breaking change
+	 */
+	migrationNote?: string;
+	/**
+	 * Further commits consolidated into this entry, e.g. review fixes of the same feature
+	 */
+	relatedCommits?: CommitInfo[];
 }
 
 export interface CommitInfo {
 	hash: string;
+	/**
+	 * Subject line
+	 */
 	message: string;
+	/**
+	 * Author name after `.mailmap` is applied
+	 */
 	author: string;
+	email?: string;
 	date: string;
+	/**
+	 * Unified diff; empty until loaded with `GitService.loadDiffs` for commits listed by `git log`
+	 */
 	diff: string;
+	/**
+	 * Paths changed by the commit, relative to the repository root
+	 */
+	files?: string[];
+	/**
+	 * Everything after the subject line, including footers
+	 */
+	body?: string;
+	parsed?: ParsedCommit;
+	/**
+	 * Set when the commit stands for a merged pull request
+	 */
+	pullRequest?: PullRequestInfo;
+	/**
+	 * Include/exclude globs the listing applied to `files` and `diff`
+	 */
+	pathFilter?: PathFilter;
 }
 
 export interface AIProviderConfig {
@@ -17,14 +66,75 @@ export interface AIProviderConfig {
 	model?: string;
 	maxTokens?: number;
 	temperature?: number;
+	/**
+	 * Base URL of the service (Azure resource endpoint, local server, ...)
+	 */
+	endpoint?: string;
+	/**
+	 * Azure OpenAI deployment name
+	 */
+	deploymentName?: string;
+	/**
+	 * Azure OpenAI REST API version
+	 */
+	apiVersion?: string;
+	/**
+	 * Send several commits in one prompt when the provider supports it (default: true)
+	 */
+	batchPrompts?: boolean;
+	/**
+	 * Approximate prompt token budget for a single batched request
+	 */
+	batchTokenBudget?: number;
+	/**
+	 * Approximate tokens of diff sent per commit; derived from the model when unset
+	 */
+	diffTokenBudget?: number;
+	/**
+	 * Maximum number of requests sent to the provider at the same time
+	 */
+	concurrency?: number;
+	/**
+	 * Sustained request rate allowed for the provider
+	 */
+	requestsPerMinute?: number;
+	/**
+	 * Retries after rate-limit (429) or server (5xx) errors
+	 */
+	maxRetries?: number;
+	/**
+	 * Custom prompt used instead of the built-in one
+	 */
+	promptTemplate?: PromptTemplate;
+	/**
+	 * Team-defined writing styles available in addition to the built-in ones
+	 */
+	customStyles?: WritingStyle[];
 }
 
 export interface UsageStats {
 	tokensUsed: number;
+	/**
+	 * Prompt and completion tokens, for providers whose API reports them separately
+	 */
+	inputTokens?: number;
+	outputTokens?: number;
 	requestsCount: number;
 	lastRequest?: Date;
 }
 
+/**
+ * Tokens a set of commits is expected to use, counted from the prompts that would be sent
+ */
+export interface UsageEstimate {
+	requests: number;
+	inputTokens: number;
+	/**
+	 * Upper bound: the completion tokens the requests allow
+	 */
+	outputTokens: number;
+}
+
 export interface AIProvider {
 	/**
 	 * Name of the AI provider
@@ -75,9 +185,34 @@ export interface AIProvider {
 	 * Get usage statistics (tokens, requests, etc.)
 	 */
 	getUsageStats?(): Promise<UsageStats>;
+
+	/**
+	 * Count the prompt tokens `processCommits` would send for these commits, without sending anything
+	 */
+	estimateUsage?(commits: CommitInfo[], style: string): UsageEstimate;
+
+	/**
+	 * Verify the provider can reach its service; throws with the reason on failure
+	 */
+	testConnection?(): Promise<void>;
+
+	/**
+	 * Model (or deployment) that answers requests with the current configuration
+	 */
+	getModel?(): string;
+
+	/**
+	 * Tokens of diff sent per commit with the current configuration
+	 */
+	getDiffTokenBudget?(): number;
+
+	/**
+	 * Stable hash of the prompt templates used for a style; changes whenever the prompts do
+	 */
+	getPromptFingerprint?(style: string): string;
 }
 
-export type AIProviderType = 'openai' | 'anthropic' | 'google' | 'azure' | 'offline';
+export type AIProviderType = 'openai' | 'anthropic' | 'google' | 'azure' | 'local' | 'offline';
 
 export interface AIProviderFactory {
 	createProvider(type: AIProviderType): AIProvider;
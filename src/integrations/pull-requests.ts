@@ -0,0 +1,128 @@
+import type { CommitInfo } from './git';
+import { CommitCoAuthor, getParsedCommit, parseCommitMessage } from './conventional-commits';
+
+/**
+ * A pull request that landed on the target branch
+ */
+export interface PullRequestInfo {
+	number: number;
+	/**
+	 * How the code host refers to it, e.g. "#12" or, for GitLab merge requests, "!12"
+	 */
+	reference: string;
+	title: string;
+	/**
+	 * Source branch, when the merge commit names it
+	 */
+	branch?: string;
+	strategy: 'merge' | 'squash';
+	/**
+	 * Hashes of the commits that made up the pull request, newest first
+	 */
+	commits: string[];
+}
+
+type DetectedPullRequest = Omit<PullRequestInfo, 'commits'>;
+
+const GITHUB_MERGE_PATTERN = /^Merge pull request #(\d+) from (\S+)/;
+const BITBUCKET_MERGE_PATTERN = /^Merged in (\S+) \(pull request #(\d+)\)/;
+const GITLAB_MERGE_PATTERN = /^Merge branch '([^']+)' into /;
+const GITLAB_REFERENCE_PATTERN = /^See merge request \S*!(\d+)$/m;
+const SQUASH_PATTERN = /^(.+?)\s+\(#(\d+)\)$/;
+
+/**
+ * Recognize a commit on the target branch as a merged pull request, from GitHub, Bitbucket and GitLab
+ * merge commit messages or a squash subject ending in "(#N)"
+ */
+export function detectPullRequest(commit: Pick<CommitInfo, 'message' | 'body' | 'parents'>): DetectedPullRequest | undefined {
+	const body = commit.body || '';
+	const isMerge = (commit.parents?.length || 0) > 1;
+
+	if (isMerge) {
+		const github = commit.message.match(GITHUB_MERGE_PATTERN);
+		if (github) {
+			return mergedPullRequest(Number(github[1]), `#${github[1]}`, body, github[2]);
+		}
+
+		const bitbucket = commit.message.match(BITBUCKET_MERGE_PATTERN);
+		if (bitbucket) {
+			return mergedPullRequest(Number(bitbucket[2]), `#${bitbucket[2]}`, body, bitbucket[1]);
+		}
+
+		const gitlab = commit.message.match(GITLAB_MERGE_PATTERN);
+		const gitlabReference = body.match(GITLAB_REFERENCE_PATTERN);
+		if (gitlab && gitlabReference) {
+			return mergedPullRequest(Number(gitlabReference[1]), `!${gitlabReference[1]}`, body.replace(GITLAB_REFERENCE_PATTERN, ''), gitlab[1]);
+		}
+
+		return undefined;
+	}
+
+	const squash = commit.message.match(SQUASH_PATTERN);
+	if (squash) {
+		return { number: Number(squash[2]), reference: `#${squash[2]}`, title: squash[1], strategy: 'squash' };
+	}
+
+	return undefined;
+}
+
+/**
+ * One commit standing for a whole pull request, so it becomes a single changelog entry.
+ * Merges take the pull request title as subject and list the merged commits in the body; their authors
+ * are credited as co-authors and a breaking change in any of them makes the pull request breaking.
+ * Squash commits already hold everything and are only marked.
+ */
+export function createPullRequestCommit(
+	commit: CommitInfo,
+	pullRequest: DetectedPullRequest,
+	mergedCommits: CommitInfo[] = []
+): CommitInfo {
+	if (pullRequest.strategy === 'squash' || mergedCommits.length === 0) {
+		return { ...commit, pullRequest: { ...pullRequest, commits: [commit.hash] } };
+	}
+
+	const body = `${mergedCommits.map(merged => `- ${merged.message}`).join('\n')}\n\nRefs: ${pullRequest.reference}`;
+	const parsed = parseCommitMessage(`${pullRequest.title}\n\n${body}`);
+	const mergedParsed = mergedCommits.map(merged => getParsedCommit(merged));
+
+	// The oldest commit is usually by whoever opened the pull request
+	const author = mergedCommits[mergedCommits.length - 1];
+	const coAuthors = new Map<string, CommitCoAuthor>();
+	mergedCommits.forEach((merged, index) => {
+		for (const coAuthor of [{ name: merged.author, email: merged.email }, ...mergedParsed[index].coAuthors]) {
+			if (coAuthor.name !== author.author) {
+				coAuthors.set(coAuthor.name, coAuthor);
+			}
+		}
+	});
+
+	const breaking = mergedParsed.find(mergedCommit => mergedCommit.breaking);
+	if (breaking) {
+		parsed.breaking = true;
+		parsed.breakingNote = breaking.breakingNote;
+	}
+	parsed.coAuthors = [...coAuthors.values()];
+
+	return {
+		hash: commit.hash,
+		message: pullRequest.title,
+		author: author.author,
+		email: author.email,
+		date: commit.date,
+		diff: commit.diff,
+		files: commit.files?.length ? commit.files : [...new Set(mergedCommits.flatMap(merged => merged.files || []))],
+		body,
+		parsed,
+		parents: commit.parents,
+		pullRequest: { ...pullRequest, commits: mergedCommits.map(merged => merged.hash) },
+		pathFilter: commit.pathFilter,
+		// Still diffed against the first parent by `GitService.loadDiffs`
+		pendingDiff: commit.pendingDiff
+	};
+}
+
+function mergedPullRequest(number: number, reference: string, body: string, branch: string): DetectedPullRequest {
+	// The first line of the body holds the pull request title; fall back to the branch name
+	const title = body.split('\n').map(line => line.trim()).find(Boolean) || branch;
+	return { number, reference, title, branch, strategy: 'merge' };
+}
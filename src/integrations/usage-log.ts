@@ -0,0 +1,55 @@
+import type { Memento } from 'vscode';
+
+/**
+ * Estimated and reported token usage of one AI run
+ */
+export interface UsageRecord {
+	/**
+	 * ISO timestamp of the end of the run
+	 */
+	date: string;
+	provider: string;
+	model: string;
+	commits: number;
+	estimate: {
+		inputTokens: number;
+		outputTokens: number;
+		cost?: number;
+	};
+	/**
+	 * What the provider reported; token split and cost are missing when the API only gives a total
+	 */
+	actual: {
+		requests: number;
+		totalTokens: number;
+		inputTokens?: number;
+		outputTokens?: number;
+		cost?: number;
+	};
+}
+
+/**
+ * Recent AI runs, kept in the extension's global state
+ */
+export class UsageLog {
+	private static readonly STATE_KEY = 'shipnote-ai.usageLog';
+	private static readonly MAX_RECORDS = 100;
+
+	constructor(private state: Memento) {}
+
+	/**
+	 * Recorded runs, newest first
+	 */
+	getRecords(): UsageRecord[] {
+		return this.state.get<UsageRecord[]>(UsageLog.STATE_KEY, []);
+	}
+
+	async add(record: UsageRecord): Promise<void> {
+		const records = [record, ...this.getRecords()].slice(0, UsageLog.MAX_RECORDS);
+		await this.state.update(UsageLog.STATE_KEY, records);
+	}
+
+	async clear(): Promise<void> {
+		await this.state.update(UsageLog.STATE_KEY, undefined);
+	}
+}
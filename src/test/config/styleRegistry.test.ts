@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { BUILT_IN_STYLES, StyleRegistry } from '../../config/styleRegistry';
+
+suite('StyleRegistry Test Suite', () => {
+	const securityAdvisory = {
+		name: 'security-advisory',
+		label: 'Security Advisory',
+		description: 'Advisory-style notes for security teams',
+		example: 'Fixed CVE-2024-1234: session tokens could be reused after logout.',
+		promptFragment: 'Write like a security advisory: state impact, affected versions and remediation.'
+	};
+
+	test('should contain the built-in styles', () => {
+		const registry = new StyleRegistry();
+
+		assert.deepStrictEqual(registry.getNames(), ['formal', 'dev-friendly', 'pm-style']);
+		assert.ok(registry.getAll().every(style => style.builtIn));
+	});
+
+	test('should register valid custom styles', () => {
+		const registry = new StyleRegistry([securityAdvisory]);
+
+		const style = registry.get('security-advisory');
+		assert.ok(style);
+		assert.strictEqual(style.builtIn, false);
+		assert.strictEqual(style.promptFragment, securityAdvisory.promptFragment);
+		assert.strictEqual(registry.getLabel('security-advisory'), 'Security Advisory');
+		assert.strictEqual(registry.getAll().length, BUILT_IN_STYLES.length + 1);
+	});
+
+	test('should skip invalid custom styles', () => {
+		const registry = new StyleRegistry([
+			{ name: 'Has Spaces', description: 'd', example: 'e', promptFragment: 'p' },
+			{ name: 'no-fragment', description: 'd', example: 'e' },
+			'not-an-object'
+		]);
+
+		assert.strictEqual(registry.getAll().length, BUILT_IN_STYLES.length);
+	});
+
+	test('should not let custom styles replace built-in ones', () => {
+		const registry = new StyleRegistry();
+
+		assert.throws(() => registry.register({ ...securityAdvisory, name: 'formal' }), /built-in/);
+		assert.strictEqual(registry.get('formal')?.builtIn, true);
+	});
+
+	test('should fall back to the raw name for unknown labels', () => {
+		assert.strictEqual(new StyleRegistry().getLabel('terse-internal'), 'terse-internal');
+	});
+});
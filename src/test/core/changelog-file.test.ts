@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	DEFAULT_CHANGELOG_PREAMBLE,
+	mergeChangelog,
+	parseChangelog,
+	promoteUnreleased,
+	resolveChangelogPath,
+	updateChangelogFile
+} from '../../core/changelog-file';
+
+suite('Changelog File Test Suite', () => {
+	const existing = [
+		'# Changelog',
+		'',
+		'Notable changes.',
+		'',
+		'## [Unreleased]',
+		'',
+		'### Added',
+		'',
+		'- Old draft',
+		'',
+		'## [1.1.0] - 2024-01-01',
+		'',
+		'### Fixed',
+		'',
+		'- Fix login ([#3][issue-3])',
+		'',
+		'[issue-3]: https://github.com/acme/app/issues/3',
+		'',
+		'```markdown',
+		'## Not a section',
+		'```',
+		'',
+		'[unreleased]: https://github.com/acme/app/compare/v1.1.0...HEAD',
+		'[1.1.0]: https://github.com/acme/app/releases/tag/v1.1.0',
+		''
+	].join('\n');
+
+	suite('parseChangelog', () => {
+		test('should split the preamble, version sections and trailing link definitions', () => {
+			const document = parseChangelog(existing);
+
+			assert.strictEqual(document.preamble, '# Changelog\n\nNotable changes.');
+			assert.deepStrictEqual(document.sections.map(section => section.version), ['Unreleased', '1.1.0']);
+			assert.ok(document.sections[1].text.includes('[issue-3]: https://github.com/acme/app/issues/3'));
+			assert.ok(document.sections[1].text.endsWith('## Not a section\n```'));
+			assert.deepStrictEqual(document.linkDefinitions, [
+				'[unreleased]: https://github.com/acme/app/compare/v1.1.0...HEAD',
+				'[1.1.0]: https://github.com/acme/app/releases/tag/v1.1.0'
+			]);
+		});
+
+		test('should read versions from the common heading styles', () => {
+			const document = parseChangelog('## v2.0.0 (2024-03-01)\n\n## 1.0.0-rc.1\n\n## Unreleased - 2024-03-02\n\n## Highlights\n');
+
+			assert.deepStrictEqual(document.sections.map(section => section.version), ['2.0.0', '1.0.0-rc.1', 'Unreleased', undefined]);
+		});
+	});
+
+	suite('mergeChangelog', () => {
+		const unreleased = '## [Unreleased] - 2024-02-01\n\nSummary.\n\n### ✨ Features\n\n- Add CSV export (aaaaaaa)\n\n';
+
+		test('should replace the section of the same version in place', () => {
+			const merged = mergeChangelog(existing, unreleased);
+			const document = parseChangelog(merged);
+
+			assert.deepStrictEqual(document.sections.map(section => section.version), ['Unreleased', '1.1.0']);
+			assert.ok(!merged.includes('Old draft'));
+			assert.ok(merged.includes('- Add CSV export (aaaaaaa)'));
+			assert.ok(merged.endsWith('[1.1.0]: https://github.com/acme/app/releases/tag/v1.1.0\n'));
+		});
+
+		test('should be idempotent', () => {
+			const once = mergeChangelog(existing, unreleased);
+
+			assert.strictEqual(mergeChangelog(once, unreleased), once);
+		});
+
+		test('should put new versions above the newest section', () => {
+			const merged = mergeChangelog(existing, '## [1.2.0] - 2024-02-01\n\n- Add export\n\n[1.2.0]: https://github.com/acme/app/compare/v1.1.0...v1.2.0\n');
+			const document = parseChangelog(merged);
+
+			assert.deepStrictEqual(document.sections.map(section => section.version), ['1.2.0', 'Unreleased', '1.1.0']);
+			assert.deepStrictEqual(document.linkDefinitions, [
+				'[1.2.0]: https://github.com/acme/app/compare/v1.1.0...v1.2.0',
+				'[unreleased]: https://github.com/acme/app/compare/v1.1.0...HEAD',
+				'[1.1.0]: https://github.com/acme/app/releases/tag/v1.1.0'
+			]);
+		});
+
+		test('should start a missing file with the default preamble', () => {
+			assert.strictEqual(
+				mergeChangelog(undefined, unreleased),
+				`${DEFAULT_CHANGELOG_PREAMBLE}\n\n${unreleased.trim()}\n`
+			);
+		});
+
+		test('should keep Windows line endings', () => {
+			const merged = mergeChangelog(existing.replace(/\n/g, '\r\n'), unreleased);
+
+			assert.ok(merged.includes('## [Unreleased] - 2024-02-01\r\n\r\nSummary.'));
+			assert.ok(!/[^\r]\n/.test(merged));
+		});
+	});
+
+	suite('promoteUnreleased', () => {
+		const options = { version: '1.2.0', date: '2024-02-01', tag: 'v1.2.0' };
+
+		test('should rename the section and return its notes', () => {
+			const { content, notes } = promoteUnreleased(existing, options);
+			const document = parseChangelog(content);
+
+			assert.strictEqual(notes, '### Added\n\n- Old draft');
+			assert.deepStrictEqual(document.sections.map(section => section.version), ['1.2.0', '1.1.0']);
+			assert.ok(content.includes('## [1.2.0] - 2024-02-01\n\n### Added\n\n- Old draft\n\n## [1.1.0]'));
+		});
+
+		test('should move the compare link to the new tag', () => {
+			const { content } = promoteUnreleased(existing, options);
+
+			assert.deepStrictEqual(parseChangelog(content).linkDefinitions, [
+				'[unreleased]: https://github.com/acme/app/compare/v1.2.0...HEAD',
+				'[1.2.0]: https://github.com/acme/app/compare/v1.1.0...v1.2.0',
+				'[1.1.0]: https://github.com/acme/app/releases/tag/v1.1.0'
+			]);
+		});
+
+		test('should need an unreleased section for a new version', () => {
+			const released = promoteUnreleased(existing, options).content;
+
+			assert.throws(() => promoteUnreleased(released, { ...options, version: '1.3.0' }), /no \[Unreleased\] section/);
+			assert.throws(() => promoteUnreleased(`${released}\n## [Unreleased]\n`, options), /already has a section for 1\.2\.0/);
+		});
+	});
+
+	suite('updateChangelogFile', () => {
+		let directory: string;
+
+		setup(async () => {
+			directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'shipnote-changelog-'));
+		});
+
+		teardown(async () => {
+			await fs.promises.rm(directory, { recursive: true, force: true });
+		});
+
+		test('should create the file and its folder at the configured location', async () => {
+			const filePath = resolveChangelogPath(directory, 'docs/RELEASE_NOTES.md');
+
+			await updateChangelogFile(filePath, '## [Unreleased]\n\n- Add export\n');
+			await updateChangelogFile(filePath, '## [Unreleased]\n\n- Add CSV export\n');
+
+			assert.strictEqual(filePath, path.join(directory, 'docs', 'RELEASE_NOTES.md'));
+			assert.strictEqual(
+				await fs.promises.readFile(filePath, 'utf8'),
+				`${DEFAULT_CHANGELOG_PREAMBLE}\n\n## [Unreleased]\n\n- Add CSV export\n`
+			);
+		});
+	});
+});
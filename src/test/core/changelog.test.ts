@@ -2,13 +2,14 @@ import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { ChangelogGenerator, GenerateOptions } from '../../core/changelog';
 import { GitService, CommitInfo } from '../../integrations/git';
-import { OpenAIService, ChangelogEntry } from '../../integrations/openai';
+import { AIService } from '../../integrations/ai-service';
+import { ChangelogEntry } from '../../integrations/providers';
 import { ConfigService } from '../../config/config';
 
 suite('ChangelogGenerator Tests', () => {
 	let changelogGenerator: ChangelogGenerator;
 	let mockGitService: GitService;
-	let mockOpenAIService: OpenAIService;
+	let mockAIService: AIService;
 	let mockConfigService: ConfigService;
 
 	setup(() => {
@@ -17,10 +18,13 @@ suite('ChangelogGenerator Tests', () => {
 			getCommits: async () => [],
 			getCommitInfo: async () => null,
 			categorizeCommit: () => 'chore',
-			isFormattingOnlyCommit: () => false
+			hasFormattingKeyword: () => false,
+			isFormattingOnlyCommit: () => false,
+			loadDiffs: async () => {},
+			getRemoteUrl: async () => undefined
 		} as any;
 
-		mockOpenAIService = {
+		mockAIService = {
 			processCommits: async () => [],
 			generateSummary: async () => 'Test summary'
 		} as any;
@@ -29,10 +33,20 @@ suite('ChangelogGenerator Tests', () => {
 			getChangelogStyle: () => 'dev-friendly',
 			getDefaultCommitCount: () => 10,
 			getSkipFormattingCommits: () => true,
-			getGroupByAuthor: () => false
+			getGroupByAuthor: () => false,
+			getOutputFormat: () => 'markdown',
+			getIncludePaths: () => [],
+			getExcludePaths: () => [],
+			getAuthorAliases: () => ({}),
+			getExcludeAuthors: () => ['*[bot]'],
+			getShowContributors: () => false,
+			getConsolidateEntries: () => true,
+			getIssueTracker: () => 'auto',
+			getIssueUrlTemplate: () => '',
+			getCommitUrlTemplate: () => ''
 		} as any;
 
-		changelogGenerator = new ChangelogGenerator(mockGitService, mockOpenAIService, mockConfigService);
+		changelogGenerator = new ChangelogGenerator(mockGitService, mockAIService, mockConfigService);
 	});
 
 	suite('generateChangelog', () => {
@@ -248,6 +262,258 @@ suite('ChangelogGenerator Tests', () => {
 			// PM-style characteristics (to be implemented)
 			assert.ok(typeof changelog === 'string');
 		});
+
+		test('should pass configured style to the AI service', async () => {
+			mockConfigService.getChangelogStyle = () => 'pm-style';
+			mockGitService.isGitRepository = async () => true;
+			mockGitService.getCommits = async () => [{
+				hash: 'abc123',
+				message: 'feat: add export',
+				author: 'Test Author',
+				date: '2024-01-01',
+				diff: ''
+			}];
+
+			let receivedStyle: string | undefined;
+			mockAIService.processCommits = async (commits, style) => {
+				receivedStyle = style;
+				return [];
+			};
+
+			await changelogGenerator.generateChangelog('/fake/repo', { commitCount: 1, includeTypes: [] });
+
+			assert.strictEqual(receivedStyle, 'pm-style');
+		});
+	});
+
+	suite('Release Model', () => {
+		setup(() => {
+			mockGitService.isGitRepository = async () => true;
+			mockGitService.getCommits = async () => [{
+				hash: 'abc123def',
+				message: 'feat: add export',
+				author: 'Test Author',
+				date: '2024-01-01',
+				diff: ''
+			}];
+			mockConfigService.getIncludeCommitTypes = () => [];
+			mockAIService.processCommits = async (commits) => commits.map(commit => ({
+				type: 'feat' as const,
+				description: 'Add export',
+				commit
+			}));
+		});
+
+		test('should build a release with sections and authors', async () => {
+			const release = await changelogGenerator.generateRelease('/fake/repo', { commitCount: 1, version: '1.2.0' });
+
+			assert.ok(release);
+			assert.strictEqual(release.version, '1.2.0');
+			assert.strictEqual(release.summary, 'Test summary');
+			assert.strictEqual(release.style, 'dev-friendly');
+			assert.strictEqual(release.sections[0].title, 'Features');
+			assert.strictEqual(release.sections[0].entries[0].commit.shortHash, 'abc123d');
+			assert.deepStrictEqual(release.authors, [{ name: 'Test Author', commitCount: 1 }]);
+		});
+
+		test('should link commits to the origin remote', async () => {
+			mockGitService.getRemoteUrl = async () => 'git@github.com:acme/app.git';
+
+			const release = await changelogGenerator.generateRelease('/fake/repo', { commitCount: 1 });
+
+			assert.strictEqual(release?.sections[0].entries[0].commit.url, 'https://github.com/acme/app/commit/abc123def');
+		});
+
+		test('should link commits of branch comparisons to the origin remote', async () => {
+			mockGitService.getRemoteUrl = async () => 'git@github.com:acme/app.git';
+			const commit = { hash: 'abc123def', message: 'feat: add export', author: 'Test Author', date: '2024-01-01', diff: '' };
+
+			const release = await changelogGenerator.generateReleaseFromCommits('/fake/repo', [commit]);
+
+			assert.strictEqual(release.sections[0].entries[0].commit.url, 'https://github.com/acme/app/commit/abc123def');
+		});
+
+		test('should make one entry per merged pull request', async () => {
+			const merge = { hash: 'merge123', message: 'Merge pull request #12 from acme/export', body: 'feat: add export', author: 'Maintainer', date: '2024-01-02', diff: '', parents: ['p1', 'p2'] };
+			const direct = { hash: 'direct12', message: 'docs: fix typo', author: 'Test Author', date: '2024-01-01', diff: '', parents: ['p0'] };
+			let range: string[] = [];
+			mockGitService.getFirstParentCommits = async (_path, from, to) => {
+				range = [from, to];
+				return [merge, direct];
+			};
+			mockGitService.getMergedCommits = async () => [
+				{ hash: 'c2', message: 'address review', author: 'Test Author', date: '2024-01-01', diff: '' },
+				{ hash: 'c1', message: 'wip export', author: 'Test Author', date: '2024-01-01', diff: '' }
+			];
+
+			mockConfigService.getConsolidateEntries = () => false;
+
+			const release = await changelogGenerator.generateRelease('/fake/repo', { fromTag: 'v1.0.0', pullRequests: true });
+			const commits = release?.sections[0].entries.map(entry => entry.commit);
+
+			assert.deepStrictEqual(range, ['v1.0.0', 'HEAD']);
+			assert.deepStrictEqual(commits?.map(commit => commit.message), ['feat: add export', 'docs: fix typo']);
+			assert.deepStrictEqual(commits?.[0].pullRequest, { number: 12, reference: '#12', title: 'feat: add export', commits: ['c2', 'c1'] });
+			assert.strictEqual(commits?.[1].pullRequest, undefined);
+		});
+
+		test('should merge related entries and drop reverted commits', async () => {
+			mockGitService.getCommits = async () => [
+				{ hash: 'ccc3333', message: 'Revert "fix: login redirect"', body: 'This reverts commit bbb2222.', author: 'Test Author', date: '2024-01-03', diff: '' },
+				{ hash: 'bbb2222', message: 'fix: login redirect', author: 'Test Author', date: '2024-01-02', diff: '' },
+				{ hash: 'aaa1111', message: 'feat: add export', author: 'Test Author', date: '2024-01-01', diff: '' },
+				{ hash: 'abc123def', message: 'feat: export options', author: 'Test Author', date: '2024-01-01', diff: '' }
+			];
+
+			const release = await changelogGenerator.generateRelease('/fake/repo', { commitCount: 4 });
+			const entries = release?.sections.flatMap(section => section.entries);
+
+			assert.strictEqual(entries?.length, 1);
+			assert.deepStrictEqual([entries?.[0].commit.hash, ...(entries?.[0].relatedCommits || []).map(commit => commit.hash)], ['abc123def', 'aaa1111']);
+		});
+
+		test('should keep breaking changes of excluded commit types', async () => {
+			mockConfigService.getIncludeCommitTypes = () => ['feat', 'fix', 'docs', 'refactor'];
+			mockGitService.getCommits = async () => [
+				{ hash: 'bbb2222', message: 'chore: bump dependencies', author: 'Test Author', date: '2024-01-02', diff: '' },
+				{ hash: 'aaa1111', message: 'chore!: drop Node 16', author: 'Test Author', date: '2024-01-01', diff: '' }
+			];
+			mockAIService.processCommits = async (commits) => commits.map(commit => ({
+				type: 'chore' as const,
+				description: commit.message,
+				commit
+			}));
+
+			const release = await changelogGenerator.generateRelease('/fake/repo', { commitCount: 2 });
+
+			assert.deepStrictEqual(release?.sections.flatMap(section => section.entries.map(entry => entry.commit.hash)), ['aaa1111']);
+			assert.deepStrictEqual(release?.breakingChanges.map(change => change.description), ['chore!: drop Node 16']);
+		});
+
+		test('should need a starting ref for pull request changelogs', async () => {
+			await assert.rejects(changelogGenerator.generateRelease('/fake/repo', { pullRequests: true }), /tag or SHA to start from/);
+		});
+
+		test('should mark first-time contributors when contributors are shown', async () => {
+			let lookedUp = '';
+			mockGitService.getAuthorsBefore = async (_path, hash) => {
+				lookedUp = hash;
+				return [{ name: 'Someone Else', email: 'else@example.com' }];
+			};
+
+			const release = await changelogGenerator.generateRelease('/fake/repo', { commitCount: 1, showContributors: true });
+
+			assert.strictEqual(lookedUp, 'abc123def');
+			assert.deepStrictEqual(release?.authors, [{ name: 'Test Author', commitCount: 1, firstContribution: true }]);
+		});
+
+		test('should skip commits by excluded authors', async () => {
+			mockGitService.getCommits = async () => [
+				{ hash: 'abc123def', message: 'chore(deps): bump', author: 'dependabot[bot]', date: '2024-01-01', diff: '' }
+			];
+
+			const release = await changelogGenerator.generateRelease('/fake/repo', { commitCount: 1 });
+
+			assert.strictEqual(release, null);
+		});
+
+		test('should resolve and skip authors of branch comparison commits', async () => {
+			mockConfigService.getAuthorAliases = () => ({ 't.author': 'Test Author' });
+			const commits = [
+				{ hash: 'abc123def', message: 'feat: add export', author: 't.author', date: '2024-01-01', diff: '' },
+				{ hash: 'bot123def', message: 'chore(deps): bump', author: 'dependabot[bot]', date: '2024-01-01', diff: '' }
+			];
+			let processed: CommitInfo[] = [];
+			mockAIService.processCommits = async (received) => {
+				processed = received;
+				return received.map(commit => ({ type: 'feat' as const, description: 'Add export', commit }));
+			};
+
+			const release = await changelogGenerator.generateReleaseFromCommits('/fake/repo', commits);
+
+			assert.deepStrictEqual(processed.map(commit => commit.hash), ['abc123def']);
+			assert.deepStrictEqual(release.authors, [{ name: 'Test Author', commitCount: 1 }]);
+		});
+
+		test('should return null when there are no commits', async () => {
+			mockGitService.getCommits = async () => [];
+
+			const release = await changelogGenerator.generateRelease('/fake/repo', { commitCount: 1 });
+
+			assert.strictEqual(release, null);
+		});
+
+		test('should render the release heading with its version', async () => {
+			const changelog = await changelogGenerator.generateChangelog('/fake/repo', { commitCount: 1, version: '1.2.0' });
+
+			assert.ok(changelog.startsWith('## [1.2.0] - '));
+			assert.ok(changelog.includes('- Add export (abc123d)'));
+		});
+	});
+
+	suite('Package Changelogs', () => {
+		const packages = [
+			{ name: '@acme/api', path: 'packages/api' },
+			{ name: '@acme/web', path: 'packages/web' },
+			{ name: '@acme/docs', path: 'packages/docs' }
+		];
+
+		setup(() => {
+			mockGitService.isGitRepository = async () => true;
+			mockGitService.getCommits = async () => [
+				{ hash: 'aaa1111', message: 'feat: add endpoint', author: 'Alice', date: '2024-01-01', diff: 'diff --git a/packages/api/src/index.ts b/packages/api/src/index.ts\n+x' },
+				{ hash: 'bbb2222', message: 'fix: shared types', author: 'Bob', date: '2024-01-02', diff: 'diff --git a/packages/api/types.ts b/packages/api/types.ts\n+x\ndiff --git a/packages/web/types.ts b/packages/web/types.ts\n+x' }
+			];
+			mockConfigService.getIncludeCommitTypes = () => [];
+			mockAIService.processCommits = async (commits) => commits.map(commit => ({
+				type: commit.message.startsWith('feat') ? 'feat' as const : 'fix' as const,
+				description: commit.message,
+				commit
+			}));
+		});
+
+		test('should build one release per touched package', async () => {
+			const releases = await changelogGenerator.generatePackageReleases('/fake/repo', packages, { commitCount: 2 });
+
+			assert.deepStrictEqual(releases.map(({ package: pkg }) => pkg.name), ['@acme/api', '@acme/web']);
+			assert.deepStrictEqual(releases[0].release.sections.map(section => section.entries.length), [1, 1]);
+			assert.strictEqual(releases[1].release.sections[0].entries[0].commit.hash, 'bbb2222');
+		});
+
+		test('should process each commit once', async () => {
+			let processed = 0;
+			mockAIService.processCommits = async (commits) => {
+				processed += commits.length;
+				return commits.map(commit => ({ type: 'fix' as const, description: commit.message, commit }));
+			};
+
+			await changelogGenerator.generatePackageReleases('/fake/repo', packages, { commitCount: 2 });
+
+			assert.strictEqual(processed, 2);
+		});
+	});
+
+	suite('Version Suggestion', () => {
+		test('should suggest from commits since the latest version tag', async () => {
+			let receivedOptions: any;
+			mockGitService.isGitRepository = async () => true;
+			mockGitService.getTags = async () => ['v1.1.0', 'v1.2.0', 'nightly'];
+			mockGitService.getCommits = async (_path, options) => {
+				receivedOptions = options;
+				return [{ hash: 'abc123def', message: 'feat: add export', author: 'Test Author', date: '2024-01-01', diff: '' }];
+			};
+			mockAIService.processCommits = async (commits) => commits.map(commit => ({
+				type: 'feat' as const,
+				description: 'Add export',
+				commit
+			}));
+
+			const result = await changelogGenerator.suggestNextVersion('/fake/repo');
+
+			assert.strictEqual(receivedOptions.fromTag, 'v1.2.0');
+			assert.strictEqual(result.suggestion.nextVersion, '1.3.0');
+			assert.deepStrictEqual(result.options, { fromTag: 'v1.2.0', toTag: 'HEAD' });
+		});
 	});
 
 	suite('Error Handling', () => {
@@ -266,9 +532,9 @@ suite('ChangelogGenerator Tests', () => {
 			}
 		});
 
-		test('should handle OpenAI service errors', async () => {
+		test('should handle AI service errors', async () => {
 			// TODO: Implement - should handle AI processing errors
-			mockOpenAIService.processCommits = async () => {
+			mockAIService.processCommits = async () => {
 				throw new Error('OpenAI API error');
 			};
 
@@ -0,0 +1,158 @@
+import * as assert from 'assert';
+import { ChangelogEntry } from '../../integrations/providers';
+import { cancelReverts, consolidateEntries } from '../../core/consolidation';
+
+suite('Entry Consolidation Test Suite', () => {
+	const createEntry = (
+		hash: string,
+		type: ChangelogEntry['type'],
+		description: string,
+		message: string,
+		files: string[] = []
+	): ChangelogEntry => ({
+		type,
+		description,
+		commit: { hash, message, author: 'Alice', date: '2024-01-01', diff: '', files }
+	});
+
+	const hashes = (entries: ChangelogEntry[]) => entries.map(entry => [
+		entry.commit.hash,
+		...(entry.relatedCommits || []).map(commit => commit.hash)
+	]);
+
+	suite('Reverts', () => {
+		test('should drop a reverted commit together with its revert', () => {
+			const revert = createEntry('ccc3333', 'chore', 'Revert CSV export', 'Revert "feat: add csv export"');
+			revert.commit.body = 'This reverts commit aaa11111bb.';
+			const entries = [
+				revert,
+				createEntry('bbb2222', 'fix', 'Fix login redirect', 'fix: login redirect'),
+				createEntry('aaa11111bb', 'feat', 'Add CSV export', 'feat: add csv export')
+			];
+
+			assert.deepStrictEqual(cancelReverts(entries).map(entry => entry.commit.hash), ['bbb2222']);
+		});
+
+		test('should match reverts by subject when the hash is missing', () => {
+			const entries = [
+				createEntry('bbb2222', 'chore', 'Revert CSV export', 'revert: feat: add csv export'),
+				createEntry('aaa1111', 'feat', 'Add CSV export', 'feat: add csv export')
+			];
+
+			assert.deepStrictEqual(cancelReverts(entries), []);
+		});
+
+		test('should bring back a change whose revert was reverted', () => {
+			const revertOfRevert = createEntry('ccc3333', 'chore', 'Reapply CSV export', 'Revert "Revert "feat: add csv export""');
+			revertOfRevert.commit.body = 'This reverts commit bbb2222.';
+			const revert = createEntry('bbb2222', 'chore', 'Revert CSV export', 'Revert "feat: add csv export"');
+			revert.commit.body = 'This reverts commit aaa1111.';
+			const entries = [revertOfRevert, revert, createEntry('aaa1111', 'feat', 'Add CSV export', 'feat: add csv export')];
+
+			assert.deepStrictEqual(cancelReverts(entries).map(entry => entry.commit.hash), ['aaa1111']);
+		});
+
+		test('should keep reverts of commits outside the range', () => {
+			const revert = createEntry('bbb2222', 'chore', 'Revert CSV export', 'Revert "feat: add csv export"');
+			revert.commit.body = 'This reverts commit 0123456.';
+
+			assert.deepStrictEqual(cancelReverts([revert]), [revert]);
+		});
+	});
+
+	suite('Clustering', () => {
+		test('should merge review follow-ups into the change they polish', () => {
+			const entries = [
+				createEntry('ccc3333', 'style', 'Fix lint warnings', 'style(export): lint', ['src/export.ts']),
+				createEntry('bbb2222', 'fix', 'Address review comments on CSV export', 'fix(export): address review comments', ['src/export.ts']),
+				createEntry('aaa1111', 'feat', 'Add CSV export', 'feat(export): add csv export', ['src/export.ts', 'src/menu.ts'])
+			];
+
+			const consolidated = consolidateEntries(entries);
+
+			assert.deepStrictEqual(hashes(consolidated), [['aaa1111', 'ccc3333', 'bbb2222']]);
+			assert.strictEqual(consolidated[0].description, 'Add CSV export');
+		});
+
+		test('should attach a follow-up to one change only', () => {
+			const entries = [
+				createEntry('ccc3333', 'chore', 'Fix lint errors', 'chore(api): fix lint'),
+				createEntry('bbb2222', 'feat', 'Add pagination to list endpoints', 'feat(api): add pagination to list endpoints'),
+				createEntry('aaa1111', 'feat', 'Add rate limiting', 'feat(api): add rate limiting')
+			];
+
+			assert.deepStrictEqual(hashes(consolidateEntries(entries)), [['bbb2222', 'ccc3333'], ['aaa1111']]);
+		});
+
+		test('should keep changes in the same scope and files apart', () => {
+			const entries = [
+				createEntry('bbb2222', 'feat', 'Add pagination to list endpoints', 'feat(api): add pagination', ['src/api.ts']),
+				createEntry('aaa1111', 'feat', 'Add rate limiting', 'feat(api): add rate limiting', ['src/api.ts'])
+			];
+
+			assert.deepStrictEqual(hashes(consolidateEntries(entries)), [['bbb2222'], ['aaa1111']]);
+		});
+
+		test('should merge commits referring to the same issue', () => {
+			const entries = [
+				createEntry('bbb2222', 'fix', 'Handle empty rows', 'fix: skip empty rows\n\nRefs: #45'),
+				createEntry('aaa1111', 'feat', 'Add CSV export', 'feat: add csv export\n\nCloses #45')
+			];
+
+			assert.deepStrictEqual(hashes(consolidateEntries(entries)), [['aaa1111', 'bbb2222']]);
+		});
+
+		test('should merge autosquash commits into their target', () => {
+			const entries = [
+				createEntry('bbb2222', 'chore', 'Tweak export', 'fixup! feat: add csv export'),
+				createEntry('aaa1111', 'feat', 'Add CSV export', 'feat: add csv export')
+			];
+
+			assert.deepStrictEqual(hashes(consolidateEntries(entries)), [['aaa1111', 'bbb2222']]);
+		});
+
+		test('should merge entries with similar descriptions', () => {
+			const entries = [
+				createEntry('bbb2222', 'fix', 'Fix exporting of large CSV files', 'fix: csv export of large files'),
+				createEntry('aaa1111', 'feat', 'Add exports of large CSV files', 'feat: export csv files')
+			];
+
+			assert.deepStrictEqual(hashes(consolidateEntries(entries)), [['aaa1111', 'bbb2222']]);
+		});
+
+		test('should keep unrelated entries apart and in order', () => {
+			const entries = [
+				createEntry('ccc3333', 'docs', 'Document the settings page', 'docs: settings page', ['docs/settings.md']),
+				createEntry('bbb2222', 'fix', 'Fix login redirect', 'fix(auth): login redirect', ['src/auth.ts']),
+				createEntry('aaa1111', 'feat', 'Add CSV export', 'feat(export): add csv export', ['src/export.ts'])
+			];
+
+			assert.deepStrictEqual(hashes(consolidateEntries(entries)), [['ccc3333'], ['bbb2222'], ['aaa1111']]);
+		});
+
+		test('should keep a breaking change in a merged entry', () => {
+			const breaking = createEntry('bbb2222', 'fix', 'Rename export options', 'fix!: rename export options\n\nRefs: #45');
+			breaking.breaking = true;
+			breaking.migrationNote = 'Use `format` instead of `type`';
+			const entries = [breaking, createEntry('aaa1111', 'feat', 'Add CSV export', 'feat: add csv export\n\nCloses #45')];
+
+			const [merged] = consolidateEntries(entries);
+
+			assert.strictEqual(merged.description, 'Add CSV export');
+			assert.strictEqual(merged.breaking, true);
+			assert.strictEqual(merged.migrationNote, 'Use `format` instead of `type`');
+		});
+
+		test('should cancel reverts before clustering', () => {
+			const revert = createEntry('bbb2222', 'chore', 'Revert CSV export', 'Revert "feat: add csv export"');
+			revert.commit.body = 'This reverts commit aaa1111.\n\nRefs: #45';
+			const entries = [
+				revert,
+				createEntry('ccc3333', 'fix', 'Handle empty rows', 'fix: skip empty rows\n\nRefs: #45'),
+				createEntry('aaa1111', 'feat', 'Add CSV export', 'feat: add csv export\n\nCloses #45')
+			];
+
+			assert.deepStrictEqual(hashes(consolidateEntries(entries)), [['ccc3333']]);
+		});
+	});
+});
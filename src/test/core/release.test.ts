@@ -0,0 +1,203 @@
+import * as assert from 'assert';
+import { ChangelogEntry } from '../../integrations/providers';
+import {
+	RELEASE_SCHEMA_URL,
+	RELEASE_SCHEMA_VERSION,
+	UNRELEASED_VERSION,
+	buildRelease,
+	getReleaseEntries,
+	releaseToJSON
+} from '../../core/release';
+import { LinkResolver } from '../../integrations/issue-links';
+
+suite('Release Model Test Suite', () => {
+	const createEntry = (
+		type: ChangelogEntry['type'],
+		description: string,
+		message: string,
+		author = 'Alice'
+	): ChangelogEntry => ({
+		type,
+		description,
+		commit: {
+			hash: `${type}0000000000`,
+			message,
+			author,
+			date: '2024-01-01',
+			diff: '+code'
+		}
+	});
+
+	test('should group entries into ordered sections', () => {
+		const release = buildRelease([
+			createEntry('fix', 'Fix login bug', 'fix: login bug'),
+			createEntry('feat', 'Add export', 'feat: add export'),
+			createEntry('docs', 'Document export', 'docs: export')
+		], { summary: 'Summary', style: 'dev-friendly' });
+
+		assert.deepStrictEqual(release.sections.map(section => section.title), ['Features', 'Bug Fixes', 'Documentation']);
+		assert.deepStrictEqual(getReleaseEntries(release).map(entry => entry.description), [
+			'Add export',
+			'Fix login bug',
+			'Document export'
+		]);
+	});
+
+	test('should default to an unreleased version dated today', () => {
+		const release = buildRelease([], { summary: '', style: 'formal' });
+
+		assert.strictEqual(release.version, UNRELEASED_VERSION);
+		assert.strictEqual(release.date, new Date().toISOString().split('T')[0]);
+		assert.deepStrictEqual(release.sections, []);
+	});
+
+	test('should keep commit metadata without the diff', () => {
+		const release = buildRelease([createEntry('feat', 'Add export', 'feat: add export')], {
+			version: '2.0.0',
+			date: '2024-02-01',
+			summary: 'Summary',
+			style: 'formal'
+		});
+
+		assert.deepStrictEqual(release.sections[0].entries[0].commit, {
+			hash: 'feat0000000000',
+			shortHash: 'feat000',
+			message: 'feat: add export',
+			author: 'Alice',
+			date: '2024-01-01'
+		});
+	});
+
+	test('should count commits per author', () => {
+		const release = buildRelease([
+			createEntry('feat', 'A', 'feat: a', 'Alice'),
+			createEntry('fix', 'B', 'fix: b', 'Bob'),
+			createEntry('docs', 'C', 'docs: c', 'Alice')
+		], { summary: '', style: 'formal' });
+
+		assert.deepStrictEqual(release.authors, [
+			{ name: 'Alice', commitCount: 2 },
+			{ name: 'Bob', commitCount: 1 }
+		]);
+	});
+
+	test('should credit co-authors', () => {
+		const release = buildRelease([
+			createEntry('feat', 'A', 'feat: a\n\nCo-authored-by: Bob <bob@example.com>', 'Alice'),
+			createEntry('fix', 'B', 'fix: b', 'Bob')
+		], { summary: '', style: 'formal' });
+
+		assert.deepStrictEqual(release.authors, [
+			{ name: 'Alice', commitCount: 1 },
+			{ name: 'Bob', commitCount: 2 }
+		]);
+	});
+
+	test('should mark authors without earlier commits as first-time contributors', () => {
+		const release = buildRelease([
+			createEntry('feat', 'A', 'feat: a', 'Alice'),
+			createEntry('fix', 'B', 'fix: b', 'Bob')
+		], { summary: '', style: 'formal', knownAuthors: ['Alice'] });
+
+		assert.deepStrictEqual(release.authors, [
+			{ name: 'Alice', commitCount: 1 },
+			{ name: 'Bob', commitCount: 1, firstContribution: true }
+		]);
+	});
+
+	test('should keep scope, co-authors and references from the parsed commit', () => {
+		const release = buildRelease([
+			createEntry('feat', 'Add export', 'feat(export): add CSV\n\nCloses #12, #13\nCo-authored-by: Bob <bob@example.com>')
+		], { summary: '', style: 'formal' });
+
+		const commit = release.sections[0].entries[0].commit;
+		assert.strictEqual(commit.scope, 'export');
+		assert.deepStrictEqual(commit.coAuthors, ['Bob']);
+		assert.deepStrictEqual(commit.references, ['#12', '#13']);
+	});
+
+	test('should resolve links to the commit and its issues', () => {
+		const release = buildRelease([
+			createEntry('fix', 'Fix export', 'fix: export of PROJ-7 rows\n\nFixes #12')
+		], {
+			summary: '',
+			style: 'formal',
+			links: new LinkResolver({ tracker: 'auto', remoteUrl: 'https://github.com/acme/app.git' })
+		});
+
+		const commit = release.sections[0].entries[0].commit;
+		assert.deepStrictEqual(commit.references, ['#12', 'PROJ-7']);
+		assert.strictEqual(commit.url, 'https://github.com/acme/app/commit/fix0000000000');
+		assert.deepStrictEqual(commit.referenceUrls, { '#12': 'https://github.com/acme/app/issues/12' });
+	});
+
+	test('should keep related commits and credit their authors', () => {
+		const entry = createEntry('feat', 'Add export', 'feat: add export');
+		entry.relatedCommits = [{ ...createEntry('fix', '', 'fix!: rename export option', 'Bob').commit, hash: 'bbbbbbb222' }];
+
+		const release = buildRelease([entry], { summary: '', style: 'formal' });
+		const [releaseEntry] = getReleaseEntries(release);
+
+		assert.deepStrictEqual(releaseEntry.relatedCommits?.map(commit => commit.hash), ['bbbbbbb222']);
+		assert.strictEqual(releaseEntry.breaking, true);
+		assert.deepStrictEqual(release.authors.map(author => author.name).sort(), ['Alice', 'Bob']);
+	});
+
+	test('should count every commit merged into an entry', () => {
+		const entry = createEntry('feat', 'Add export', 'feat: add export');
+		entry.relatedCommits = [
+			{ ...createEntry('fix', '', 'fix: export review', 'Alice').commit, hash: 'bbbbbbb222' },
+			{ ...createEntry('style', '', 'style: lint', 'Alice').commit, hash: 'ccccccc333' },
+			{ ...createEntry('fix', '', 'fix: export typo', 'Bob').commit, hash: 'ddddddd444' }
+		];
+
+		const release = buildRelease([entry], { summary: '', style: 'formal' });
+
+		assert.deepStrictEqual(release.authors, [
+			{ name: 'Alice', commitCount: 3 },
+			{ name: 'Bob', commitCount: 1 }
+		]);
+	});
+
+	test('should detect breaking changes from the marker and the footer', () => {
+		const release = buildRelease([
+			createEntry('feat', 'Drop Node 16 support', 'feat!: drop node 16'),
+			createEntry('refactor', 'Rename config keys', 'refactor(config): rename keys\n\nBREAKING CHANGE: `output` is now `outputFileName`'),
+			createEntry('fix', 'Fix login bug', 'fix: login bug')
+		], { summary: '', style: 'formal' });
+
+		assert.deepStrictEqual(release.breakingChanges.map(change => [change.description, change.migrationNote]), [
+			['Drop Node 16 support', undefined],
+			['Rename config keys', '`output` is now `outputFileName`']
+		]);
+	});
+
+	test('should keep breaking changes flagged by the AI', () => {
+		const entry = {
+			...createEntry('refactor', 'Remove the legacy export API', 'refactor: clean up exports'),
+			breaking: true,
+			migrationNote: 'Import from the package root instead.'
+		};
+
+		const release = buildRelease([entry], { summary: '', style: 'formal' });
+
+		assert.strictEqual(release.sections[0].entries[0].breaking, true);
+		assert.deepStrictEqual(release.breakingChanges.map(change => change.migrationNote), ['Import from the package root instead.']);
+	});
+
+	test('should serialize with the schema reference', () => {
+		const release = buildRelease([createEntry('feat', 'Add export', 'feat: add export')], {
+			version: '1.0.0',
+			date: '2024-02-01',
+			summary: 'Summary',
+			style: 'formal'
+		});
+
+		const json = JSON.parse(releaseToJSON(release));
+
+		assert.strictEqual(json.$schema, RELEASE_SCHEMA_URL);
+		assert.strictEqual(json.schemaVersion, RELEASE_SCHEMA_VERSION);
+		assert.strictEqual(json.version, '1.0.0');
+		assert.strictEqual(json.sections[0].entries[0].description, 'Add export');
+	});
+});
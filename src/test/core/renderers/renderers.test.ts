@@ -0,0 +1,253 @@
+import * as assert from 'assert';
+import { ChangelogEntry } from '../../../integrations/providers';
+import { buildRelease, Release } from '../../../core/release';
+import { LinkResolver } from '../../../integrations/issue-links';
+import {
+	AsciiDocRenderer,
+	HtmlRenderer,
+	KeepAChangelogRenderer,
+	MarkdownRenderer,
+	PlainTextRenderer,
+	RstRenderer,
+	getKeepAChangelogCategory,
+	rendererFactory
+} from '../../../core/renderers';
+
+suite('Changelog Renderers Test Suite', () => {
+	const createEntry = (
+		type: ChangelogEntry['type'],
+		description: string,
+		hash: string,
+		author = 'Alice'
+	): ChangelogEntry => ({
+		type,
+		description,
+		commit: { hash, message: `${type}: ${description.toLowerCase()}`, author, date: '2024-01-01', diff: '' }
+	});
+
+	const createRelease = (version = '1.2.0'): Release => buildRelease([
+		createEntry('feat', 'Add CSV export', 'aaaaaaa111'),
+		createEntry('fix', 'Fix <script> injection in titles', 'bbbbbbb222', 'Bob'),
+		createEntry('refactor', 'Simplify parser', 'ccccccc333')
+	], { version, date: '2024-02-01', summary: 'Export and safety fixes.', style: 'dev-friendly' });
+
+	suite('Breaking Changes', () => {
+		const breakingRelease = buildRelease([
+			createEntry('feat', 'Add CSV export', 'aaaaaaa111'),
+			{
+				...createEntry('refactor', 'Rename config keys', 'eeeeeee555'),
+				breaking: true,
+				migrationNote: 'Rename output to outputFileName'
+			}
+		], { version: '2.0.0', date: '2024-02-01', summary: 'Summary.', style: 'formal' });
+
+		test('should lead every format with the breaking changes', () => {
+			for (const format of rendererFactory.getSupportedFormats()) {
+				const output = rendererFactory.createRenderer(format).render(breakingRelease);
+				const breaking = output.search(/breaking changes/i);
+
+				assert.ok(breaking > 0, `${format} should have a breaking changes section`);
+				assert.ok(breaking < output.indexOf('Add CSV export'), `${format} should list breaking changes first`);
+				assert.ok(output.includes('Rename output to outputFileName'), `${format} should include the migration note`);
+			}
+		});
+
+		test('should omit the section without breaking changes', () => {
+			for (const format of rendererFactory.getSupportedFormats()) {
+				const output = rendererFactory.createRenderer(format).render(createRelease());
+
+				assert.ok(!/breaking changes/i.test(output), `${format} should not have a breaking changes section`);
+			}
+		});
+	});
+
+	suite('Contributors', () => {
+		const contributorRelease = buildRelease([
+			createEntry('feat', 'Add CSV export', 'aaaaaaa111'),
+			createEntry('fix', 'Fix typo', 'bbbbbbb222', 'Bob')
+		], { version: '1.2.0', date: '2024-02-01', summary: 'Summary.', style: 'formal', knownAuthors: ['Alice'] });
+
+		test('should end every format with the contributors when asked', () => {
+			for (const format of rendererFactory.getSupportedFormats()) {
+				const output = rendererFactory.createRenderer(format).render(contributorRelease, { showContributors: true });
+				const contributors = output.lastIndexOf('Contributors');
+
+				assert.ok(contributors > output.indexOf('Fix typo'), `${format} should list contributors last`);
+				assert.ok(/Bob.*first contribution/.test(output), `${format} should highlight first-time contributors`);
+				assert.ok(!/Alice.*first contribution/.test(output), `${format} should not highlight returning contributors`);
+			}
+		});
+
+		test('should leave contributors out by default', () => {
+			for (const format of rendererFactory.getSupportedFormats()) {
+				assert.ok(!rendererFactory.createRenderer(format).render(contributorRelease).includes('Contributors'));
+			}
+		});
+	});
+
+	suite('Links', () => {
+		const linkedEntry = createEntry('feat', 'Add CSV export', 'aaaaaaa111');
+		linkedEntry.commit.message = 'feat: add csv export\n\nCloses #45\nRefs: PROJ-7';
+		const linkedRelease = buildRelease([linkedEntry], {
+			version: '1.2.0',
+			date: '2024-02-01',
+			summary: 'Summary.',
+			style: 'formal',
+			links: new LinkResolver({ tracker: 'github', remoteUrl: 'git@github.com:acme/app.git' })
+		});
+		const commitUrl = 'https://github.com/acme/app/commit/aaaaaaa111';
+		const issueUrl = 'https://github.com/acme/app/issues/45';
+
+		test('should link hashes and issues in every format', () => {
+			const expected: Record<string, string> = {
+				markdown: `- Add CSV export ([aaaaaaa](${commitUrl}), [#45](${issueUrl}), PROJ-7)\n`,
+				'keep-a-changelog': `- Add CSV export ([aaaaaaa](${commitUrl}), [#45](${issueUrl}), PROJ-7)\n`,
+				html: `<li>Add CSV export <a href="${commitUrl}"><code>aaaaaaa</code></a> <a href="${issueUrl}">#45</a> PROJ-7</li>`,
+				asciidoc: `* Add CSV export (${commitUrl}[\`aaaaaaa\`], ${issueUrl}[#45], PROJ-7)\n`,
+				rst: `- Add CSV export (\`aaaaaaa <${commitUrl}>\`__, \`#45 <${issueUrl}>\`__, PROJ-7)\n`,
+				plain: `* Add CSV export (aaaaaaa <${commitUrl}>, #45 <${issueUrl}>, PROJ-7)\n`
+			};
+
+			for (const format of rendererFactory.getSupportedFormats()) {
+				const output = rendererFactory.createRenderer(format).render(linkedRelease);
+				assert.ok(output.includes(expected[format]), `${format} should link the commit and its issues`);
+			}
+		});
+
+		test('should link entries grouped by author', () => {
+			const output = new MarkdownRenderer().formatByAuthor(linkedRelease.sections[0].entries);
+
+			assert.ok(output.includes(`- ✨ Add CSV export ([aaaaaaa](${commitUrl}), [#45](${issueUrl}), PROJ-7)\n`));
+		});
+
+		test('should list the hashes of related commits', () => {
+			const entry = createEntry('feat', 'Add CSV export', 'aaaaaaa111');
+			entry.relatedCommits = [createEntry('fix', 'Address review', 'bbbbbbb222').commit];
+			const output = new MarkdownRenderer().formatByType(buildRelease([entry], { summary: '', style: 'formal' }).sections[0].entries);
+
+			assert.ok(output.includes('- Add CSV export (aaaaaaa, bbbbbbb)\n'));
+		});
+
+		test('should show unlinked references without a resolver', () => {
+			const output = new MarkdownRenderer().formatByType(buildRelease([linkedEntry], { summary: '', style: 'formal' }).sections[0].entries);
+
+			assert.ok(output.includes('- Add CSV export (aaaaaaa, #45, PROJ-7)\n'));
+		});
+	});
+
+	suite('Factory', () => {
+		test('should create a renderer for every supported format', () => {
+			for (const format of rendererFactory.getSupportedFormats()) {
+				assert.strictEqual(rendererFactory.createRenderer(format).format, format);
+			}
+		});
+
+		test('should reject unknown formats', () => {
+			assert.throws(() => rendererFactory.createRenderer('docx' as any), /Unknown output format/);
+		});
+	});
+
+	suite('Markdown', () => {
+		test('should keep the emoji layout', () => {
+			const output = new MarkdownRenderer().render(createRelease());
+
+			assert.ok(output.startsWith('## [1.2.0] - 2024-02-01\n\nExport and safety fixes.\n\n'));
+			assert.ok(output.includes('### ✨ Features\n\n- Add CSV export (aaaaaaa)\n'));
+			assert.ok(output.includes('### 🐛 Bug Fixes'));
+		});
+
+		test('should group by author', () => {
+			const output = new MarkdownRenderer().render(createRelease(), { groupByAuthor: true });
+
+			assert.ok(output.includes('### 👤 Alice\n\n- ✨ Add CSV export (aaaaaaa)\n- ♻️ Simplify parser (ccccccc)\n'));
+			assert.ok(output.includes('### 👤 Bob'));
+		});
+	});
+
+	suite('Keep a Changelog', () => {
+		test('should use the standard categories in order', () => {
+			const output = new KeepAChangelogRenderer().render(createRelease());
+
+			assert.ok(output.startsWith('## [1.2.0] - 2024-02-01\n'));
+			const added = output.indexOf('### Added');
+			const changed = output.indexOf('### Changed');
+			const fixed = output.indexOf('### Fixed');
+			assert.ok(added > 0 && added < changed && changed < fixed);
+			assert.ok(!output.includes('✨'));
+		});
+
+		test('should omit the date for unreleased changes', () => {
+			const output = new KeepAChangelogRenderer().render(createRelease('Unreleased'));
+
+			assert.ok(output.startsWith('## [Unreleased]\n'));
+		});
+
+		test('should recognize deprecations, removals and security fixes', () => {
+			const [deprecated, removed, security] = buildRelease([
+				createEntry('chore', 'Deprecate the legacy config format', '1111111'),
+				createEntry('refactor', 'Remove the v1 API', '2222222'),
+				createEntry('fix', 'Patch CVE-2024-1234 in the session handler', '3333333')
+			], { summary: '', style: 'formal' }).sections.flatMap(section => section.entries)
+				.sort((a, b) => a.commit.hash.localeCompare(b.commit.hash));
+
+			assert.strictEqual(getKeepAChangelogCategory(deprecated), 'Deprecated');
+			assert.strictEqual(getKeepAChangelogCategory(removed), 'Removed');
+			assert.strictEqual(getKeepAChangelogCategory(security), 'Security');
+		});
+	});
+
+	suite('HTML', () => {
+		test('should produce a standalone escaped document', () => {
+			const output = new HtmlRenderer().render(createRelease());
+
+			assert.ok(output.startsWith('<!DOCTYPE html>'));
+			assert.ok(output.includes('<h3>Features</h3>'));
+			assert.ok(output.includes('Fix &lt;script&gt; injection in titles'));
+			assert.ok(!output.includes('<script>'));
+			assert.ok(output.trimEnd().endsWith('</html>'));
+		});
+
+		test('should nest sections under authors', () => {
+			const output = new HtmlRenderer().render(createRelease(), { groupByAuthor: true });
+
+			assert.ok(output.includes('<h3>Alice</h3>'));
+			assert.ok(output.includes('<h4>Features</h4>'));
+		});
+	});
+
+	suite('AsciiDoc', () => {
+		test('should use AsciiDoc section markers', () => {
+			const output = new AsciiDocRenderer().render(createRelease());
+
+			assert.ok(output.startsWith('== 1.2.0 - 2024-02-01\n'));
+			assert.ok(output.includes('=== Features\n\n* Add CSV export (`aaaaaaa`)\n'));
+		});
+	});
+
+	suite('reStructuredText', () => {
+		test('should underline titles and escape inline markup', () => {
+			const release = buildRelease([createEntry('feat', 'Support *glob* patterns', 'ddddddd444')], {
+				version: '2.0.0',
+				date: '2024-03-01',
+				summary: '',
+				style: 'formal'
+			});
+
+			const output = new RstRenderer().render(release);
+
+			assert.ok(output.startsWith('2.0.0 - 2024-03-01\n==================\n'));
+			assert.ok(output.includes('Features\n--------\n'));
+			assert.ok(output.includes('- Support \\*glob\\* patterns (``ddddddd``)'));
+		});
+	});
+
+	suite('Plain text', () => {
+		test('should render without markup', () => {
+			const output = new PlainTextRenderer().render(createRelease());
+
+			assert.ok(output.startsWith('1.2.0 - 2024-02-01\n==================\n'));
+			assert.ok(output.includes('Features\n--------\n\n* Add CSV export (aaaaaaa)\n'));
+			assert.ok(!output.includes('#'));
+		});
+	});
+});
@@ -2,6 +2,7 @@ import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { StyleRecommendationService } from '../../core/styleRecommendation';
 import { ConfigService } from '../../config/config';
+import { StyleRegistry } from '../../config/styleRegistry';
 
 suite('StyleRecommendationService Tests', () => {
 	let styleRecommendationService: StyleRecommendationService;
@@ -10,6 +11,7 @@ suite('StyleRecommendationService Tests', () => {
 	setup(() => {
 		mockConfigService = {
 			getChangelogStyle: () => 'dev-friendly',
+			getStyleRegistry: () => new StyleRegistry(),
 			updateConfig: async () => {}
 		} as any;
 		
@@ -187,6 +189,24 @@ suite('StyleRecommendationService Tests', () => {
 			assert.strictEqual(updatedValue, 'formal');
 		});
 
+		test('should apply custom styles from the registry', async () => {
+			let updatedValue: any;
+			mockConfigService.getStyleRegistry = () => new StyleRegistry([{
+				name: 'customer-email',
+				description: 'Friendly email to customers',
+				example: 'You can now export reports as CSV.',
+				promptFragment: 'Write like a friendly customer email.'
+			}]);
+			mockConfigService.updateConfig = async (key: string, value: any) => {
+				updatedValue = value;
+			};
+
+			await styleRecommendationService.applyRecommendation('customer-email');
+			await styleRecommendationService.applyRecommendation('unknown-style');
+
+			assert.strictEqual(updatedValue, 'customer-email');
+		});
+
 		test('should not override existing user preference without permission', async () => {
 			// TODO: Implement - should respect existing settings
 			mockConfigService.getChangelogStyle = () => 'pm-style'; // User has existing preference
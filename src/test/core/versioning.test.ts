@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import { ChangelogEntry } from '../../integrations/providers';
+import {
+	bumpVersion,
+	compareVersions,
+	determineBump,
+	findLatestVersionTag,
+	formatVersion,
+	parseVersion,
+	setPackageVersion,
+	suggestNextVersion
+} from '../../core/versioning';
+
+suite('Versioning Test Suite', () => {
+	const createEntry = (type: ChangelogEntry['type'], message: string): ChangelogEntry => ({
+		type,
+		description: message.replace(/^\w+(\([^)]*\))?!?:\s*/, ''),
+		commit: { hash: 'abcdef1234', message, author: 'Alice', date: '2024-01-01', diff: '' }
+	});
+
+	const version = (text: string) => {
+		const parsed = parseVersion(text);
+		assert.ok(parsed, `${text} should parse`);
+		return parsed;
+	};
+
+	suite('parseVersion', () => {
+		test('should parse versions with prefix, pre-release and build metadata', () => {
+			assert.deepStrictEqual(parseVersion('v1.2.3'), { major: 1, minor: 2, patch: 3, prerelease: [] });
+			assert.deepStrictEqual(parseVersion('2.0.0-rc.1+build.5'), { major: 2, minor: 0, patch: 0, prerelease: ['rc', '1'] });
+		});
+
+		test('should reject non-versions', () => {
+			assert.strictEqual(parseVersion('release-2024'), null);
+			assert.strictEqual(parseVersion('1.2'), null);
+			assert.strictEqual(parseVersion('01.2.3'), null);
+		});
+	});
+
+	suite('compareVersions', () => {
+		test('should follow semver precedence', () => {
+			const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0', '1.0.1', '1.1.0'];
+			for (let i = 1; i < ordered.length; i++) {
+				assert.ok(compareVersions(version(ordered[i - 1]), version(ordered[i])) < 0, `${ordered[i - 1]} < ${ordered[i]}`);
+			}
+		});
+	});
+
+	suite('findLatestVersionTag', () => {
+		test('should pick the highest semver tag and ignore others', () => {
+			const latest = findLatestVersionTag(['nightly', 'v1.9.0', 'v1.10.0-rc.1', 'v1.10.0', 'v1.2.0']);
+
+			assert.strictEqual(latest?.tag, 'v1.10.0');
+		});
+
+		test('should return undefined without version tags', () => {
+			assert.strictEqual(findLatestVersionTag(['nightly']), undefined);
+		});
+	});
+
+	suite('determineBump', () => {
+		test('should require a major bump for breaking changes', () => {
+			const result = determineBump([
+				createEntry('feat', 'feat: add export'),
+				createEntry('refactor', 'refactor(api)!: rename endpoints')
+			]);
+
+			assert.strictEqual(result.bump, 'major');
+			assert.strictEqual(result.reasons.length, 1);
+			assert.ok(result.reasons[0].reason.includes('rename endpoints'));
+		});
+
+		test('should detect BREAKING CHANGE footers', () => {
+			const result = determineBump([createEntry('fix', 'fix: tighten validation\n\nBREAKING CHANGE: empty names are rejected')]);
+
+			assert.strictEqual(result.bump, 'major');
+		});
+
+		test('should require a minor bump for features and a patch otherwise', () => {
+			assert.strictEqual(determineBump([createEntry('feat', 'feat: add export'), createEntry('fix', 'fix: crash')]).bump, 'minor');
+			assert.strictEqual(determineBump([createEntry('fix', 'fix: crash'), createEntry('docs', 'docs: typo')]).bump, 'patch');
+		});
+	});
+
+	suite('bumpVersion', () => {
+		test('should increment and reset lower components', () => {
+			assert.strictEqual(formatVersion(bumpVersion(version('1.2.3'), 'major')), '2.0.0');
+			assert.strictEqual(formatVersion(bumpVersion(version('1.2.3'), 'minor')), '1.3.0');
+			assert.strictEqual(formatVersion(bumpVersion(version('1.2.3'), 'patch')), '1.2.4');
+		});
+
+		test('should start and advance pre-releases', () => {
+			assert.strictEqual(formatVersion(bumpVersion(version('1.2.3'), 'minor', 'beta')), '1.3.0-beta.0');
+			assert.strictEqual(formatVersion(bumpVersion(version('1.3.0-beta.0'), 'minor', 'beta')), '1.3.0-beta.1');
+			assert.strictEqual(formatVersion(bumpVersion(version('1.3.0-beta.1'), 'patch', 'rc')), '1.3.0-rc.0');
+		});
+
+		test('should release a pre-release that already covers the bump', () => {
+			assert.strictEqual(formatVersion(bumpVersion(version('1.3.0-rc.2'), 'minor')), '1.3.0');
+			assert.strictEqual(formatVersion(bumpVersion(version('1.3.1-rc.0'), 'minor')), '1.4.0');
+		});
+	});
+
+	suite('suggestNextVersion', () => {
+		test('should suggest from the latest tag and keep its prefix', () => {
+			const latest = findLatestVersionTag(['v1.4.2']);
+			const suggestion = suggestNextVersion([createEntry('feat', 'feat: add export')], latest);
+
+			assert.strictEqual(suggestion.bump, 'minor');
+			assert.strictEqual(suggestion.currentVersion, '1.4.2');
+			assert.strictEqual(suggestion.nextVersion, '1.5.0');
+			assert.strictEqual(suggestion.nextTag, 'v1.5.0');
+		});
+
+		test('should only bump the minor version for breaking changes before 1.0.0', () => {
+			const latest = findLatestVersionTag(['0.3.1']);
+			const suggestion = suggestNextVersion([createEntry('feat', 'feat!: new config format')], latest);
+
+			assert.strictEqual(suggestion.nextVersion, '0.4.0');
+			assert.strictEqual(suggestion.nextTag, '0.4.0');
+			assert.ok(suggestion.reasons.some(reason => reason.includes('0.x')));
+		});
+
+		test('should start from 0.0.0 without tags and support pre-releases', () => {
+			const suggestion = suggestNextVersion([createEntry('fix', 'fix: crash')], undefined, 'alpha');
+
+			assert.strictEqual(suggestion.nextVersion, '0.0.1-alpha.0');
+			assert.strictEqual(suggestion.currentTag, undefined);
+		});
+	});
+
+	suite('setPackageVersion', () => {
+		test('should change only the top-level version', () => {
+			const packageJson = '{\n  "name": "app",\n  "version": "1.2.0",\n  "dependencies": {\n    "lib": "^1.0.0"\n  }\n}\n';
+
+			assert.strictEqual(setPackageVersion(packageJson, '1.3.0'), packageJson.replace('1.2.0', '1.3.0'));
+		});
+
+		test('should refuse a nested version before the top-level one', () => {
+			const packageJson = '{\n  "config": {\n    "version": "9"\n  },\n  "version": "1.2.0"\n}\n';
+
+			assert.throws(() => setPackageVersion(packageJson, '1.3.0'), /version field/);
+		});
+
+		test('should refuse a package.json without a version', () => {
+			assert.throws(() => setPackageVersion('{ "name": "app" }', '1.3.0'), /no version field/);
+		});
+	});
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	WorkspacePackage,
+	discoverPackages,
+	findPackagesForFiles,
+	parsePnpmWorkspace
+} from '../../core/workspaces';
+
+suite('Workspaces Test Suite', () => {
+	suite('parsePnpmWorkspace', () => {
+		test('should read the packages list', () => {
+			const content = [
+				'packages:',
+				"  - 'packages/*'",
+				'  - "apps/*" # applications',
+				'  - !**/test/**',
+				'catalog:',
+				'  - ignored'
+			].join('\n');
+
+			assert.deepStrictEqual(parsePnpmWorkspace(content), ['packages/*', 'apps/*', '!**/test/**']);
+		});
+	});
+
+	suite('discoverPackages', () => {
+		let repoPath: string;
+
+		const writePackage = (directory: string, name?: string) => {
+			fs.mkdirSync(path.join(repoPath, directory), { recursive: true });
+			fs.writeFileSync(path.join(repoPath, directory, 'package.json'), JSON.stringify(name ? { name } : {}));
+		};
+
+		setup(() => {
+			repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'shipnote-ai-workspaces-'));
+		});
+
+		teardown(() => {
+			fs.rmSync(repoPath, { recursive: true, force: true });
+		});
+
+		test('should expand npm workspace globs', async () => {
+			fs.writeFileSync(path.join(repoPath, 'package.json'), JSON.stringify({ workspaces: ['packages/*', '!packages/internal'] }));
+			writePackage('packages/api', '@acme/api');
+			writePackage('packages/web');
+			writePackage('packages/internal', '@acme/internal');
+			fs.mkdirSync(path.join(repoPath, 'packages/docs'));
+
+			assert.deepStrictEqual(await discoverPackages(repoPath), [
+				{ name: '@acme/api', path: 'packages/api' },
+				{ name: 'web', path: 'packages/web' }
+			]);
+		});
+
+		test('should read yarn and pnpm workspaces', async () => {
+			fs.writeFileSync(path.join(repoPath, 'package.json'), JSON.stringify({ workspaces: { packages: ['libs/*'] } }));
+			fs.writeFileSync(path.join(repoPath, 'pnpm-workspace.yaml'), "packages:\n  - 'apps/**'\n");
+			writePackage('libs/core', '@acme/core');
+			writePackage('apps/mobile/ios', '@acme/ios');
+
+			const packages = await discoverPackages(repoPath);
+
+			assert.deepStrictEqual(packages.map(pkg => pkg.name), ['@acme/ios', '@acme/core']);
+		});
+
+		test('should prefer the configured path map', async () => {
+			fs.writeFileSync(path.join(repoPath, 'package.json'), JSON.stringify({ workspaces: ['packages/*'] }));
+			writePackage('packages/api', '@acme/api');
+
+			assert.deepStrictEqual(await discoverPackages(repoPath, { server: './services/server/' }), [
+				{ name: 'server', path: 'services/server' }
+			]);
+		});
+
+		test('should return nothing outside a monorepo', async () => {
+			fs.writeFileSync(path.join(repoPath, 'package.json'), JSON.stringify({ name: 'single' }));
+
+			assert.deepStrictEqual(await discoverPackages(repoPath), []);
+		});
+	});
+
+	suite('findPackagesForFiles', () => {
+		const packages: WorkspacePackage[] = [
+			{ name: 'api', path: 'packages/api' },
+			{ name: 'api-plugins', path: 'packages/api/plugins' },
+			{ name: 'web', path: 'packages/web' }
+		];
+
+		test('should attribute a commit to every package it touches', () => {
+			const owners = findPackagesForFiles(['packages/web/index.ts', 'packages/api/src/server.ts', 'README.md'], packages);
+
+			assert.deepStrictEqual(owners.map(pkg => pkg.name), ['api', 'web']);
+		});
+
+		test('should give files to the innermost package', () => {
+			const owners = findPackagesForFiles(['packages/api/plugins/auth.ts'], packages);
+
+			assert.deepStrictEqual(owners.map(pkg => pkg.name), ['api-plugins']);
+		});
+
+		test('should not match directories that only share a prefix', () => {
+			assert.deepStrictEqual(findPackagesForFiles(['packages/web-legacy/index.ts'], packages), []);
+		});
+	});
+});
@@ -0,0 +1,166 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIResponseCache, CacheKeyParts, hashDiffSettings } from '../../integrations/ai-cache';
+import { ChangelogEntry, CommitInfo } from '../../integrations/providers';
+
+suite('AIResponseCache Test Suite', () => {
+	let storageDir: string;
+
+	const createCommit = (hash: string): CommitInfo => ({
+		hash,
+		message: `feat: change ${hash}`,
+		author: 'Test Author',
+		date: '2024-01-01',
+		diff: '+code'
+	});
+
+	const createKey = (commitHash: string, overrides: Partial<CacheKeyParts> = {}): CacheKeyParts => ({
+		commitHash,
+		messageHash: 'message',
+		diffSettingsHash: 'diff-settings',
+		provider: 'openai',
+		model: 'gpt-4',
+		style: 'dev-friendly',
+		promptFingerprint: 'fingerprint',
+		...overrides
+	});
+
+	const createEntry = (commit: CommitInfo): ChangelogEntry => ({
+		type: 'feat',
+		description: `Describe ${commit.hash}.`,
+		commit
+	});
+
+	setup(() => {
+		storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipnote-ai-cache-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(storageDir, { recursive: true, force: true });
+	});
+
+	test('Should return stored entries with the current commit attached', async () => {
+		const cache = new AIResponseCache(storageDir);
+		const commit = createCommit('abc123');
+		await cache.set(createKey('abc123'), createEntry(commit));
+
+		const lookupCommit = createCommit('abc123');
+		const entry = await cache.get(createKey('abc123'), lookupCommit);
+
+		assert.ok(entry);
+		assert.strictEqual(entry.description, 'Describe abc123.');
+		assert.strictEqual(entry.commit, lookupCommit);
+	});
+
+	test('Should miss when message, diff settings, provider, model, style or prompts differ', async () => {
+		const cache = new AIResponseCache(storageDir);
+		const commit = createCommit('abc123');
+		await cache.set(createKey('abc123'), createEntry(commit));
+
+		assert.strictEqual(await cache.get(createKey('abc123', { provider: 'anthropic' }), commit), undefined);
+		assert.strictEqual(await cache.get(createKey('abc123', { model: 'gpt-4o' }), commit), undefined);
+		assert.strictEqual(await cache.get(createKey('abc123', { style: 'formal' }), commit), undefined);
+		assert.strictEqual(await cache.get(createKey('abc123', { promptFingerprint: 'changed' }), commit), undefined);
+		assert.strictEqual(await cache.get(createKey('abc123', { messageHash: 'changed' }), commit), undefined);
+		assert.strictEqual(await cache.get(createKey('abc123', { diffSettingsHash: 'changed' }), commit), undefined);
+	});
+
+	test('Should hash path filters and diff budgets apart', () => {
+		const base = hashDiffSettings({}, 1000);
+
+		assert.strictEqual(hashDiffSettings({ includePaths: [], excludePaths: [] }, 1000), base);
+		assert.notStrictEqual(hashDiffSettings({ includePaths: ['src'] }, 1000), base);
+		assert.notStrictEqual(hashDiffSettings({ excludePaths: ['src'] }, 1000), hashDiffSettings({ includePaths: ['src'] }, 1000));
+		assert.notStrictEqual(hashDiffSettings({}, 2000), base);
+	});
+
+	test('Should persist entries across instances after flush', async () => {
+		const commit = createCommit('abc123');
+		const first = new AIResponseCache(storageDir);
+		await first.set(createKey('abc123'), createEntry(commit));
+		await first.flush();
+
+		const second = new AIResponseCache(storageDir);
+		const entry = await second.get(createKey('abc123'), commit);
+
+		assert.ok(entry);
+		assert.strictEqual(entry.type, 'feat');
+	});
+
+	test('Should load the file once for concurrent lookups and keep entries stored meanwhile', async () => {
+		const commits = ['a1', 'b2'].map(createCommit);
+		const first = new AIResponseCache(storageDir);
+		await first.set(createKey('a1'), createEntry(commits[0]));
+		await first.flush();
+
+		const cache = new AIResponseCache(storageDir);
+		const updated = { ...createEntry(commits[0]), description: 'Updated a1.' };
+		const [hit, , other] = await Promise.all([
+			cache.get(createKey('a1'), commits[0]),
+			cache.set(createKey('a1'), updated),
+			cache.has(createKey('b2'))
+		]);
+
+		assert.strictEqual(hit?.description, 'Describe a1.');
+		assert.strictEqual(other, false);
+		assert.strictEqual((await cache.get(createKey('a1'), commits[0]))?.description, 'Updated a1.');
+		assert.strictEqual((await cache.getStats()).hits, 2);
+	});
+
+	test('Should evict the least recently used entries beyond the limit', async () => {
+		const cache = new AIResponseCache(storageDir, 2);
+		const commits = ['a1', 'b2', 'c3'].map(createCommit);
+
+		await cache.set(createKey('a1'), createEntry(commits[0]));
+		await new Promise(resolve => setTimeout(resolve, 5));
+		await cache.set(createKey('b2'), createEntry(commits[1]));
+		await new Promise(resolve => setTimeout(resolve, 5));
+
+		// Touch a1 so b2 becomes the least recently used
+		await cache.get(createKey('a1'), commits[0]);
+		await new Promise(resolve => setTimeout(resolve, 5));
+		await cache.set(createKey('c3'), createEntry(commits[2]));
+
+		assert.ok(await cache.get(createKey('a1'), commits[0]));
+		assert.strictEqual(await cache.get(createKey('b2'), commits[1]), undefined);
+		assert.ok(await cache.get(createKey('c3'), commits[2]));
+	});
+
+	test('Should clear memory and disk', async () => {
+		const commit = createCommit('abc123');
+		const cache = new AIResponseCache(storageDir);
+		await cache.set(createKey('abc123'), createEntry(commit));
+		await cache.flush();
+
+		await cache.clear();
+
+		const stats = await cache.getStats();
+		assert.strictEqual(stats.entries, 0);
+		assert.strictEqual(stats.sizeBytes, 0);
+		assert.strictEqual(await new AIResponseCache(storageDir).get(createKey('abc123'), commit), undefined);
+	});
+
+	test('Should ignore a corrupt cache file', async () => {
+		fs.writeFileSync(path.join(storageDir, 'ai-response-cache.json'), '{not json');
+		const cache = new AIResponseCache(storageDir);
+
+		const stats = await cache.getStats();
+
+		assert.strictEqual(stats.entries, 0);
+	});
+
+	test('Should report hits and misses', async () => {
+		const commit = createCommit('abc123');
+		const cache = new AIResponseCache(storageDir);
+		await cache.set(createKey('abc123'), createEntry(commit));
+
+		await cache.get(createKey('abc123'), commit);
+		await cache.get(createKey('def456'), createCommit('def456'));
+
+		const stats = await cache.getStats();
+		assert.strictEqual(stats.hits, 1);
+		assert.strictEqual(stats.misses, 1);
+	});
+});
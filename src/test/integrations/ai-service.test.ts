@@ -1,10 +1,16 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { AIService, MultiAIConfig } from '../../integrations/ai-service';
+import * as os from 'os';
+import * as path from 'path';
+import { AIService, CostNotConfirmedError, MultiAIConfig } from '../../integrations/ai-service';
+import { AIResponseCache } from '../../integrations/ai-cache';
+import { CostEstimate } from '../../integrations/cost-estimator';
+import { UsageRecord } from '../../integrations/usage-log';
+import { createPullRequestCommit, detectPullRequest } from '../../integrations/pull-requests';
 import { AIProviderType, CommitInfo, ChangelogEntry } from '../../integrations/providers';
 
 // Simplified mock VS Code extension context
-const createMockContext = (apiKeys: Record<string, string> = { openai: 'test-openai-key', anthropic: 'test-anthropic-key' }): vscode.ExtensionContext => {
+const createMockContext = (apiKeys: Record<string, string> = { openaiApiKey: 'test-openai-key', anthropicApiKey: 'test-anthropic-key' }): vscode.ExtensionContext => {
 	return {
 		subscriptions: [],
 		workspaceState: {} as any,
@@ -228,6 +234,23 @@ suite('AIService Test Suite', () => {
 		assert.ok(true);
 	});
 
+	test('GetProviderConfig should let dedicated settings win over providerConfigs', async () => {
+		aiService = new AIService(mockContext, {
+			providerConfigs: {
+				openai: { apiKey: 'stale-key', model: 'stale-model' },
+				anthropic: { model: 'claude-3-haiku-20240307' }
+			} as MultiAIConfig['providerConfigs']
+		});
+
+		const openai = await (aiService as any).getProviderConfig('openai');
+		const anthropic = await (aiService as any).getProviderConfig('anthropic');
+
+		assert.strictEqual(openai.apiKey, 'test-openai-key');
+		assert.strictEqual(openai.model, 'gpt-4');
+		// Left unset in settings, so providerConfigs still applies
+		assert.strictEqual(anthropic.model, 'claude-3-haiku-20240307');
+	});
+
 	test('TestProvider should validate provider connection', async () => {
 		aiService = new AIService(mockContext);
 		await aiService.initialize();
@@ -293,4 +316,186 @@ suite('AIService Test Suite', () => {
 		assert.strictEqual(result.success, false);
 		assert.strictEqual(result.error, 'Provider not found');
 	});
+
+	test('GetActiveProviderType should fall back when primary is not configured', async () => {
+		aiService = new AIService(createMockContext({}), {
+			primaryProvider: 'anthropic',
+			fallbackProvider: 'offline'
+		});
+		await aiService.initialize();
+
+		assert.strictEqual(aiService.isProviderConfigured('anthropic'), false);
+		assert.strictEqual(aiService.getActiveProviderType(), 'offline');
+	});
+
+	test('GetProviderApiKey should read legacy OpenAI key', async () => {
+		aiService = new AIService(createMockContext({ 'shipnote-ai.openaiKey': 'sk-legacy' }));
+
+		const apiKey = await aiService.getProviderApiKey('openai');
+
+		assert.strictEqual(apiKey, 'sk-legacy');
+	});
+
+	test('ProcessCommits should reuse cached entries instead of calling the provider again', async () => {
+		aiService = new AIService(mockContext);
+		await aiService.initialize();
+		aiService.setResponseCache(new AIResponseCache(path.join(os.tmpdir(), `shipnote-ai-cache-${Date.now()}`)));
+
+		const commit: CommitInfo = {
+			hash: 'abc123',
+			message: 'feat: add export',
+			author: 'Test User',
+			date: '2024-01-01',
+			diff: '+export'
+		};
+
+		let providerCalls = 0;
+		const provider = (aiService as any).providers.get('openai');
+		provider.processCommits = async (commits: CommitInfo[]): Promise<ChangelogEntry[]> => {
+			providerCalls++;
+			return commits.map(c => ({ type: 'feat', description: 'Add export.', commit: c }));
+		};
+
+		await aiService.processCommits([commit], 'dev-friendly');
+		const entries = await aiService.processCommits([commit], 'dev-friendly');
+
+		assert.strictEqual(providerCalls, 1);
+		assert.strictEqual(entries[0].description, 'Add export.');
+		assert.strictEqual(entries[0].commit, commit);
+
+		// A different style must not hit the cached entry
+		await aiService.processCommits([commit], 'formal');
+		assert.strictEqual(providerCalls, 2);
+	});
+
+	test('ProcessCommits should not share cached entries between a merge and its pull request', async () => {
+		aiService = new AIService(mockContext);
+		await aiService.initialize();
+		aiService.setResponseCache(new AIResponseCache(path.join(os.tmpdir(), `shipnote-ai-cache-${Date.now()}`)));
+
+		const merge = {
+			hash: 'merge123',
+			message: 'Merge pull request #12 from acme/export',
+			body: 'Add CSV export',
+			author: 'Maintainer',
+			date: '2024-01-02',
+			diff: '',
+			parents: ['p1', 'p2']
+		};
+		const pullRequest = createPullRequestCommit(merge, detectPullRequest(merge)!, [
+			{ hash: 'c1', message: 'feat: add csv export', author: 'Test User', date: '2024-01-01', diff: '' }
+		]);
+
+		const provider = (aiService as any).providers.get('openai');
+		provider.processCommits = async (commits: CommitInfo[]): Promise<ChangelogEntry[]> =>
+			commits.map(c => ({ type: 'feat', description: c.message, commit: c }));
+
+		const [normal] = await aiService.processCommits([merge], 'dev-friendly');
+		const [pullRequestEntry] = await aiService.processCommits([pullRequest], 'dev-friendly');
+		const [normalAgain] = await aiService.processCommits([merge], 'dev-friendly');
+
+		assert.strictEqual(normal.description, 'Merge pull request #12 from acme/export');
+		assert.strictEqual(pullRequestEntry.description, 'Add CSV export');
+		assert.strictEqual(normalAgain.description, 'Merge pull request #12 from acme/export');
+	});
+
+	test('ProcessCommits should not reuse entries generated with other path filters or diff budgets', async () => {
+		aiService = new AIService(mockContext);
+		await aiService.initialize();
+		aiService.setResponseCache(new AIResponseCache(path.join(os.tmpdir(), `shipnote-ai-cache-${Date.now()}`)));
+
+		const createCommit = (pathFilter?: CommitInfo['pathFilter']): CommitInfo => ({
+			hash: 'abc123', message: 'feat: add export', author: 'Test User', date: '2024-01-01', diff: '+export', pathFilter
+		});
+
+		let providerCalls = 0;
+		const provider = (aiService as any).providers.get('openai');
+		provider.processCommits = async (commits: CommitInfo[]): Promise<ChangelogEntry[]> => {
+			providerCalls++;
+			return commits.map(c => ({ type: 'feat', description: 'Add export.', commit: c }));
+		};
+
+		await aiService.processCommits([createCommit()], 'dev-friendly');
+		await aiService.processCommits([createCommit({ includePaths: ['src'] })], 'dev-friendly');
+		await aiService.processCommits([createCommit({ includePaths: ['src'] })], 'dev-friendly');
+		assert.strictEqual(providerCalls, 2);
+
+		provider.getDiffTokenBudget = () => 42;
+		await aiService.processCommits([createCommit({ includePaths: ['src'] })], 'dev-friendly');
+		assert.strictEqual(providerCalls, 3);
+	});
+
+	test('ProcessCommits should only load diffs for commits that miss the cache', async () => {
+		aiService = new AIService(mockContext);
+		await aiService.initialize();
+		aiService.setResponseCache(new AIResponseCache(path.join(os.tmpdir(), `shipnote-ai-cache-${Date.now()}`)));
+
+		const createCommit = (hash: string): CommitInfo => ({ hash, message: 'feat: x', author: 'Test User', date: '2024-01-01', diff: '' });
+		const loaded: string[] = [];
+		aiService.setDiffLoader(async (commits) => {
+			for (const commit of commits) {
+				loaded.push(commit.hash);
+				commit.diff = `+${commit.hash}`;
+			}
+		});
+
+		const provider = (aiService as any).providers.get('openai');
+		provider.processCommits = async (commits: CommitInfo[]): Promise<ChangelogEntry[]> =>
+			commits.map(c => ({ type: 'feat', description: c.diff, commit: c }));
+
+		await aiService.processCommits([createCommit('aaa111')], 'dev-friendly');
+		const entries = await aiService.processCommits([createCommit('aaa111'), createCommit('bbb222')], 'dev-friendly');
+
+		assert.deepStrictEqual(loaded, ['aaa111', 'bbb222']);
+		assert.deepStrictEqual(entries.map(entry => entry.description), ['+aaa111', '+bbb222']);
+	});
+
+	test('ProcessCommits should not call the provider when the estimated cost is declined', async () => {
+		aiService = new AIService(mockContext);
+		await aiService.initialize();
+
+		let providerCalls = 0;
+		const provider = (aiService as any).providers.get('openai');
+		provider.processCommits = async (commits: CommitInfo[]): Promise<ChangelogEntry[]> => {
+			providerCalls++;
+			return [];
+		};
+		const estimates: CostEstimate[] = [];
+		aiService.setCostConfirmation(async (estimate) => {
+			estimates.push(estimate);
+			return false;
+		});
+
+		const commit: CommitInfo = { hash: 'abc123', message: 'feat: add export', author: 'Test User', date: '2024-01-01', diff: '+export' };
+		await assert.rejects(aiService.processCommits([commit], 'dev-friendly'), CostNotConfirmedError);
+
+		assert.strictEqual(providerCalls, 0);
+		assert.strictEqual(estimates[0].model, 'gpt-4');
+		assert.strictEqual(estimates[0].commits, 1);
+		assert.ok(estimates[0].inputTokens > 0);
+		assert.ok(estimates[0].cost! > 0);
+	});
+
+	test('ProcessCommits should record the estimate next to the reported usage', async () => {
+		aiService = new AIService(mockContext);
+		await aiService.initialize();
+
+		const provider = (aiService as any).providers.get('openai');
+		provider.processCommits = async (commits: CommitInfo[]): Promise<ChangelogEntry[]> => {
+			provider.recordUsage({ inputTokens: 1000, outputTokens: 100 });
+			return commits.map(c => ({ type: 'feat', description: 'Add export.', commit: c }));
+		};
+		const records: UsageRecord[] = [];
+		aiService.setUsageRecorder(async (record) => {
+			records.push(record);
+		});
+
+		const commit: CommitInfo = { hash: 'abc123', message: 'feat: add export', author: 'Test User', date: '2024-01-01', diff: '+export' };
+		await aiService.processCommits([commit], 'dev-friendly');
+
+		assert.strictEqual(records.length, 1);
+		assert.strictEqual(records[0].provider, 'openai');
+		assert.ok(records[0].estimate.inputTokens > 0);
+		assert.deepStrictEqual(records[0].actual, { requests: 1, totalTokens: 1100, inputTokens: 1000, outputTokens: 100, cost: 0.036 });
+	});
 });
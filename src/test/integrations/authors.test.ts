@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { AuthorIdentityResolver } from '../../integrations/authors';
+import { CommitInfo } from '../../integrations/git';
+
+suite('Author Identity Test Suite', () => {
+	const createCommit = (author: string, email?: string, message = 'feat: x'): CommitInfo => ({
+		hash: `${author}0000`,
+		message,
+		author,
+		email,
+		date: '2024-01-01',
+		diff: ''
+	});
+
+	const resolver = new AuthorIdentityResolver({
+		aliases: {
+			'jdoe@old-company.com': 'Jane Doe',
+			'JANE': 'Jane Doe'
+		},
+		excludeAuthors: ['*[bot]', 'renovate*']
+	});
+
+	suite('resolve', () => {
+		test('should map aliases by email or name, ignoring case', () => {
+			assert.strictEqual(resolver.resolve('J. Doe', 'JDoe@old-company.com'), 'Jane Doe');
+			assert.strictEqual(resolver.resolve('jane', 'jane@home.dev'), 'Jane Doe');
+		});
+
+		test('should keep unknown authors', () => {
+			assert.strictEqual(resolver.resolve('Sam Lee', 'sam@example.com'), 'Sam Lee');
+		});
+	});
+
+	suite('isExcluded', () => {
+		test('should match bot patterns by name or email', () => {
+			assert.ok(resolver.isExcluded('dependabot[bot]', '49699333+dependabot[bot]@users.noreply.github.com'));
+			assert.ok(resolver.isExcluded('Renovate Bot', 'bot@renovateapp.com'));
+			assert.ok(resolver.isExcluded('Bot', 'renovate@whitesourcesoftware.com'));
+			assert.ok(!resolver.isExcluded('Jane Doe', 'jane@home.dev'));
+		});
+	});
+
+	suite('applyToCommits', () => {
+		test('should drop bot commits and rename authors and co-authors', () => {
+			const commits = resolver.applyToCommits([
+				createCommit('jane', 'jane@home.dev', 'feat: x\n\nCo-authored-by: J. Doe <jdoe@old-company.com>\nCo-authored-by: github-actions[bot] <actions@github.com>'),
+				createCommit('dependabot[bot]', 'support@github.com', 'chore(deps): bump lodash'),
+				createCommit('Sam Lee', 'sam@example.com')
+			]);
+
+			assert.deepStrictEqual(commits.map(commit => commit.author), ['Jane Doe', 'Sam Lee']);
+			assert.deepStrictEqual(commits[0].parsed?.coAuthors, [{ name: 'Jane Doe', email: 'jdoe@old-company.com' }]);
+		});
+	});
+});
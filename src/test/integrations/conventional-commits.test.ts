@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { detectBreakingChange, getParsedCommit, parseCommitMessage } from '../../integrations/conventional-commits';
+
+suite('Conventional Commits Test Suite', () => {
+	suite('detectBreakingChange', () => {
+		test('should detect the ! marker with and without scope', () => {
+			assert.deepStrictEqual(detectBreakingChange('feat!: drop node 16'), { breaking: true });
+			assert.deepStrictEqual(detectBreakingChange('refactor(api)!: rename endpoints'), { breaking: true });
+		});
+
+		test('should read the BREAKING CHANGE footer as the note', () => {
+			const result = detectBreakingChange('feat: new config\n\nBREAKING CHANGE: `output` was renamed\nto `outputFileName`\n\nReviewed-by: Bob');
+
+			assert.deepStrictEqual(result, { breaking: true, note: '`output` was renamed to `outputFileName`' });
+		});
+
+		test('should accept the hyphenated footer token', () => {
+			assert.strictEqual(detectBreakingChange('fix: x\n\nBREAKING-CHANGE: y').note, 'y');
+		});
+
+		test('should ignore ordinary commits', () => {
+			assert.deepStrictEqual(detectBreakingChange('fix: mention breaking change in docs'), { breaking: false });
+		});
+	});
+
+	suite('parseCommitMessage', () => {
+		test('should split the header into type, scope and subject', () => {
+			const parsed = parseCommitMessage('Feat(api): add pagination');
+
+			assert.strictEqual(parsed.type, 'feat');
+			assert.strictEqual(parsed.scope, 'api');
+			assert.strictEqual(parsed.subject, 'add pagination');
+			assert.strictEqual(parsed.breaking, false);
+		});
+
+		test('should keep the whole header as subject for non-conventional commits', () => {
+			const parsed = parseCommitMessage('Update README');
+
+			assert.strictEqual(parsed.type, undefined);
+			assert.strictEqual(parsed.subject, 'Update README');
+		});
+
+		test('should separate the body from the footers', () => {
+			const parsed = parseCommitMessage([
+				'fix(auth): refresh expired tokens',
+				'',
+				'Tokens were only refreshed on login.',
+				'',
+				'Now they refresh on every request.',
+				'',
+				'Refs: #10',
+				'Closes #42, #43',
+				'Co-authored-by: Bob Smith <bob@example.com>',
+				'Co-authored-by: Carol'
+			].join('\n'));
+
+			assert.strictEqual(parsed.body, 'Tokens were only refreshed on login.\n\nNow they refresh on every request.');
+			assert.deepStrictEqual(parsed.footers.map(footer => footer.token), ['Refs', 'Closes', 'Co-authored-by', 'Co-authored-by']);
+			assert.deepStrictEqual(parsed.references, ['#10', '#42', '#43']);
+			assert.deepStrictEqual(parsed.coAuthors, [{ name: 'Bob Smith', email: 'bob@example.com' }, { name: 'Carol' }]);
+		});
+
+		test('should not treat body text with a colon as a footer', () => {
+			const parsed = parseCommitMessage('docs: explain setup\n\nNote that: this is prose, not a footer.\n\nSigned-off-by: Alice');
+
+			assert.strictEqual(parsed.body, 'Note that: this is prose, not a footer.');
+			assert.deepStrictEqual(parsed.footers, [{ token: 'Signed-off-by', value: 'Alice' }]);
+		});
+
+		test('should detect git reverts', () => {
+			const parsed = parseCommitMessage('Revert "feat: add export"\n\nThis reverts commit 1234567890abcdef.');
+
+			assert.deepStrictEqual(parsed.revert, { header: 'feat: add export', hash: '1234567890abcdef' });
+		});
+
+		test('should detect the revert type', () => {
+			assert.deepStrictEqual(parseCommitMessage('revert: feat: add export').revert, { header: 'feat: add export', hash: undefined });
+			assert.strictEqual(parseCommitMessage('feat: add export').revert, undefined);
+		});
+	});
+
+	suite('getParsedCommit', () => {
+		test('should reuse the parsed commit when present', () => {
+			const parsed = parseCommitMessage('feat(ui): x');
+
+			assert.strictEqual(getParsedCommit({ message: 'fix: y', parsed }), parsed);
+		});
+
+		test('should parse the subject together with the body', () => {
+			const parsed = getParsedCommit({ message: 'feat: x', body: 'BREAKING CHANGE: removed y' });
+
+			assert.strictEqual(parsed.breaking, true);
+			assert.strictEqual(parsed.breakingNote, 'removed y');
+		});
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { calculateCost, findModelPrice, formatCost } from '../../integrations/cost-estimator';
+
+suite('Cost Estimator Test Suite', () => {
+	suite('findModelPrice', () => {
+		test('should match exact names before prefixes', () => {
+			assert.deepStrictEqual(findModelPrice('gpt-4o-mini'), { input: 0.15, output: 0.6 });
+			assert.deepStrictEqual(findModelPrice('gpt-4o-2024-08-06'), { input: 2.5, output: 10 });
+			assert.deepStrictEqual(findModelPrice('claude-3-5-sonnet-20241022'), { input: 3, output: 15 });
+		});
+
+		test('should prefer configured prices', () => {
+			const prices = { 'gpt-4o': { input: 1, output: 2 }, 'my-model': { input: 4, output: 8 } };
+
+			assert.deepStrictEqual(findModelPrice('gpt-4o', prices), { input: 1, output: 2 });
+			assert.deepStrictEqual(findModelPrice('my-model-v2', prices), { input: 4, output: 8 });
+		});
+
+		test('should return nothing for unknown models', () => {
+			assert.strictEqual(findModelPrice('llama3.1'), undefined);
+		});
+	});
+
+	suite('calculateCost', () => {
+		test('should price input and output tokens per million', () => {
+			assert.strictEqual(calculateCost({ inputTokens: 200_000, outputTokens: 50_000 }, { input: 2.5, output: 10 }), 1);
+		});
+	});
+
+	suite('formatCost', () => {
+		test('should keep small costs readable', () => {
+			assert.strictEqual(formatCost(1.5), '$1.50');
+			assert.strictEqual(formatCost(0.00042), '$0.0004');
+			assert.strictEqual(formatCost(0), '$0.00');
+			assert.strictEqual(formatCost(undefined), 'unknown cost');
+		});
+	});
+});
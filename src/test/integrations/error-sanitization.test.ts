@@ -56,6 +56,12 @@ suite('Error Message Sanitization', () => {
 			assert.strictEqual(sanitized, 'x-api-key: [REDACTED] is invalid');
 		});
 
+		test('should sanitize Azure api-key headers', () => {
+			const errorMessage = 'api-key: 0123456789abcdef0123456789abcdef was rejected';
+			const sanitized = sanitizeErrorMessage(errorMessage);
+			assert.strictEqual(sanitized, '[REDACTED] was rejected');
+		});
+
 		test('should sanitize base64 encoded data that might contain keys', () => {
 			// Note: Base64 encoded keys are less common in error messages
 			// and the generic pattern was too aggressive, so we don't sanitize these currently
@@ -1,6 +1,11 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { GitService, CommitInfo, CommitRangeOptions, BranchInfo, BranchComparisonOptions } from '../../integrations/git';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { GitService, CommitInfo, CommitRangeOptions, BranchInfo, BranchComparisonOptions, InvalidRefError } from '../../integrations/git';
+import { createPullRequestCommit, detectPullRequest } from '../../integrations/pull-requests';
 
 suite('GitService Tests', () => {
 	let gitService: GitService;
@@ -403,4 +408,252 @@ suite('GitService Tests', () => {
 			}
 		});
 	});
+
+	suite('Commit Log', () => {
+		let repoPath: string;
+
+		const commit = (files: Record<string, string>, message: string, author = 'Alice') => {
+			for (const [file, content] of Object.entries(files)) {
+				fs.mkdirSync(path.dirname(path.join(repoPath, file)), { recursive: true });
+				fs.writeFileSync(path.join(repoPath, file), content);
+			}
+			execSync('git add -A', { cwd: repoPath });
+			execSync(`git -c user.name="${author}" -c user.email=${author.toLowerCase()}@example.com commit -q -F -`, { cwd: repoPath, input: message });
+		};
+
+		setup(() => {
+			repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'shipnote-ai-git-'));
+			execSync('git init -q -b main', { cwd: repoPath });
+			commit({ 'src/a.ts': 'a\n', 'yarn.lock': 'v1\n' }, 'feat: initial');
+			commit({ 'src/b.ts': 'b\n', 'yarn.lock': 'v2\n' }, 'fix(b): handle | and ; in messages\n\nBody text.\n\nRefs: #7', 'Bob');
+		});
+
+		teardown(() => {
+			fs.rmSync(repoPath, { recursive: true, force: true });
+		});
+
+		test('should read metadata, bodies and files in one listing without diffs', async () => {
+			const commits = await gitService.getCommits(repoPath, { commitCount: 5 });
+
+			assert.deepStrictEqual(commits.map(c => c.message), ['fix(b): handle | and ; in messages', 'feat: initial']);
+			assert.strictEqual(commits[0].author, 'Bob');
+			assert.strictEqual(commits[0].email, 'bob@example.com');
+			assert.strictEqual(commits[0].body, 'Body text.\n\nRefs: #7');
+			assert.deepStrictEqual(commits[0].parsed?.references, ['#7']);
+			assert.deepStrictEqual(commits[0].files, ['src/b.ts', 'yarn.lock']);
+			assert.strictEqual(commits[0].diff, '');
+		});
+
+		test('should load diffs in bulk with excluded paths trimmed', async () => {
+			const commits = await gitService.getCommits(repoPath, { commitCount: 5, excludePaths: ['**/*.lock'] });
+
+			await gitService.loadDiffs(commits);
+
+			assert.ok(commits[0].diff.startsWith('diff --git a/src/b.ts b/src/b.ts'));
+			assert.ok(commits[1].diff.includes('src/a.ts'));
+			assert.ok(commits.every(c => !c.diff.includes('yarn.lock')));
+		});
+
+		test('should load each listing\'s diffs with its own path filter', async () => {
+			const filtered = await gitService.getCommits(repoPath, { commitCount: 1, excludePaths: ['**/*.lock'] });
+			const unfiltered = await gitService.getCommits(repoPath, { commitCount: 1 });
+
+			await gitService.loadDiffs([...filtered, ...unfiltered]);
+
+			assert.ok(!filtered[0].diff.includes('yarn.lock'));
+			assert.ok(unfiltered[0].diff.includes('yarn.lock'));
+			assert.strictEqual(filtered[0].pendingDiff, undefined);
+		});
+
+		test('should list branch tips without loading diffs', async () => {
+			execSync('git branch feature', { cwd: repoPath });
+
+			const branches = await gitService.getBranches(repoPath);
+
+			assert.deepStrictEqual(branches.map(branch => branch.name), ['feature', 'main']);
+			assert.strictEqual(branches[0].lastCommit?.message, 'fix(b): handle | and ; in messages');
+			assert.strictEqual(branches[0].lastCommit?.diff, '');
+			assert.strictEqual(branches[0].lastCommit?.pendingDiff, undefined);
+		});
+
+		test('should accept branch, tag, SHA and ancestry refs', async () => {
+			const hash = execSync('git rev-parse HEAD', { cwd: repoPath }).toString().trim();
+
+			for (const ref of ['main', 'feature/login', 'v1.0.0', hash, 'HEAD~1', 'main^']) {
+				await gitService.validateRef(repoPath, ref);
+			}
+		});
+
+		test('should reject refs that git would not accept or would read as options', async () => {
+			for (const ref of ['', '--output=/tmp/x', 'main..other', 'a b', 'main;rm -rf', 'bad~name', 'feature.lock']) {
+				await assert.rejects(gitService.validateRef(repoPath, ref), InvalidRefError);
+			}
+		});
+
+		test('should only report names git rejects as invalid refs', async () => {
+			await gitService.validateRef(path.join(repoPath, 'missing'), 'main');
+			await assert.rejects(gitService.validateRef(path.join(repoPath, 'missing'), 'main..x'), InvalidRefError);
+
+			const originalPath = process.env.PATH;
+			process.env.PATH = '';
+			try {
+				await assert.rejects(
+					gitService.validateRef(repoPath, 'main'),
+					(error: Error) => !(error instanceof InvalidRefError) && /ENOENT/.test(error.message)
+				);
+			} finally {
+				process.env.PATH = originalPath;
+			}
+		});
+
+		test('should pass shell characters to git as plain arguments', async () => {
+			const marker = path.join(repoPath, 'injected');
+
+			await assert.rejects(
+				gitService.getCommits(repoPath, { fromBranch: 'main', toBranch: `main$(touch ${marker})` }),
+				(error: unknown) => error instanceof InvalidRefError && error.ref === `main$(touch ${marker})`
+			);
+			await assert.rejects(gitService.getCommitsBetweenBranches(repoPath, '-h', 'main'), InvalidRefError);
+			assert.strictEqual(fs.existsSync(marker), false);
+		});
+
+		test('should keep the date range as a single argument', async () => {
+			const commits = await gitService.getCommits(repoPath, { fromDate: '2000-01-01; echo injected' });
+
+			assert.ok(Array.isArray(commits));
+		});
+
+		test('should follow the first parent and load what a merge brought in', async () => {
+			execSync('git tag v1.0.0', { cwd: repoPath });
+			execSync('git checkout -q -b feature', { cwd: repoPath });
+			commit({ 'src/c.ts': 'c\n' }, 'feat: add c', 'Carol');
+			commit({ 'src/c.ts': 'c2\n' }, 'fix review', 'Carol');
+			execSync('git checkout -q main', { cwd: repoPath });
+			execSync('git -c user.name=Maintainer -c user.email=m@example.com merge -q --no-ff feature -m "Merge pull request #9 from acme/feature" -m "Add c"', { cwd: repoPath });
+
+			const commits = await gitService.getFirstParentCommits(repoPath, 'v1.0.0', 'HEAD');
+
+			assert.deepStrictEqual(commits.map(c => c.message), ['Merge pull request #9 from acme/feature']);
+			assert.strictEqual(commits[0].parents?.length, 2);
+			assert.deepStrictEqual(commits[0].files, ['src/c.ts']);
+
+			const merged = await gitService.getMergedCommits(repoPath, commits[0]);
+			assert.deepStrictEqual(merged.map(c => c.message), ['fix review', 'feat: add c']);
+
+			await gitService.loadDiffs(commits);
+			assert.ok(commits[0].diff.includes('+c2'));
+		});
+
+		test('should load the diff of a merged pull request entry', async () => {
+			execSync('git tag v1.0.0', { cwd: repoPath });
+			execSync('git checkout -q -b feature', { cwd: repoPath });
+			commit({ 'src/c.ts': 'c\n' }, 'feat: add c', 'Carol');
+			execSync('git checkout -q main', { cwd: repoPath });
+			execSync('git -c user.name=Maintainer -c user.email=m@example.com merge -q --no-ff feature -m "Merge pull request #9 from acme/feature" -m "Add c"', { cwd: repoPath });
+
+			const [merge] = await gitService.getFirstParentCommits(repoPath, 'v1.0.0', 'HEAD');
+			const merged = await gitService.getMergedCommits(repoPath, merge);
+			const pullRequest = createPullRequestCommit(merge, detectPullRequest(merge)!, merged);
+
+			await gitService.loadDiffs([pullRequest]);
+
+			assert.ok(pullRequest.diff.includes('+c'));
+			assert.strictEqual(pullRequest.pendingDiff, undefined);
+		});
+
+		test('should leave filtered paths out of pull requests', async () => {
+			execSync('git tag v1.0.0', { cwd: repoPath });
+			execSync('git checkout -q -b deps', { cwd: repoPath });
+			commit({ 'yarn.lock': 'lock2\n' }, 'chore: bump lockfile', 'Carol');
+			execSync('git checkout -q main', { cwd: repoPath });
+			execSync('git -c user.name=Maintainer -c user.email=m@example.com merge -q --no-ff deps -m "Merge pull request #8 from acme/deps"', { cwd: repoPath });
+			execSync('git checkout -q -b feature', { cwd: repoPath });
+			commit({ 'src/c.ts': 'c\n', 'yarn.lock': 'lock3\n' }, 'feat: add c', 'Carol');
+			commit({ 'yarn.lock': 'lock4\n' }, 'chore: bump lockfile again', 'Carol');
+			execSync('git checkout -q main', { cwd: repoPath });
+			execSync('git -c user.name=Maintainer -c user.email=m@example.com merge -q --no-ff feature -m "Merge pull request #9 from acme/feature"', { cwd: repoPath });
+			const filter = { excludePaths: ['**/*.lock'] };
+
+			const commits = await gitService.getFirstParentCommits(repoPath, 'v1.0.0', 'HEAD', filter);
+			const merged = await gitService.getMergedCommits(repoPath, commits[0], filter);
+			await gitService.loadDiffs([...commits, ...merged]);
+
+			assert.deepStrictEqual(commits.map(c => c.message), ['Merge pull request #9 from acme/feature']);
+			assert.deepStrictEqual(merged.map(c => c.message), ['feat: add c']);
+			assert.ok(commits[0].diff.includes('src/c.ts'));
+			assert.ok(![...commits, ...merged].some(c => c.diff.includes('yarn.lock')));
+		});
+
+		test('should apply path filters to branch comparisons', async () => {
+			execSync('git checkout -q -b feature', { cwd: repoPath });
+			commit({ 'src/c.ts': 'c\n', 'yarn.lock': 'v3\n' }, 'feat: add c', 'Carol');
+			commit({ 'docs/guide.md': 'guide\n' }, 'docs: add guide', 'Carol');
+
+			const commits = await gitService.getCommitsBetweenBranches(repoPath, 'main', 'feature', {
+				fromBranch: 'main',
+				toBranch: 'feature',
+				excludePaths: ['docs', '**/*.lock']
+			});
+			await gitService.loadDiffs(commits);
+
+			assert.deepStrictEqual(commits.map(c => c.message), ['feat: add c']);
+			assert.ok(commits[0].diff.includes('src/c.ts'));
+			assert.ok(!commits[0].diff.includes('yarn.lock'));
+		});
+
+		test('should read the remote URL and tolerate missing remotes', async () => {
+			assert.strictEqual(await gitService.getRemoteUrl(repoPath), undefined);
+
+			execSync('git remote add origin git@github.com:acme/app.git', { cwd: repoPath });
+
+			assert.strictEqual(await gitService.getRemoteUrl(repoPath), 'git@github.com:acme/app.git');
+		});
+
+		test('should commit only the release files and tag with verbatim notes', async () => {
+			execSync('git config user.name Alice && git config user.email alice@example.com', { cwd: repoPath });
+			fs.writeFileSync(path.join(repoPath, 'CHANGELOG.md'), '## [1.0.0] - 2024-02-01\n');
+			fs.writeFileSync(path.join(repoPath, 'src/a.ts'), 'unrelated edit\n');
+
+			const diff = await gitService.getWorkingTreeDiff(repoPath, ['CHANGELOG.md']);
+			const hash = await gitService.commitFiles(repoPath, ['CHANGELOG.md'], 'chore(release): v1.0.0');
+			await gitService.createAnnotatedTag(repoPath, 'v1.0.0', 'v1.0.0\n\n### Features\n\n- Add export');
+
+			assert.ok(diff.includes('+## [1.0.0] - 2024-02-01'));
+			assert.ok(!diff.includes('unrelated edit'));
+			assert.strictEqual(execSync('git show --name-only --format= HEAD', { cwd: repoPath }).toString().trim(), 'CHANGELOG.md');
+			assert.strictEqual(execSync('git status --porcelain', { cwd: repoPath }).toString().trim(), 'M src/a.ts');
+			assert.strictEqual(execSync('git rev-parse v1.0.0^{commit}', { cwd: repoPath }).toString().trim(), hash);
+			assert.strictEqual(
+				execSync('git tag -l --format="%(contents)" v1.0.0', { cwd: repoPath }).toString().trim(),
+				'v1.0.0\n\n### Features\n\n- Add export'
+			);
+			assert.strictEqual(await gitService.tagExists(repoPath, 'v1.0.0'), true);
+			assert.strictEqual(await gitService.tagExists(repoPath, 'v2.0.0'), false);
+		});
+
+		test('should preview new and changed files without touching the index', async () => {
+			fs.writeFileSync(path.join(repoPath, 'CHANGELOG.md'), '## [1.0.0] - 2024-02-01\n');
+			fs.writeFileSync(path.join(repoPath, 'src/a.ts'), 'a2\n');
+
+			const diff = await gitService.getWorkingTreeDiff(repoPath, ['CHANGELOG.md', 'src/a.ts']);
+
+			assert.ok(diff.includes('+## [1.0.0] - 2024-02-01'));
+			assert.ok(diff.includes('+a2'));
+			assert.strictEqual(execSync('git status --porcelain', { cwd: repoPath }).toString(), ' M src/a.ts\n?? CHANGELOG.md\n');
+		});
+
+		test('should preview a new file given by its absolute path', async () => {
+			fs.writeFileSync(path.join(repoPath, 'CHANGELOG.md'), '## [1.0.0] - 2024-02-01\n');
+
+			const diff = await gitService.getWorkingTreeDiff(repoPath, [path.join(repoPath, 'CHANGELOG.md')]);
+
+			assert.ok(diff.includes('new file mode'));
+			assert.ok(diff.includes('+## [1.0.0] - 2024-02-01'));
+		});
+
+		test('should reject tag names git would not accept', async () => {
+			await assert.rejects(gitService.createAnnotatedTag(repoPath, '--force', 'notes'), InvalidRefError);
+			await assert.rejects(gitService.createAnnotatedTag(repoPath, 'v1..0', 'notes'), InvalidRefError);
+		});
+	});
 });
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import {
+	filterDiffByPaths,
+	globToRegExp,
+	hasPathFilter,
+	matchesPathFilter,
+	toPathspecs
+} from '../../integrations/path-filter';
+
+suite('Path Filter Test Suite', () => {
+	suite('globToRegExp', () => {
+		test('should match a single directory level with *', () => {
+			const pattern = globToRegExp('packages/*');
+
+			assert.ok(pattern.test('packages/api'));
+			assert.ok(!pattern.test('packages/api/src'));
+			assert.ok(!pattern.test('apps/web'));
+		});
+
+		test('should match any depth with **', () => {
+			const pattern = globToRegExp('apps/**/web');
+
+			assert.ok(pattern.test('apps/web'));
+			assert.ok(pattern.test('apps/client/web'));
+			assert.ok(!pattern.test('apps/client/api'));
+		});
+
+		test('should match files in the root with a leading **/', () => {
+			assert.ok(globToRegExp('**/*.lock').test('yarn.lock'));
+			assert.ok(globToRegExp('**/*.lock').test('packages/api/Cargo.lock'));
+		});
+	});
+
+	suite('matchesPathFilter', () => {
+		const filter = { includePaths: ['src/**'], excludePaths: ['**/*.lock', 'src/generated/**'] };
+
+		test('should keep included paths', () => {
+			assert.ok(matchesPathFilter('src/core/changelog.ts', filter));
+			assert.ok(!matchesPathFilter('README.md', filter));
+		});
+
+		test('should let exclusions win', () => {
+			assert.ok(!matchesPathFilter('src/generated/api.ts', filter));
+			assert.ok(!matchesPathFilter('src/deps.lock', filter));
+		});
+
+		test('should match everything under a bare directory like git does', () => {
+			assert.ok(matchesPathFilter('src/core/changelog.ts', { includePaths: ['src'] }));
+			assert.ok(!matchesPathFilter('srcs/index.ts', { includePaths: ['src'] }));
+			assert.ok(!matchesPathFilter('docs/guide/setup.md', { excludePaths: ['docs'] }));
+			assert.ok(matchesPathFilter('README.md', { excludePaths: ['docs'] }));
+		});
+
+		test('should keep everything without includes', () => {
+			assert.ok(matchesPathFilter('README.md', { excludePaths: ['docs/**'] }));
+			assert.ok(matchesPathFilter('README.md', {}));
+		});
+	});
+
+	suite('toPathspecs', () => {
+		test('should build glob pathspecs for git log', () => {
+			assert.deepStrictEqual(toPathspecs({ includePaths: ['src/**'], excludePaths: ['**/*.lock'] }), [
+				':(glob)src/**',
+				':(glob,exclude)**/*.lock'
+			]);
+			assert.strictEqual(hasPathFilter({ includePaths: [], excludePaths: [] }), false);
+		});
+	});
+
+	suite('filterDiffByPaths', () => {
+		const diff = [
+			'commit abc123',
+			'Author: Alice',
+			'',
+			'diff --git a/src/index.ts b/src/index.ts',
+			'+export const x = 1;',
+			'diff --git a/yarn.lock b/yarn.lock',
+			'+lodash@4.17.21',
+			'diff --git a/src/util.ts b/src/util.ts',
+			'+export const y = 2;',
+			''
+		].join('\n');
+
+		test('should drop excluded files and keep the header', () => {
+			const filtered = filterDiffByPaths(diff, { excludePaths: ['**/*.lock'] });
+
+			assert.ok(filtered.startsWith('commit abc123\n'));
+			assert.ok(filtered.includes('+export const x = 1;\ndiff --git a/src/util.ts'));
+			assert.ok(!filtered.includes('yarn.lock'));
+		});
+
+		test('should apply bare directory includes and excludes to the files', () => {
+			const included = filterDiffByPaths(diff, { includePaths: ['src'] });
+			const excluded = filterDiffByPaths(diff, { excludePaths: ['src'] });
+
+			assert.ok(included.includes('src/index.ts') && included.includes('src/util.ts'));
+			assert.ok(!included.includes('yarn.lock'));
+			assert.ok(excluded.includes('yarn.lock'));
+			assert.ok(!excluded.includes('src/'));
+		});
+
+		test('should return the diff unchanged without a filter', () => {
+			assert.strictEqual(filterDiffByPaths(diff, {}), diff);
+		});
+	});
+});
@@ -0,0 +1,206 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AzureOpenAIProvider } from '../../../integrations/providers/azure-openai-provider';
+import { AIProviderConfig, CommitInfo } from '../../../integrations/providers/types';
+
+interface RecordedRequest {
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	body: any;
+}
+
+const createMockCommit = (overrides: Partial<CommitInfo> = {}): CommitInfo => ({
+	hash: 'abc123',
+	message: 'Add new feature',
+	author: 'Test Author',
+	date: '2024-08-02',
+	diff: '+function newFeature() { return true; }',
+	...overrides
+});
+
+suite('AzureOpenAIProvider Test Suite', () => {
+	let server: http.Server;
+	let endpoint: string;
+	let requests: RecordedRequest[];
+	let respond: (res: http.ServerResponse) => void;
+
+	suiteSetup(async () => {
+		server = http.createServer((req, res) => {
+			let data = '';
+			req.on('data', chunk => data += chunk);
+			req.on('end', () => {
+				requests.push({ url: req.url || '', headers: req.headers, body: data ? JSON.parse(data) : undefined });
+				respond(res);
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	suiteTeardown(async () => {
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	});
+
+	setup(() => {
+		requests = [];
+		respond = (res) => {
+			res.writeHead(200, { 'Content-Type': 'application/json' });
+			res.end(JSON.stringify({
+				choices: [{ message: { content: '{"type": "feat", "description": "Add feature toggle"}' } }],
+				usage: { total_tokens: 42 }
+			}));
+		};
+	});
+
+	const createConfig = (overrides: Partial<AIProviderConfig> = {}): AIProviderConfig => ({
+		apiKey: 'azure-test-key-1234567890',
+		endpoint,
+		deploymentName: 'my-gpt4o',
+		apiVersion: '2024-06-01',
+		// Keep the shared scheduler from slowing tests down with backoff or rate limiting
+		maxRetries: 0,
+		requestsPerMinute: 60000,
+		...overrides
+	});
+
+	suite('Configuration', () => {
+		test('should not be configured without endpoint', async () => {
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig({ endpoint: undefined }));
+
+			assert.strictEqual(provider.isConfigured(), false);
+		});
+
+		test('should be configured with endpoint, deployment and key', async () => {
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig());
+
+			assert.strictEqual(provider.isConfigured(), true);
+		});
+
+		test('should send requests to the deployment URL with the API version', async () => {
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig({ endpoint: `${endpoint}/` }));
+
+			await provider.testConnection();
+
+			assert.strictEqual(requests[0].url, '/openai/deployments/my-gpt4o/chat/completions?api-version=2024-06-01');
+		});
+
+		test('should default the API version', async () => {
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig({ apiVersion: undefined }));
+
+			await provider.testConnection();
+
+			assert.ok(requests[0].url.endsWith(`api-version=${AzureOpenAIProvider.DEFAULT_API_VERSION}`));
+		});
+
+		test('should report the deployed model rather than the deployment', async () => {
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig({ deploymentName: 'prod-chat', model: 'gpt-4o-mini' }));
+
+			assert.strictEqual(provider.getModel(), 'gpt-4o-mini');
+		});
+	});
+
+	suite('Requests', () => {
+		test('should send commits to the deployment with the api-key header', async () => {
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig());
+
+			const entries = await provider.processCommits([createMockCommit()], 'dev-friendly');
+
+			assert.strictEqual(entries.length, 1);
+			assert.strictEqual(entries[0].type, 'feat');
+			assert.strictEqual(entries[0].description, 'Add feature toggle');
+
+			assert.strictEqual(requests.length, 1);
+			assert.strictEqual(requests[0].url, '/openai/deployments/my-gpt4o/chat/completions?api-version=2024-06-01');
+			assert.strictEqual(requests[0].headers['api-key'], 'azure-test-key-1234567890');
+			assert.strictEqual(requests[0].body.messages[0].role, 'system');
+		});
+
+		test('should track usage statistics', async () => {
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig());
+
+			await provider.processCommits([createMockCommit()], 'dev-friendly');
+			const stats = await provider.getUsageStats();
+
+			assert.strictEqual(stats.tokensUsed, 42);
+			assert.strictEqual(stats.requestsCount, 1);
+		});
+
+		test('should fall back to basic processing on API errors', async () => {
+			respond = (res) => {
+				res.writeHead(500);
+				res.end('Internal server error');
+			};
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig());
+
+			const entries = await provider.processCommits([createMockCommit({ message: 'fix: handle null user' })], 'dev-friendly');
+
+			assert.strictEqual(entries.length, 1);
+			assert.strictEqual(entries[0].type, 'fix');
+		});
+
+		test('should retry after a rate-limit response', async () => {
+			let attempts = 0;
+			respond = (res) => {
+				attempts++;
+				if (attempts === 1) {
+					res.writeHead(429, { 'Retry-After': '0' });
+					res.end('Too many requests');
+					return;
+				}
+				res.writeHead(200, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({
+					choices: [{ message: { content: '{"type": "feat", "description": "Add feature toggle"}' } }]
+				}));
+			};
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig({ maxRetries: 1 }));
+
+			const entries = await provider.processCommits([createMockCommit()], 'dev-friendly');
+
+			assert.strictEqual(requests.length, 2);
+			assert.strictEqual(entries[0].description, 'Add feature toggle');
+		});
+	});
+
+	suite('Connection Test', () => {
+		test('should succeed against a healthy deployment', async () => {
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig());
+
+			await provider.testConnection();
+
+			assert.strictEqual(requests.length, 1);
+		});
+
+		test('should surface sanitized errors for rejected keys', async () => {
+			respond = (res) => {
+				res.writeHead(401);
+				res.end('Access denied due to invalid api-key: 0123456789abcdef0123456789abcdef');
+			};
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig());
+
+			await assert.rejects(provider.testConnection(), (error: Error) => {
+				assert.ok(error.message.includes('401'));
+				assert.ok(!error.message.includes('0123456789abcdef0123456789abcdef'));
+				return true;
+			});
+		});
+
+		test('should reject when not configured', async () => {
+			const provider = new AzureOpenAIProvider();
+			await provider.initialize(createConfig({ deploymentName: undefined }));
+
+			await assert.rejects(provider.testConnection(), /deployment name/);
+		});
+	});
+});
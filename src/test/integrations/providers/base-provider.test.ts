@@ -53,6 +53,25 @@ class TestProvider extends BaseAIProvider {
 	}
 }
 
+// Test implementation that answers batched prompts with a canned reply
+class BatchTestProvider extends TestProvider {
+	public batchReply: string | null = null;
+	public completionRequests: string[] = [];
+
+	protected async requestCompletion(systemPrompt: string, prompt: string, maxTokens: number): Promise<string | null> {
+		this.completionRequests.push(prompt);
+		return this.batchReply;
+	}
+
+	public testPackCommitBatches(commits: CommitInfo[]): CommitInfo[][] {
+		return (this as any).packCommitBatches(commits);
+	}
+
+	public testRecordUsage(usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number }): void {
+		(this as any).recordUsage(usage);
+	}
+}
+
 const createMockCommit = (overrides: Partial<CommitInfo> = {}): CommitInfo => ({
 	hash: 'abc123',
 	message: 'Add new feature',
@@ -102,6 +121,22 @@ suite('BaseAIProvider Test Suite', () => {
 			assert.ok(prompt.includes('enterprise documentation'));
 		});
 
+		test('should use the prompt fragment of a custom style', async () => {
+			await provider.initialize({
+				apiKey: 'test-key',
+				customStyles: [{
+					name: 'terse-internal',
+					description: 'Short notes for the team',
+					example: 'Cache AI replies.',
+					promptFragment: 'Use at most eight words per entry.'
+				}]
+			});
+
+			const prompt = provider.testGetSystemPrompt('terse-internal');
+			assert.ok(prompt.includes('changelog generator'));
+			assert.ok(prompt.endsWith('Use at most eight words per entry.'));
+		});
+
 		test('should generate base prompt for unknown style', () => {
 			const prompt = provider.testGetSystemPrompt('unknown');
 			assert.ok(prompt.includes('changelog generator'));
@@ -109,6 +144,45 @@ suite('BaseAIProvider Test Suite', () => {
 		});
 	});
 
+	suite('Prompt Templates', () => {
+		const commit: CommitInfo = {
+			hash: 'abc123',
+			message: 'feat: add export',
+			author: 'Alice',
+			date: '2024-01-01',
+			diff: '+export'
+		};
+
+		test('should render the custom template instead of the built-in prompt', async () => {
+			await provider.initialize({
+				apiKey: 'test-key',
+				promptTemplate: {
+					name: 'custom',
+					system: 'Write for {{style}} readers.',
+					body: 'Summarize {{message}} by {{author}} as JSON.'
+				}
+			});
+
+			assert.strictEqual(provider.testGetSystemPrompt('formal'), 'Write for formal readers.');
+			assert.strictEqual(provider.testBuildCommitPrompt(commit, 'formal'), 'Summarize feat: add export by Alice as JSON.');
+		});
+
+		test('should keep the built-in system prompt when the template has none', async () => {
+			await provider.initialize({ apiKey: 'test-key', promptTemplate: { name: 'custom', body: '{{message}} JSON' } });
+
+			assert.ok(provider.testGetSystemPrompt('formal').includes('changelog generator'));
+		});
+
+		test('should change the prompt fingerprint with the template', async () => {
+			await provider.initialize({ apiKey: 'test-key' });
+			const builtIn = provider.getPromptFingerprint('formal');
+
+			await provider.initialize({ apiKey: 'test-key', promptTemplate: { name: 'custom', body: '{{message}} JSON' } });
+
+			assert.notStrictEqual(provider.getPromptFingerprint('formal'), builtIn);
+		});
+	});
+
 	suite('Fallback Processing', () => {
 		test('should categorize feat commits correctly', () => {
 			const commit = createMockCommit({ message: 'feat: add new login system' });
@@ -133,6 +207,70 @@ suite('BaseAIProvider Test Suite', () => {
 		});
 	});
 
+	suite('Commit Body', () => {
+		test('should include the body in the prompt', () => {
+			const prompt = provider.testBuildCommitPrompt(createMockCommit({ body: 'Exports use the user locale.\n\nRefs: #42' }), 'dev-friendly');
+
+			assert.ok(prompt.includes('Commit body:\nExports use the user locale.\n\nRefs: #42'));
+		});
+
+		test('should leave the body out when there is none', () => {
+			assert.ok(!provider.testBuildCommitPrompt(createMockCommit(), 'dev-friendly').includes('Commit body:'));
+		});
+
+		test('should truncate long bodies', () => {
+			const prompt = provider.testBuildCommitPrompt(createMockCommit({ body: 'x'.repeat(600) }), 'dev-friendly');
+
+			assert.ok(prompt.includes(`${'x'.repeat(500)}\n... (truncated)`));
+			assert.ok(!prompt.includes('x'.repeat(501)));
+		});
+	});
+
+	suite('Breaking Changes', () => {
+		test('should ask the AI to flag breaking changes', () => {
+			const prompt = provider.testBuildCommitPrompt(createMockCommit(), 'dev-friendly');
+
+			assert.ok(prompt.includes('"breaking"'));
+			assert.ok(prompt.includes('"migrationNote"'));
+		});
+
+		test('should keep the breaking flag and migration note from the AI', () => {
+			const entry = provider.testParseAIResponse(
+				JSON.stringify({ type: 'refactor', description: 'Rename config keys', breaking: true, migrationNote: 'Rename `output` to `outputFileName`.' }),
+				createMockCommit({ message: 'refactor: rename config keys' })
+			);
+
+			assert.strictEqual(entry.breaking, true);
+			assert.strictEqual(entry.migrationNote, 'Rename `output` to `outputFileName`.');
+		});
+
+		test('should flag conventional breaking commits even when the AI does not', () => {
+			const entry = provider.testParseAIResponse(
+				JSON.stringify({ type: 'feat', description: 'New config format', breaking: false, migrationNote: 'ignored' }),
+				createMockCommit({ message: 'feat(config)!: new config format\n\nBREAKING CHANGE: run the migrate script' })
+			);
+
+			assert.strictEqual(entry.breaking, true);
+			assert.strictEqual(entry.migrationNote, 'run the migrate script');
+		});
+
+		test('should not flag ordinary changes', () => {
+			const entry = provider.testParseAIResponse(
+				JSON.stringify({ type: 'fix', description: 'Fix crash', migrationNote: 'n/a' }),
+				createMockCommit({ message: 'fix: crash' })
+			);
+
+			assert.strictEqual(entry.breaking, undefined);
+			assert.strictEqual(entry.migrationNote, undefined);
+		});
+
+		test('should detect the marker in fallback processing', () => {
+			const entry = provider.testFallbackProcessCommit(createMockCommit({ message: 'feat!: drop node 16' }));
+
+			assert.strictEqual(entry.breaking, true);
+		});
+	});
+
 	suite('Batch Processing', () => {
 		test('should throw error if not configured', async () => {
 			const commits = [createMockCommit()];
@@ -155,4 +293,151 @@ suite('BaseAIProvider Test Suite', () => {
 			assert.strictEqual(entries.length, 0);
 		});
 	});
+
+	suite('Batched Prompts', () => {
+		const commits = [
+			createMockCommit({ hash: 'aaaaaaaaaaaaaaaa', message: 'feat: add search' }),
+			createMockCommit({ hash: 'bbbbbbbbbbbbbbbb', message: 'fix: handle empty query' }),
+			createMockCommit({ hash: 'cccccccccccccccc', message: 'docs: document search' })
+		];
+
+		let batchProvider: BatchTestProvider;
+
+		setup(async () => {
+			batchProvider = new BatchTestProvider();
+			await batchProvider.initialize({ apiKey: 'test-key' });
+		});
+
+		test('should send several commits in one request', async () => {
+			batchProvider.batchReply = JSON.stringify([
+				{ hash: 'aaaaaaaaaaaa', type: 'feat', description: 'Add search' },
+				{ hash: 'bbbbbbbbbbbb', type: 'fix', description: 'Handle empty search queries' },
+				{ hash: 'cccccccccccc', type: 'docs', description: 'Document search' }
+			]);
+
+			const entries = await batchProvider.processCommits(commits, 'dev-friendly');
+
+			assert.strictEqual(batchProvider.completionRequests.length, 1);
+			assert.strictEqual(batchProvider.getProcessCommitCalls().length, 0);
+			assert.deepStrictEqual(entries.map(e => e.type), ['feat', 'fix', 'docs']);
+			assert.strictEqual(entries[1].commit.hash, 'bbbbbbbbbbbbbbbb');
+		});
+
+		test('should fall back per commit for missing or malformed items', async () => {
+			batchProvider.batchReply = 'Here you go:\n```json\n' + JSON.stringify([
+				{ hash: 'aaaaaaaaaaaa', type: 'feat', description: 'Add search' },
+				{ hash: 'bbbbbbbbbbbb', type: 'unknown', description: 'Bad type' }
+			]) + '\n```';
+
+			const entries = await batchProvider.processCommits(commits, 'dev-friendly');
+
+			assert.strictEqual(entries.length, 3);
+			assert.strictEqual(entries[0].description, 'Add search');
+			assert.deepStrictEqual(
+				batchProvider.getProcessCommitCalls().map(call => call.commit.hash),
+				['bbbbbbbbbbbbbbbb', 'cccccccccccccccc']
+			);
+		});
+
+		test('should keep commit order when requests finish out of order', async () => {
+			batchProvider.batchReply = 'not json';
+			const original = (batchProvider as any).processCommit.bind(batchProvider);
+			(batchProvider as any).processCommit = async (commit: CommitInfo, style: string) => {
+				// The first commit answers last
+				await new Promise(resolve => setTimeout(resolve, commit.hash.startsWith('a') ? 20 : 1));
+				return original(commit, style);
+			};
+
+			const entries = await batchProvider.processCommits(commits, 'dev-friendly');
+
+			assert.deepStrictEqual(entries.map(e => e.commit.hash), commits.map(c => c.hash));
+		});
+
+		test('should process individually when the reply is not JSON', async () => {
+			batchProvider.batchReply = 'Sorry, I cannot help with that.';
+
+			const entries = await batchProvider.processCommits(commits, 'dev-friendly');
+
+			assert.strictEqual(entries.length, 3);
+			assert.strictEqual(batchProvider.getProcessCommitCalls().length, 3);
+		});
+
+		test('should not batch when disabled', async () => {
+			await batchProvider.initialize({ apiKey: 'test-key', batchPrompts: false });
+
+			await batchProvider.processCommits(commits, 'dev-friendly');
+
+			assert.strictEqual(batchProvider.completionRequests.length, 0);
+			assert.strictEqual(batchProvider.getProcessCommitCalls().length, 3);
+		});
+
+		test('should not batch with a custom prompt template', async () => {
+			await batchProvider.initialize({ apiKey: 'test-key', promptTemplate: { name: 'custom', body: '{{message}} JSON' } });
+
+			await batchProvider.processCommits(commits, 'dev-friendly');
+
+			assert.strictEqual(batchProvider.completionRequests.length, 0);
+			assert.strictEqual(batchProvider.getProcessCommitCalls().length, 3);
+		});
+
+		test('should pack commits within the token budget', async () => {
+			await batchProvider.initialize({ apiKey: 'test-key', batchTokenBudget: 500 });
+			const largeCommits = [1, 2, 3, 4].map(i => createMockCommit({
+				hash: `${i}`.repeat(16),
+				diff: '+'.repeat(900)
+			}));
+
+			const batches = batchProvider.testPackCommitBatches(largeCommits);
+
+			assert.deepStrictEqual(batches.map(batch => batch.length), [1, 1, 1, 1]);
+		});
+
+		test('should keep small commits together', () => {
+			const batches = batchProvider.testPackCommitBatches(commits);
+
+			assert.deepStrictEqual(batches.map(batch => batch.length), [3]);
+		});
+	});
+
+	suite('Usage', () => {
+		let usageProvider: BatchTestProvider;
+		const commits = ['a', 'b', 'c'].map(c => createMockCommit({ hash: c.repeat(12) }));
+
+		setup(() => {
+			usageProvider = new BatchTestProvider();
+		});
+
+		test('should estimate one batched request for small commits', async () => {
+			await usageProvider.initialize({ apiKey: 'test-key', maxTokens: 100 });
+
+			const estimate = usageProvider.estimateUsage(commits, 'dev-friendly');
+
+			assert.strictEqual(estimate.requests, 1);
+			assert.strictEqual(estimate.outputTokens, 300);
+			assert.ok(estimate.inputTokens > 0);
+		});
+
+		test('should estimate one request per commit without batching', async () => {
+			await usageProvider.initialize({ apiKey: 'test-key', maxTokens: 100, batchPrompts: false });
+
+			const estimate = usageProvider.estimateUsage(commits, 'dev-friendly');
+			const singleCommit = usageProvider.estimateUsage([commits[0]], 'dev-friendly');
+
+			assert.strictEqual(estimate.requests, 3);
+			assert.strictEqual(estimate.outputTokens, 300);
+			assert.strictEqual(estimate.inputTokens, singleCommit.inputTokens * 3);
+		});
+
+		test('should add up reported usage', async () => {
+			usageProvider.testRecordUsage({ inputTokens: 10, outputTokens: 5 });
+			usageProvider.testRecordUsage({ totalTokens: 42 });
+
+			const stats = await usageProvider.getUsageStats();
+
+			assert.strictEqual(stats.tokensUsed, 57);
+			assert.strictEqual(stats.inputTokens, 10);
+			assert.strictEqual(stats.outputTokens, 5);
+			assert.strictEqual(stats.requestsCount, 2);
+		});
+	});
 });
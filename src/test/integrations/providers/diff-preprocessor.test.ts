@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import {
+	DEFAULT_DIFF_TOKEN_BUDGET,
+	getDiffTokenBudget,
+	getSkipReason,
+	parseDiff,
+	scoreHunk,
+	summarizeDiff
+} from '../../../integrations/providers/diff-preprocessor';
+
+const fileDiff = (path: string, ...hunks: string[]) => [
+	`diff --git a/${path} b/${path}`,
+	'index 1111111..2222222 100644',
+	`--- a/${path}`,
+	`+++ b/${path}`,
+	...hunks
+].join('\n');
+
+const apiDiff = fileDiff(
+	'src/api.ts',
+	'@@ -1,2 +1,2 @@',
+	' import { db } from "./db";',
+	'-export function getUser(id: string) {',
+	'+export function getUser(id: string, options: Options) {',
+	'@@ -40,2 +40,3 @@',
+	' \treturn result;',
+	'+\t// cache the result',
+	'+\tcache.set(id, result);'
+);
+
+suite('Diff Preprocessor Test Suite', () => {
+	suite('parseDiff', () => {
+		test('should split files and hunks and count changed lines', () => {
+			const files = parseDiff(`${apiDiff}\n${fileDiff('README.md', '@@ -1 +1 @@', '-Old', '+New')}\n`);
+
+			assert.deepStrictEqual(files.map(file => file.path), ['src/api.ts', 'README.md']);
+			assert.strictEqual(files[0].hunks.length, 2);
+			assert.strictEqual(files[0].additions, 3);
+			assert.strictEqual(files[0].deletions, 1);
+			assert.strictEqual(files[0].hunks[0].header, '@@ -1,2 +1,2 @@');
+		});
+
+		test('should detect binary files', () => {
+			const files = parseDiff('diff --git a/logo.png b/logo.png\nindex 1..2 100644\nBinary files a/logo.png and b/logo.png differ');
+
+			assert.strictEqual(files[0].binary, true);
+			assert.strictEqual(files[0].hunks.length, 0);
+		});
+	});
+
+	suite('getSkipReason', () => {
+		const file = (path: string, binary = false) => ({ path, binary, additions: 1, deletions: 0, hunks: [] });
+
+		test('should skip binary, lockfile and generated files', () => {
+			assert.strictEqual(getSkipReason(file('assets/logo.png', true)), 'binary');
+			assert.strictEqual(getSkipReason(file('package-lock.json')), 'lockfile');
+			assert.strictEqual(getSkipReason(file('packages/api/yarn.lock')), 'lockfile');
+			assert.strictEqual(getSkipReason(file('dist/extension.js')), 'generated');
+			assert.strictEqual(getSkipReason(file('web/app.min.js')), 'generated');
+			assert.strictEqual(getSkipReason(file('src/__snapshots__/view.test.ts.snap')), 'generated');
+		});
+
+		test('should keep source files', () => {
+			assert.strictEqual(getSkipReason(file('src/build.ts')), undefined);
+			assert.strictEqual(getSkipReason(file('src/distance.ts')), undefined);
+		});
+	});
+
+	suite('scoreHunk', () => {
+		test('should rank exported symbol changes above body changes', () => {
+			const [file] = parseDiff(apiDiff);
+
+			assert.ok(scoreHunk(file, file.hunks[0]) > scoreHunk(file, file.hunks[1]));
+		});
+
+		test('should rank tests below the same change in source', () => {
+			const [source] = parseDiff(fileDiff('src/a.ts', '@@ -1 +1 @@', '+const a = 1;'));
+			const [spec] = parseDiff(fileDiff('src/a.test.ts', '@@ -1 +1 @@', '+const a = 1;'));
+
+			assert.ok(scoreHunk(spec, spec.hunks[0]) < scoreHunk(source, source.hunks[0]));
+		});
+	});
+
+	suite('getDiffTokenBudget', () => {
+		test('should scale with the context window up to a cap', () => {
+			assert.strictEqual(getDiffTokenBudget('gpt-4'), 512);
+			assert.strictEqual(getDiffTokenBudget('gpt-3.5-turbo'), 1024);
+			assert.strictEqual(getDiffTokenBudget('claude-3-5-sonnet-20241022'), 1500);
+		});
+
+		test('should fall back for unknown models', () => {
+			assert.strictEqual(getDiffTokenBudget('my-fine-tune'), DEFAULT_DIFF_TOKEN_BUDGET);
+			assert.strictEqual(getDiffTokenBudget(undefined), DEFAULT_DIFF_TOKEN_BUDGET);
+		});
+	});
+
+	suite('summarizeDiff', () => {
+		const lockfile = fileDiff('package-lock.json', '@@ -1,3 +1,3 @@', ...Array.from({ length: 200 }, (_, i) => `+    "dep-${i}": "1.0.${i}",`));
+
+		test('should lead with a stat summary and leave out lockfiles', () => {
+			const summary = summarizeDiff(`${lockfile}\n${apiDiff}`, 500);
+
+			assert.ok(summary.startsWith('2 files changed, +203 -1\n package-lock.json | skipped (lockfile)\n src/api.ts | +3 -1\n'));
+			assert.ok(summary.includes('+export function getUser(id: string, options: Options) {'));
+			assert.ok(summary.includes('+\tcache.set(id, result);'));
+			assert.ok(!summary.includes('dep-0'));
+			assert.ok(!summary.includes('index 1111111'));
+		});
+
+		test('should keep the most significant hunks within the budget', () => {
+			const docs = fileDiff('docs/guide.md', '@@ -1,30 +1,30 @@', ...Array.from({ length: 30 }, (_, i) => `+Paragraph ${i} of the guide.`));
+			const summary = summarizeDiff(`${docs}\n${apiDiff}`, 120);
+
+			assert.ok(summary.length <= 120 * 4 + 50);
+			assert.ok(summary.includes('+export function getUser'));
+			assert.ok(!summary.includes('Paragraph 0'));
+			assert.ok(summary.endsWith('hunks omitted)'));
+		});
+
+		test('should keep hunks in file order', () => {
+			const summary = summarizeDiff(apiDiff, 500);
+
+			assert.ok(summary.indexOf('@@ -1,2 +1,2 @@') < summary.indexOf('@@ -40,2 +40,3 @@'));
+		});
+
+		test('should cut the top hunk rather than send the summary alone', () => {
+			const summary = summarizeDiff(fileDiff('src/big.ts', '@@ -1,100 +1,100 @@', ...Array.from({ length: 100 }, (_, i) => `+export const value${i} = ${i};`)), 100);
+
+			assert.ok(summary.includes('+export const value0 = 0;'));
+			assert.ok(summary.includes('... (truncated)'));
+		});
+
+		test('should truncate text that is not a git diff', () => {
+			assert.strictEqual(summarizeDiff('+'.repeat(10), 100), '+'.repeat(10));
+			assert.strictEqual(summarizeDiff('x'.repeat(50), 10), `${'x'.repeat(40)}\n... (truncated)`);
+		});
+	});
+});
@@ -4,6 +4,8 @@ import { OpenAIProvider } from '../../../integrations/providers/openai-provider'
 import { AnthropicProvider } from '../../../integrations/providers/anthropic-provider';
 import { GoogleProvider } from '../../../integrations/providers/google-provider';
 import { OfflineProvider } from '../../../integrations/providers/offline-provider';
+import { AzureOpenAIProvider } from '../../../integrations/providers/azure-openai-provider';
+import { LocalProvider } from '../../../integrations/providers/local-provider';
 
 suite('ProviderFactory Test Suite', () => {
 	let factory: ProviderFactory;
@@ -37,10 +39,16 @@ suite('ProviderFactory Test Suite', () => {
 			assert.strictEqual(provider.name, 'Offline');
 		});
 
-		test('should throw error for Azure provider (not implemented)', () => {
-			assert.throws(() => {
-				factory.createProvider('azure');
-			}, /Azure OpenAI provider not yet implemented/);
+		test('should create Azure OpenAI provider', () => {
+			const provider = factory.createProvider('azure');
+			assert.ok(provider instanceof AzureOpenAIProvider);
+			assert.strictEqual(provider.name, 'Azure OpenAI');
+		});
+
+		test('should create Local LLM provider', () => {
+			const provider = factory.createProvider('local');
+			assert.ok(provider instanceof LocalProvider);
+			assert.strictEqual(provider.name, 'Local LLM');
 		});
 
 		test('should throw error for unknown provider type', () => {
@@ -54,13 +62,7 @@ suite('ProviderFactory Test Suite', () => {
 		test('should return list of supported providers', () => {
 			const supportedProviders = factory.getSupportedProviders();
 			
-			assert.deepStrictEqual(supportedProviders, ['openai', 'anthropic', 'google', 'offline']);
-		});
-
-		test('should not include Azure in supported providers (not implemented)', () => {
-			const supportedProviders = factory.getSupportedProviders();
-			
-			assert.ok(!supportedProviders.includes('azure' as any));
+			assert.deepStrictEqual(supportedProviders, ['openai', 'anthropic', 'google', 'azure', 'local', 'offline']);
 		});
 	});
 
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LocalProvider } from '../../../integrations/providers/local-provider';
+import { CommitInfo, ChangelogEntry } from '../../../integrations/providers/types';
+
+interface RecordedRequest {
+	method: string;
+	url: string;
+	body: any;
+}
+
+const createMockCommit = (overrides: Partial<CommitInfo> = {}): CommitInfo => ({
+	hash: 'abc123',
+	message: 'Add new feature',
+	author: 'Test Author',
+	date: '2024-08-02',
+	diff: '+function newFeature() { return true; }',
+	...overrides
+});
+
+suite('LocalProvider Test Suite', () => {
+	let server: http.Server;
+	let baseUrl: string;
+	let requests: RecordedRequest[];
+	let completion: string;
+
+	suiteSetup(async () => {
+		server = http.createServer((req, res) => {
+			let data = '';
+			req.on('data', chunk => data += chunk);
+			req.on('end', () => {
+				requests.push({ method: req.method || '', url: req.url || '', body: data ? JSON.parse(data) : undefined });
+				res.writeHead(200, { 'Content-Type': 'application/json' });
+				if (req.url === '/v1/models') {
+					res.end(JSON.stringify({ object: 'list', data: [{ id: 'llama3.1', object: 'model' }] }));
+					return;
+				}
+				res.end(JSON.stringify({
+					id: 'chatcmpl-local',
+					object: 'chat.completion',
+					choices: [{ index: 0, message: { role: 'assistant', content: completion }, finish_reason: 'stop' }],
+					usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+				}));
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	suiteTeardown(async () => {
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	});
+
+	setup(() => {
+		requests = [];
+		completion = '{"type": "fix", "description": "Fix crash when config is missing"}';
+	});
+
+	suite('Configuration', () => {
+		test('should be configured without an API key', async () => {
+			const provider = new LocalProvider();
+			await provider.initialize({ apiKey: '', endpoint: baseUrl });
+
+			assert.strictEqual(provider.isConfigured(), true);
+		});
+
+		test('should normalize endpoints to the /v1 API path', () => {
+			assert.strictEqual(LocalProvider.normalizeEndpoint('http://localhost:11434'), 'http://localhost:11434/v1');
+			assert.strictEqual(LocalProvider.normalizeEndpoint('http://localhost:11434/v1/'), 'http://localhost:11434/v1');
+		});
+
+		test('should offer its default model', () => {
+			const provider = new LocalProvider();
+			assert.ok(provider.availableModels.includes(provider.defaultModel));
+		});
+	});
+
+	suite('Requests', () => {
+		test('should process commits through the local chat completions endpoint', async () => {
+			const provider = new LocalProvider();
+			await provider.initialize({ apiKey: '', endpoint: baseUrl, model: 'qwen2.5-coder' });
+
+			const entries = await provider.processCommits([createMockCommit()], 'dev-friendly');
+
+			assert.strictEqual(entries.length, 1);
+			assert.strictEqual(entries[0].type, 'fix');
+			assert.strictEqual(entries[0].description, 'Fix crash when config is missing');
+			assert.strictEqual(requests[0].url, '/v1/chat/completions');
+			assert.strictEqual(requests[0].body.model, 'qwen2.5-coder');
+		});
+
+		test('should generate summaries with the local model', async () => {
+			completion = 'This release fixes a startup crash.';
+			const provider = new LocalProvider();
+			await provider.initialize({ apiKey: '', endpoint: baseUrl });
+
+			const entries: ChangelogEntry[] = [{ type: 'fix', description: 'Fix startup crash', commit: createMockCommit() }];
+			const summary = await provider.generateSummary(entries);
+
+			assert.strictEqual(summary, 'This release fixes a startup crash.');
+			assert.strictEqual(requests[0].body.model, provider.defaultModel);
+		});
+
+		test('should report usage statistics', async () => {
+			const provider = new LocalProvider();
+			await provider.initialize({ apiKey: '', endpoint: baseUrl });
+
+			await provider.processCommits([createMockCommit()], 'dev-friendly');
+			const stats = await provider.getUsageStats();
+
+			assert.strictEqual(stats.tokensUsed, 15);
+			assert.strictEqual(stats.requestsCount, 1);
+		});
+	});
+
+	suite('Connection Test', () => {
+		test('should list models to verify the server', async () => {
+			const provider = new LocalProvider();
+			await provider.initialize({ apiKey: '', endpoint: baseUrl });
+
+			await provider.testConnection();
+
+			assert.strictEqual(requests[0].method, 'GET');
+			assert.strictEqual(requests[0].url, '/v1/models');
+		});
+	});
+});
@@ -145,5 +145,28 @@ suite('OpenAIProvider Test Suite', () => {
 
 			assert.strictEqual(provider.isConfigured(), true);
 		});
+
+		test('should send a configured temperature of 0 and default to 0.3 otherwise', async () => {
+			const temperatures: unknown[] = [];
+			const sendCommit = async (config: AIProviderConfig) => {
+				await provider.initialize(config);
+				(provider as any).openai = {
+					chat: {
+						completions: {
+							create: async (body: { temperature?: number }) => {
+								temperatures.push(body.temperature);
+								return { choices: [{ message: { content: '{"type": "feat", "description": "Add new feature."}' } }] };
+							}
+						}
+					}
+				};
+				await provider.processCommits([createMockCommit()], 'dev-friendly');
+			};
+
+			await sendCommit({ apiKey: 'test-key', temperature: 0 });
+			await sendCommit({ apiKey: 'test-key' });
+
+			assert.deepStrictEqual(temperatures, [0, 0.3]);
+		});
 	});
 });
@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	PromptTemplateError,
+	PROMPT_TEMPLATE_DIR,
+	getChangedFiles,
+	loadPromptTemplates,
+	parsePromptTemplate,
+	renderPromptTemplate
+} from '../../../integrations/providers/prompt-template';
+import { CommitInfo } from '../../../integrations/providers/types';
+
+const commit: CommitInfo = {
+	hash: 'abc123def456',
+	message: 'feat: add CSV export',
+	author: 'Alice',
+	date: '2024-05-01',
+	diff: 'diff --git a/src/export.ts b/src/export.ts\n+export function toCsv() {}\ndiff --git a/README.md b/README.md\n+CSV docs'
+};
+
+const validBody = 'Describe {{message}} by {{author}} touching {{files}}. Respond with JSON.';
+
+suite('Prompt Template Test Suite', () => {
+	suite('parsePromptTemplate', () => {
+		test('should parse front matter and body', () => {
+			const template = parsePromptTemplate('customer', `---
+description: Customer-facing notes
+system: Write for {{style}} readers.
+---
+${validBody}`);
+
+			assert.strictEqual(template.name, 'customer');
+			assert.strictEqual(template.description, 'Customer-facing notes');
+			assert.strictEqual(template.system, 'Write for {{style}} readers.');
+			assert.strictEqual(template.body, validBody);
+		});
+
+		test('should accept templates without front matter', () => {
+			const template = parsePromptTemplate('plain', validBody);
+
+			assert.strictEqual(template.body, validBody);
+			assert.strictEqual(template.system, undefined);
+		});
+
+		test('should reject unknown placeholders', () => {
+			assert.throws(
+				() => parsePromptTemplate('typo', 'Describe {{mesage}} as JSON'),
+				(error: Error) => error instanceof PromptTemplateError && error.message.includes('{{mesage}}')
+			);
+		});
+
+		test('should require the commit message or diff', () => {
+			assert.throws(() => parsePromptTemplate('empty', 'Write something nice as JSON by {{author}}'), /\{\{message\}\} or \{\{diff\}\}/);
+		});
+
+		test('should require a JSON reply', () => {
+			assert.throws(() => parsePromptTemplate('prose', 'Describe {{message}} in prose'), /JSON/);
+		});
+
+		test('should reject unknown front matter keys', () => {
+			assert.throws(() => parsePromptTemplate('bad', `---\nmodel: gpt-4\n---\n${validBody}`), /unknown front matter/);
+		});
+
+		test('should only allow {{style}} in the system prompt', () => {
+			assert.throws(() => parsePromptTemplate('bad', `---\nsystem: About {{diff}}\n---\n${validBody}`), /system prompt/);
+		});
+	});
+
+	suite('renderPromptTemplate', () => {
+		test('should fill in every placeholder', () => {
+			const rendered = renderPromptTemplate('{{hash}} {{message}} {{author}} {{date}} {{style}} [{{files}}]', commit, 'formal');
+
+			assert.strictEqual(rendered, 'abc123def456 feat: add CSV export Alice 2024-05-01 formal [src/export.ts, README.md]');
+		});
+
+		test('should fill in the body and scope', () => {
+			const rendered = renderPromptTemplate('{{scope}}: {{body}}', { ...commit, message: 'feat(export): add CSV export', body: 'Uses commas.\n' }, 'formal');
+
+			assert.strictEqual(rendered, 'export: Uses commas.');
+		});
+
+		test('should truncate long diffs to the token budget', () => {
+			const rendered = renderPromptTemplate('{{diff}}', { ...commit, diff: 'x'.repeat(50) }, 'formal', 10);
+
+			assert.strictEqual(rendered, `${'x'.repeat(40)}\n... (truncated)`);
+		});
+
+		test('should lead the diff with a stat summary', () => {
+			const rendered = renderPromptTemplate('{{diff}}', commit, 'formal');
+
+			assert.ok(rendered.startsWith('2 files changed, +2 -0\n src/export.ts | +1 -0\n README.md | +1 -0'));
+		});
+	});
+
+	suite('getChangedFiles', () => {
+		test('should read file names from plain patches', () => {
+			assert.deepStrictEqual(getChangedFiles('--- a/a.ts\n+++ b/a.ts\n+x'), ['a.ts']);
+			assert.deepStrictEqual(getChangedFiles('+x'), []);
+		});
+	});
+
+	suite('loadPromptTemplates', () => {
+		let repoPath: string;
+
+		setup(() => {
+			repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'shipnote-ai-prompts-'));
+		});
+
+		teardown(() => {
+			fs.rmSync(repoPath, { recursive: true, force: true });
+		});
+
+		test('should return nothing when the folder is missing', async () => {
+			const result = await loadPromptTemplates(repoPath);
+
+			assert.deepStrictEqual(result, { templates: [], errors: [] });
+		});
+
+		test('should load valid templates and report invalid ones', async () => {
+			const directory = path.join(repoPath, PROMPT_TEMPLATE_DIR);
+			fs.mkdirSync(directory, { recursive: true });
+			fs.writeFileSync(path.join(directory, 'release.md'), validBody);
+			fs.writeFileSync(path.join(directory, 'broken.txt'), 'Describe {{unknown}}');
+			fs.writeFileSync(path.join(directory, 'notes.json'), '{}');
+
+			const { templates, errors } = await loadPromptTemplates(repoPath);
+
+			assert.deepStrictEqual(templates.map(t => t.name), ['release']);
+			assert.strictEqual(templates[0].source, path.join(directory, 'release.md'));
+			assert.deepStrictEqual(errors.map(e => e.templateName), ['broken']);
+		});
+	});
+});
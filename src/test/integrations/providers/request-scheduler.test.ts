@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import {
+	RequestScheduler,
+	ProviderRequestError,
+	getRetryAfterMs,
+	isRetryableError
+} from '../../../integrations/providers/request-scheduler';
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const createHeaders = (values: Record<string, string>) => ({
+	get: (name: string) => values[name.toLowerCase()] ?? null
+});
+
+suite('RequestScheduler Test Suite', () => {
+	// Fast settings so tests do not wait on real backoff delays
+	const fastOptions = {
+		concurrency: 2,
+		requestsPerMinute: 60000,
+		maxRetries: 3,
+		baseDelayMs: 1,
+		maxDelayMs: 20
+	};
+
+	suite('Concurrency', () => {
+		test('should never run more requests than the concurrency limit', async () => {
+			const scheduler = new RequestScheduler(fastOptions);
+			let inFlight = 0;
+			let maxInFlight = 0;
+
+			const results = await Promise.all([1, 2, 3, 4, 5].map(value => scheduler.schedule(async () => {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await delay(10);
+				inFlight--;
+				return value;
+			})));
+
+			assert.deepStrictEqual(results, [1, 2, 3, 4, 5]);
+			assert.strictEqual(maxInFlight, 2);
+		});
+
+		test('should spread requests according to the rate limit', async () => {
+			// 600 requests per minute = one token every 100ms, burst of one
+			const scheduler = new RequestScheduler({ ...fastOptions, concurrency: 1, requestsPerMinute: 600 });
+			const start = Date.now();
+
+			await Promise.all([1, 2, 3].map(() => scheduler.schedule(async () => true)));
+
+			assert.ok(Date.now() - start >= 180, 'third request should wait for two refills');
+		});
+	});
+
+	suite('Retries', () => {
+		test('should retry rate-limited requests until they succeed', async () => {
+			const scheduler = new RequestScheduler(fastOptions);
+			let attempts = 0;
+
+			const result = await scheduler.schedule(async () => {
+				attempts++;
+				if (attempts < 3) {
+					throw new ProviderRequestError('Rate limited', 429);
+				}
+				return 'ok';
+			});
+
+			assert.strictEqual(result, 'ok');
+			assert.strictEqual(attempts, 3);
+		});
+
+		test('should retry server errors', async () => {
+			const scheduler = new RequestScheduler(fastOptions);
+			let attempts = 0;
+
+			await scheduler.schedule(async () => {
+				attempts++;
+				if (attempts === 1) {
+					throw new ProviderRequestError('Bad gateway', 502);
+				}
+				return 'ok';
+			});
+
+			assert.strictEqual(attempts, 2);
+		});
+
+		test('should not retry client errors', async () => {
+			const scheduler = new RequestScheduler(fastOptions);
+			let attempts = 0;
+
+			await assert.rejects(
+				scheduler.schedule(async () => {
+					attempts++;
+					throw new ProviderRequestError('Unauthorized', 401);
+				}),
+				/Unauthorized/
+			);
+			assert.strictEqual(attempts, 1);
+		});
+
+		test('should give up after the configured number of retries', async () => {
+			const scheduler = new RequestScheduler({ ...fastOptions, maxRetries: 2 });
+			let attempts = 0;
+
+			await assert.rejects(scheduler.schedule(async () => {
+				attempts++;
+				throw new ProviderRequestError('Unavailable', 503);
+			}));
+			assert.strictEqual(attempts, 3);
+		});
+
+		test('should wait as long as Retry-After asks', async () => {
+			const scheduler = new RequestScheduler({ ...fastOptions, maxDelayMs: 1000 });
+			let attempts = 0;
+			const start = Date.now();
+
+			await scheduler.schedule(async () => {
+				attempts++;
+				if (attempts === 1) {
+					throw new ProviderRequestError('Rate limited', 429, 80);
+				}
+				return 'ok';
+			});
+
+			assert.ok(Date.now() - start >= 75);
+		});
+
+		test('should read Retry-After from SDK error headers', async () => {
+			const scheduler = new RequestScheduler({ ...fastOptions, maxDelayMs: 1000 });
+			let attempts = 0;
+			const start = Date.now();
+
+			await scheduler.schedule(async () => {
+				attempts++;
+				if (attempts === 1) {
+					throw Object.assign(new Error('Rate limited'), { status: 429, headers: createHeaders({ 'retry-after-ms': '60' }) });
+				}
+				return 'ok';
+			});
+
+			assert.ok(Date.now() - start >= 55);
+		});
+	});
+
+	suite('Helpers', () => {
+		test('should parse Retry-After in seconds, milliseconds and as a date', () => {
+			assert.strictEqual(getRetryAfterMs(createHeaders({ 'retry-after': '2' })), 2000);
+			assert.strictEqual(getRetryAfterMs(createHeaders({ 'retry-after-ms': '150' })), 150);
+			const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+			const fromDate = getRetryAfterMs(createHeaders({ 'retry-after': inFiveSeconds }))!;
+			assert.ok(fromDate > 3000 && fromDate <= 5000);
+			assert.strictEqual(getRetryAfterMs(createHeaders({})), undefined);
+			assert.strictEqual(getRetryAfterMs(undefined), undefined);
+		});
+
+		test('should classify retryable errors', () => {
+			assert.strictEqual(isRetryableError(new ProviderRequestError('', 429)), true);
+			assert.strictEqual(isRetryableError(new ProviderRequestError('', 500)), true);
+			assert.strictEqual(isRetryableError(new ProviderRequestError('', 404)), false);
+			assert.strictEqual(isRetryableError(new Error('network down')), false);
+		});
+	});
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { CommitInfo } from '../../integrations/git';
+import { createPullRequestCommit, detectPullRequest } from '../../integrations/pull-requests';
+
+suite('Pull Requests Test Suite', () => {
+	const createCommit = (hash: string, message: string, options: Partial<CommitInfo> = {}): CommitInfo => ({
+		hash,
+		message,
+		author: 'Alice',
+		date: '2024-01-01',
+		diff: '',
+		parents: ['parent0'],
+		...options
+	});
+
+	suite('detectPullRequest', () => {
+		const merge = (message: string, body: string) => createCommit('m1', message, { body, parents: ['p1', 'p2'] });
+
+		test('should read GitHub merge commits', () => {
+			assert.deepStrictEqual(detectPullRequest(merge('Merge pull request #12 from acme/feature-export', 'feat: add CSV export')), {
+				number: 12,
+				reference: '#12',
+				title: 'feat: add CSV export',
+				branch: 'acme/feature-export',
+				strategy: 'merge'
+			});
+		});
+
+		test('should read Bitbucket and GitLab merge commits', () => {
+			const bitbucket = detectPullRequest(merge('Merged in feature/login (pull request #7)', 'Fix login redirect\n\nApproved-by: Bob'));
+			const gitlab = detectPullRequest(merge("Merge branch 'feature/api' into 'main'", 'Add rate limits\n\nSee merge request acme/app!34'));
+
+			assert.deepStrictEqual([bitbucket?.reference, bitbucket?.title, bitbucket?.branch], ['#7', 'Fix login redirect', 'feature/login']);
+			assert.deepStrictEqual([gitlab?.reference, gitlab?.title, gitlab?.branch], ['!34', 'Add rate limits', 'feature/api']);
+		});
+
+		test('should fall back to the branch name without a title', () => {
+			assert.strictEqual(detectPullRequest(merge('Merge pull request #3 from acme/hotfix', ''))?.title, 'acme/hotfix');
+		});
+
+		test('should read squash subjects', () => {
+			assert.deepStrictEqual(detectPullRequest(createCommit('s1', 'fix(api): handle timeouts (#45)')), {
+				number: 45,
+				reference: '#45',
+				title: 'fix(api): handle timeouts',
+				strategy: 'squash'
+			});
+		});
+
+		test('should ignore other merges and plain commits', () => {
+			assert.strictEqual(detectPullRequest(merge("Merge branch 'main' into feature", '')), undefined);
+			assert.strictEqual(detectPullRequest(createCommit('c1', 'fix: typo')), undefined);
+			assert.strictEqual(detectPullRequest(createCommit('c2', 'Merge pull request #12 from acme/x')), undefined);
+		});
+	});
+
+	suite('createPullRequestCommit', () => {
+		const mergeCommit = createCommit('merge123', 'Merge pull request #12 from acme/export', {
+			author: 'Maintainer',
+			date: '2024-02-01',
+			body: 'feat: add CSV export',
+			parents: ['p1', 'p2']
+		});
+		const mergedCommits = [
+			createCommit('c3', 'fix review comments', { author: 'Bob', files: ['src/b.ts'] }),
+			createCommit('c2', 'feat!: rename export option\n', {
+				body: 'BREAKING CHANGE: `csv` is now `format`',
+				files: ['src/a.ts']
+			}),
+			createCommit('c1', 'wip', { files: ['src/a.ts'] })
+		];
+
+		test('should stand for the whole pull request', () => {
+			const commit = createPullRequestCommit(mergeCommit, detectPullRequest(mergeCommit)!, mergedCommits);
+
+			assert.strictEqual(commit.hash, 'merge123');
+			assert.strictEqual(commit.message, 'feat: add CSV export');
+			assert.strictEqual(commit.author, 'Alice');
+			assert.strictEqual(commit.date, '2024-02-01');
+			assert.deepStrictEqual(commit.files, ['src/b.ts', 'src/a.ts']);
+			assert.ok(commit.body?.includes('- fix review comments\n- feat!: rename export option'));
+			assert.deepStrictEqual(commit.pullRequest?.commits, ['c3', 'c2', 'c1']);
+		});
+
+		test('should credit other authors and carry breaking changes', () => {
+			const commit = createPullRequestCommit(mergeCommit, detectPullRequest(mergeCommit)!, mergedCommits);
+
+			assert.strictEqual(commit.parsed?.type, 'feat');
+			assert.deepStrictEqual(commit.parsed?.coAuthors.map(coAuthor => coAuthor.name), ['Bob']);
+			assert.deepStrictEqual(commit.parsed?.references, ['#12']);
+			assert.strictEqual(commit.parsed?.breaking, true);
+			assert.strictEqual(commit.parsed?.breakingNote, '`csv` is now `format`');
+		});
+
+		test('should keep squash commits and mark them', () => {
+			const squash = createCommit('s1', 'fix(api): handle timeouts (#45)');
+			const commit = createPullRequestCommit(squash, detectPullRequest(squash)!);
+
+			assert.strictEqual(commit.message, 'fix(api): handle timeouts (#45)');
+			assert.deepStrictEqual(commit.pullRequest?.commits, ['s1']);
+		});
+	});
+});
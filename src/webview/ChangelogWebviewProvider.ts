@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { ChangelogGenerator } from '@/core/changelog';
 import { ConfigService } from '@/config/config';
+import { AIService, CostNotConfirmedError } from '@/integrations/ai-service';
+import { rendererFactory } from '@/core/renderers';
 
 export class ChangelogWebviewProvider implements vscode.WebviewViewProvider {
 	public static readonly viewType = 'shipnote-ai.changelogView';
@@ -10,7 +12,8 @@ export class ChangelogWebviewProvider implements vscode.WebviewViewProvider {
 	constructor(
 		private readonly _extensionUri: vscode.Uri,
 		private readonly changelogGenerator: ChangelogGenerator,
-		private readonly configService: ConfigService
+		private readonly configService: ConfigService,
+		private readonly aiService: AIService
 	) {}
 
 	public resolveWebviewView(
@@ -74,6 +77,11 @@ export class ChangelogWebviewProvider implements vscode.WebviewViewProvider {
 
 			this.sendMessage('changelogGenerated', changelog);
 		} catch (error) {
+			// Declining the estimated cost cancels the run
+			if (error instanceof CostNotConfirmedError) {
+				this.sendMessage('cancelled', undefined);
+				return;
+			}
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 			this.sendMessage('error', errorMessage);
 		}
@@ -96,6 +104,11 @@ export class ChangelogWebviewProvider implements vscode.WebviewViewProvider {
 
 			this.sendMessage('previewGenerated', changelog);
 		} catch (error) {
+			// Declining the estimated cost cancels the run
+			if (error instanceof CostNotConfirmedError) {
+				this.sendMessage('cancelled', undefined);
+				return;
+			}
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 			this.sendMessage('error', errorMessage);
 		}
@@ -105,10 +118,22 @@ export class ChangelogWebviewProvider implements vscode.WebviewViewProvider {
 		const config = {
 			defaultCommitCount: this.configService.getDefaultCommitCount(),
 			changelogStyle: this.configService.getChangelogStyle(),
+			changelogStyles: this.configService.getStyleRegistry().getAll().map(style => ({
+				name: style.name,
+				label: style.label || style.name,
+				description: style.description
+			})),
+			outputFormat: this.configService.getOutputFormat(),
+			outputFormats: rendererFactory.getSupportedFormats().map(format => ({
+				format,
+				name: rendererFactory.createRenderer(format).name
+			})),
 			outputFileName: this.configService.getOutputFileName(),
 			includeCommitTypes: this.configService.getIncludeCommitTypes(),
 			skipFormattingCommits: this.configService.getSkipFormattingCommits(),
 			groupByAuthor: this.configService.getGroupByAuthor(),
+			primaryAIProvider: this.aiService.getPrimaryProvider(),
+			aiProviders: this.aiService.getProviderStatus(),
 		};
 
 		this.sendMessage('configData', config);
@@ -156,6 +181,18 @@ export class ChangelogWebviewProvider implements vscode.WebviewViewProvider {
 							<input type="number" id="commitCount" value="10" min="1" max="100">
 						</div>
 
+						<div class="form-group">
+							<label for="aiProvider">AI provider:</label>
+							<select id="aiProvider">
+								<option value="openai">OpenAI</option>
+								<option value="anthropic">Anthropic Claude</option>
+								<option value="google">Google Gemini</option>
+								<option value="azure">Azure OpenAI</option>
+								<option value="local">Local LLM</option>
+								<option value="offline">Offline</option>
+							</select>
+						</div>
+
 						<div class="form-group">
 							<label for="changelogStyle">Changelog style:</label>
 							<select id="changelogStyle">
@@ -165,6 +202,18 @@ export class ChangelogWebviewProvider implements vscode.WebviewViewProvider {
 							</select>
 						</div>
 
+						<div class="form-group">
+							<label for="outputFormat">Output format:</label>
+							<select id="outputFormat">
+								<option value="markdown">Markdown</option>
+								<option value="keep-a-changelog">Keep a Changelog</option>
+								<option value="html">HTML</option>
+								<option value="asciidoc">AsciiDoc</option>
+								<option value="rst">reStructuredText</option>
+								<option value="plain">Plain Text</option>
+							</select>
+						</div>
+
 						<div class="form-group">
 							<label>
 								<input type="checkbox" id="skipFormatting" checked>